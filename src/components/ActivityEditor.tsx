@@ -14,9 +14,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
-import { Loader2, Globe, Lock, Gauge, MapPin, Trash2, AlertTriangle } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Globe, Lock, Gauge, MapPin, Trash2, AlertTriangle, Car, Scissors, Undo2 } from "lucide-react";
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
+import { getTrackStoragePaths } from "@/utils/trackFormats";
+import { AnalysisProfile, ElevationSource, SmoothingMethod, resolveAnalysisProfile, sameAnalysisSettings } from "@/utils/analysisProfiles";
+import { VehicleSpec } from "@/utils/vehicleModel";
+import { GPXPoint, ProcessedTrack } from "@/utils/gpxParser";
+import { createGPXContent } from "@/utils/gpxWriter";
+import { TrimMode, trimTrack } from "@/utils/trackTrim";
+import { generateProcessedTrackAsync, importTrackAsync, parseTrackFileAsync } from "@/lib/analysis";
+import AnalysisProfileSelect from "./AnalysisProfileSelect";
+import TrackTrimEditor from "./TrackTrimEditor";
 
 interface ActivityData {
     id: string;
@@ -26,13 +36,16 @@ interface ActivityData {
     speed_cap: number | null;
     hide_radius: number | null;
     file_path?: string;
+    analysis_profile?: AnalysisProfile | null;
+    vehicle?: VehicleSpec; // of the fuel/energy estimate (driveVehicle), reused when re-analysing
+    trimmed?: boolean; // the untrimmed GPX is kept in storage and can be restored
 }
 
 interface ActivityEditorProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
     activity: ActivityData;
-    onUpdate?: (updated: ActivityData) => void;
+    onUpdate?: (updated: ActivityData, reanalysed: boolean) => void;
 }
 
 const ActivityEditor = ({ open, onOpenChange, activity, onUpdate }: ActivityEditorProps) => {
@@ -45,6 +58,13 @@ const ActivityEditor = ({ open, onOpenChange, activity, onUpdate }: ActivityEdit
     const [isPublic, setIsPublic] = useState(activity.public || false);
     const [speedCap, setSpeedCap] = useState(activity.speed_cap || 120);
     const [hideRadius, setHideRadius] = useState(activity.hide_radius || 5);
+    const [analysisProfile, setAnalysisProfile] = useState(resolveAnalysisProfile(activity.analysis_profile));
+
+    // Trim mode: the stored GPX and its points, loaded when trimming starts
+    const [storedTrack, setStoredTrack] = useState<{ content: string; points: GPXPoint[] } | null>(null);
+    const [trimMode, setTrimMode] = useState<TrimMode>('keep');
+    const [trimRange, setTrimRange] = useState<[number, number] | null>(null);
+    const [loadingTrack, setLoadingTrack] = useState(false);
 
     // Reset state when dialog opens or activity changes
     useEffect(() => {
@@ -54,9 +74,125 @@ const ActivityEditor = ({ open, onOpenChange, activity, onUpdate }: ActivityEdit
             setIsPublic(activity.public || false);
             setSpeedCap(activity.speed_cap || 120);
             setHideRadius(activity.hide_radius || 5);
+            setAnalysisProfile(resolveAnalysisProfile(activity.analysis_profile));
+            setStoredTrack(null);
+            setTrimMode('keep');
+            setTrimRange(null);
         }
     }, [open, activity]);
 
+    // Stores a re-generated analysis of the track: the processed cache and the stats column
+    const storeTrackAnalysis = async (processedTrack: ProcessedTrack, trimmed: boolean) => {
+        const { processed } = getTrackStoragePaths(activity.file_path!);
+        const { error: cacheError } = await supabase.storage
+            .from('gpx-files')
+            .upload(processed, new Blob([JSON.stringify(processedTrack)], { type: 'application/json' }), { upsert: true });
+        if (cacheError) console.warn("Could not update processed cache:", cacheError);
+
+        const { error } = await supabase
+            .from("activities")
+            .update({
+                stats: { ...processedTrack.stats, previewCoordinates: processedTrack.previewCoordinates },
+                trimmed,
+            })
+            .eq("id", activity.id);
+        if (error) throw error;
+    };
+
+    const handleStartTrim = async () => {
+        setLoadingTrack(true);
+        try {
+            const { gpx } = getTrackStoragePaths(activity.file_path!);
+            const { data: fileData, error: storageError } = await supabase.storage
+                .from('gpx-files')
+                .download(gpx);
+            if (storageError) throw storageError;
+
+            const content = await fileData.text();
+            setStoredTrack({ content, points: await parseTrackFileAsync(content, gpx) });
+        } catch (err) {
+            console.error("Error loading track:", err);
+            toast.error("Failed to load the track");
+        } finally {
+            setLoadingTrack(false);
+        }
+    };
+
+    const handleSaveTrim = async () => {
+        if (!storedTrack || !trimRange) return;
+        const points = trimTrack(storedTrack.points, trimRange, trimMode);
+        if (points.length < 2) {
+            toast.error("Keep at least two points");
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const { gpx, untrimmed } = getTrackStoragePaths(activity.file_path!);
+
+            // 1. The first trim keeps the current GPX so it can be restored; later trims build on it
+            if (!activity.trimmed) {
+                const { error: copyError } = await supabase.storage
+                    .from('gpx-files')
+                    .upload(untrimmed, new Blob([storedTrack.content], { type: 'text/xml' }), { upsert: true });
+                if (copyError) throw copyError;
+            }
+
+            // 2. Rewrite the GPX and re-analyse with the activity's saved profile and vehicle
+            const { error: uploadError } = await supabase.storage
+                .from('gpx-files')
+                .upload(gpx, new Blob([createGPXContent(points, activity.title)], { type: 'text/xml' }), { upsert: true });
+            if (uploadError) throw uploadError;
+
+            const processedTrack = await generateProcessedTrackAsync(points, resolveAnalysisProfile(activity.analysis_profile), activity.vehicle);
+            await storeTrackAnalysis(processedTrack, true);
+
+            toast.success("Track trimmed");
+            onOpenChange(false);
+            if (onUpdate) onUpdate({ ...activity, trimmed: true }, true);
+        } catch (err) {
+            console.error("Error trimming track:", err);
+            toast.error("Failed to trim the track");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleRevertTrim = async () => {
+        if (!window.confirm("Restore the track as it was before trimming?")) return;
+
+        setSaving(true);
+        try {
+            const { gpx, untrimmed } = getTrackStoragePaths(activity.file_path!);
+            const { data: fileData, error: storageError } = await supabase.storage
+                .from('gpx-files')
+                .download(untrimmed);
+            if (storageError) throw storageError;
+
+            const content = await fileData.text();
+            const { error: uploadError } = await supabase.storage
+                .from('gpx-files')
+                .upload(gpx, new Blob([content], { type: 'text/xml' }), { upsert: true });
+            if (uploadError) throw uploadError;
+
+            const { processedTrack } = await importTrackAsync(content, gpx, { profile: resolveAnalysisProfile(activity.analysis_profile), vehicle: activity.vehicle });
+            await storeTrackAnalysis(processedTrack, false);
+
+            // Non-fatal: a left-over copy is overwritten by the next trim
+            const { error: removeError } = await supabase.storage.from('gpx-files').remove([untrimmed]);
+            if (removeError) console.warn("Could not remove untrimmed copy:", removeError);
+
+            toast.success("Original track restored");
+            onOpenChange(false);
+            if (onUpdate) onUpdate({ ...activity, trimmed: false }, true);
+        } catch (err) {
+            console.error("Error reverting trim:", err);
+            toast.error("Failed to restore the original track");
+        } finally {
+            setSaving(false);
+        }
+    };
+
     const handleSave = async () => {
         if (!title.trim()) {
             toast.error("Title is required");
@@ -65,6 +201,27 @@ const ActivityEditor = ({ open, onOpenChange, activity, onUpdate }: ActivityEdit
 
         setSaving(true);
         try {
+            // A different profile means different stats: re-analyse the track and refresh the cache
+            const reanalyse = !!activity.file_path &&
+                !sameAnalysisSettings(analysisProfile, resolveAnalysisProfile(activity.analysis_profile));
+            let reanalysedStats: Record<string, unknown> | undefined;
+
+            if (reanalyse) {
+                const { gpx, processed } = getTrackStoragePaths(activity.file_path!);
+                const { data: fileData, error: storageError } = await supabase.storage
+                    .from('gpx-files')
+                    .download(gpx);
+                if (storageError) throw storageError;
+
+                const { processedTrack } = await importTrackAsync(await fileData.text(), gpx, { profile: analysisProfile, vehicle: activity.vehicle });
+                const { error: cacheError } = await supabase.storage
+                    .from('gpx-files')
+                    .upload(processed, new Blob([JSON.stringify(processedTrack)], { type: 'application/json' }), { upsert: true });
+                if (cacheError) console.warn("Could not update processed cache:", cacheError);
+
+                reanalysedStats = { ...processedTrack.stats, previewCoordinates: processedTrack.previewCoordinates };
+            }
+
             const { error } = await supabase
                 .from("activities")
                 .update({
@@ -73,12 +230,14 @@ const ActivityEditor = ({ open, onOpenChange, activity, onUpdate }: ActivityEdit
                     public: isPublic,
                     speed_cap: isPublic ? speedCap : null,
                     hide_radius: isPublic ? hideRadius : null,
+                    analysis_profile: analysisProfile,
+                    ...(reanalysedStats ? { stats: reanalysedStats } : {}),
                 })
                 .eq("id", activity.id);
 
             if (error) throw error;
 
-            toast.success("Activity updated!");
+            toast.success(reanalyse ? "Activity updated and re-analysed!" : "Activity updated!");
             onOpenChange(false);
 
             if (onUpdate) {
@@ -89,7 +248,8 @@ const ActivityEditor = ({ open, onOpenChange, activity, onUpdate }: ActivityEdit
                     public: isPublic,
                     speed_cap: isPublic ? speedCap : null,
                     hide_radius: isPublic ? hideRadius : null,
-                });
+                    analysis_profile: analysisProfile,
+                }, reanalyse);
             }
         } catch (err) {
             console.error("Error saving activity:", err);
@@ -104,11 +264,12 @@ const ActivityEditor = ({ open, onOpenChange, activity, onUpdate }: ActivityEdit
 
         setDeleting(true);
         try {
-            // 1. Delete file from Storage (if path exists)
+            // 1. Delete files from Storage (if path exists)
             if (activity.file_path) {
+                const { gpx, processed, untrimmed, source } = getTrackStoragePaths(activity.file_path);
                 const { error: storageError } = await supabase.storage
                     .from('gpx-files')
-                    .remove([activity.file_path]);
+                    .remove(source ? [gpx, processed, untrimmed, source] : [gpx, processed, untrimmed]);
 
                 if (storageError) console.error("Storage delete error:", storageError);
             }
@@ -133,6 +294,39 @@ const ActivityEditor = ({ open, onOpenChange, activity, onUpdate }: ActivityEdit
         }
     };
 
+    if (storedTrack) {
+        return (
+            <Dialog open={open} onOpenChange={onOpenChange}>
+                <DialogContent className="sm:max-w-2xl z-[2001] max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>Trim Track</DialogTitle>
+                        <DialogDescription>
+                            Select the part to keep, or a section to cut out. The stats are recalculated when saved.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <TrackTrimEditor
+                        points={storedTrack.points}
+                        mode={trimMode}
+                        onModeChange={setTrimMode}
+                        range={trimRange}
+                        onRangeChange={setTrimRange}
+                    />
+
+                    <DialogFooter>
+                        <Button variant="ghost" onClick={() => setStoredTrack(null)} disabled={saving}>
+                            Back
+                        </Button>
+                        <Button onClick={handleSaveTrim} disabled={saving || !trimRange}>
+                            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Save Trim
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        );
+    }
+
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
             <DialogContent className="sm:max-w-md z-[2001]">
@@ -168,6 +362,77 @@ const ActivityEditor = ({ open, onOpenChange, activity, onUpdate }: ActivityEdit
                         />
                     </div>
 
+                    {/* Analysis Profile */}
+                    <div className="space-y-2">
+                        <Label className="flex items-center gap-2">
+                            <Car className="w-4 h-4 text-muted-foreground" />
+                            Analysis Profile
+                        </Label>
+                        <AnalysisProfileSelect value={analysisProfile} onChange={setAnalysisProfile} disabled={saving} />
+                        <div className="flex items-center gap-2">
+                            <Label htmlFor="smoothing" className="text-xs text-muted-foreground shrink-0">Smoothing</Label>
+                            <Select
+                                value={analysisProfile.smoothing}
+                                onValueChange={(smoothing: SmoothingMethod) => setAnalysisProfile({ ...analysisProfile, smoothing })}
+                                disabled={saving}
+                            >
+                                <SelectTrigger id="smoothing" className="h-9 flex-1">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="z-[2002]">
+                                    <SelectItem value="moving-average">Moving average</SelectItem>
+                                    <SelectItem value="kalman">Kalman filter (RTS)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Label htmlFor="elevation" className="text-xs text-muted-foreground shrink-0">Elevation</Label>
+                            <Select
+                                value={analysisProfile.elevation}
+                                onValueChange={(elevation: ElevationSource) => setAnalysisProfile({ ...analysisProfile, elevation })}
+                                disabled={saving}
+                            >
+                                <SelectTrigger id="elevation" className="h-9 flex-1">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="z-[2002]">
+                                    <SelectItem value="device">Device (GPS altitude)</SelectItem>
+                                    <SelectItem value="dem">Corrected (terrain model)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Vehicle thresholds for stops, hard acceleration/braking and turns, and how the GPS track is smoothed.
+                            The Kalman filter estimates position, speed and acceleration together. Corrected elevation replaces the
+                            GPS altitude with terrain heights, so climbs compare across devices. Changing any of these re-analyses the track.
+                        </p>
+                    </div>
+
+                    {/* Trim */}
+                    {activity.file_path && (
+                        <div className="space-y-2">
+                            <Label className="flex items-center gap-2">
+                                <Scissors className="w-4 h-4 text-muted-foreground" />
+                                Track
+                            </Label>
+                            <div className="flex gap-2">
+                                <Button variant="outline" size="sm" onClick={handleStartTrim} disabled={saving || deleting || loadingTrack}>
+                                    {loadingTrack ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Scissors className="w-4 h-4 mr-2" />}
+                                    Trim Track
+                                </Button>
+                                {activity.trimmed && (
+                                    <Button variant="ghost" size="sm" onClick={handleRevertTrim} disabled={saving || deleting || loadingTrack}>
+                                        <Undo2 className="w-4 h-4 mr-2" />
+                                        Revert Trim
+                                    </Button>
+                                )}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                Remove points from the start, the end or a section in the middle. The untrimmed track is kept and can be restored.
+                            </p>
+                        </div>
+                    )}
+
                     {/* Public Toggle */}
                     <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50 border border-border">
                         <div className="flex items-center gap-3">
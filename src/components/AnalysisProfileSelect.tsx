@@ -0,0 +1,153 @@
+import { useState, useEffect } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SlidersHorizontal, Trash2 } from "lucide-react";
+import {
+    AnalysisProfile,
+    PROFILE_SETTINGS,
+    deleteCustomProfile,
+    getAnalysisProfiles,
+    isBuiltInProfile,
+    sameThresholds,
+    saveCustomProfile,
+} from "@/utils/analysisProfiles";
+
+interface AnalysisProfileSelectProps {
+    value: AnalysisProfile;
+    onChange: (profile: AnalysisProfile) => void;
+    disabled?: boolean;
+}
+
+// Select of built-in and custom profiles, with a dialog to create/edit custom ones
+const AnalysisProfileSelect = ({ value, onChange, disabled }: AnalysisProfileSelectProps) => {
+    const [profiles, setProfiles] = useState<AnalysisProfile[]>(getAnalysisProfiles);
+    const [editorOpen, setEditorOpen] = useState(false);
+    const [draft, setDraft] = useState<AnalysisProfile>(value);
+
+    useEffect(() => {
+        if (editorOpen) setDraft(value);
+    }, [editorOpen, value]);
+
+    // An activity can carry a snapshot that no longer matches any profile here (edited or deleted custom profile).
+    // Smoothing and the elevation source are chosen separately and carried over when switching profiles.
+    const listed = profiles.find(p => p.id === value.id && sameThresholds(p, value));
+    const options = listed ? profiles : [...profiles, { ...value, id: `${value.id}__snapshot` }];
+    const selectedId = listed ? value.id : `${value.id}__snapshot`;
+
+    const handleSelect = (id: string) => {
+        const profile = options.find(p => p.id === id);
+        if (profile) onChange(id === selectedId ? value : { ...profile, smoothing: value.smoothing, elevation: value.elevation });
+    };
+
+    const handleSaveDraft = () => {
+        const profile: AnalysisProfile = {
+            ...draft,
+            name: draft.name.trim() || "Custom",
+            // Editing a built-in preset saves a copy
+            id: isBuiltInProfile(draft.id) ? `custom-${Date.now()}` : draft.id,
+            smoothing: value.smoothing,
+            elevation: value.elevation,
+        };
+        saveCustomProfile(profile);
+        setProfiles(getAnalysisProfiles());
+        onChange(profile);
+        setEditorOpen(false);
+    };
+
+    const handleDeleteDraft = () => {
+        deleteCustomProfile(draft.id);
+        setProfiles(getAnalysisProfiles());
+        setEditorOpen(false);
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <Select value={selectedId} onValueChange={handleSelect} disabled={disabled}>
+                <SelectTrigger className="h-9 flex-1">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[2002]">
+                    {options.map(p => (
+                        <SelectItem key={p.id} value={p.id}>
+                            {p.name}
+                            {p.id.endsWith("__snapshot") && " (as analysed)"}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setEditorOpen(true)} disabled={disabled} title="Customise thresholds">
+                <SlidersHorizontal className="w-4 h-4" />
+            </Button>
+
+            <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+                <DialogContent className="sm:max-w-md z-[2003] max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>Analysis Profile</DialogTitle>
+                        <DialogDescription>
+                            Thresholds used for stops, hard acceleration/braking, harsh cornering, turns and GPS jitter filtering.
+                            {isBuiltInProfile(draft.id) && " Built-in profiles are saved as a custom copy."}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4 py-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="profile-name">Name</Label>
+                            <Input
+                                id="profile-name"
+                                value={draft.name}
+                                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                placeholder="e.g. Sprinter van"
+                            />
+                        </div>
+                        {PROFILE_SETTINGS.map(setting => (
+                            <div key={setting.key} className="grid grid-cols-[9rem_1fr_6rem] items-center gap-2">
+                                <Label htmlFor={`profile-${setting.key}`} className="text-xs">{setting.label}</Label>
+                                <Input
+                                    id={`profile-${setting.key}`}
+                                    type="number"
+                                    step={setting.step}
+                                    className="h-8"
+                                    value={draft[setting.key]}
+                                    onChange={(e) => {
+                                        const num = parseFloat(e.target.value);
+                                        if (!isNaN(num)) setDraft({ ...draft, [setting.key]: num });
+                                    }}
+                                />
+                                <span className="text-xs text-muted-foreground">{setting.unit}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <DialogFooter className="flex sm:justify-between items-center gap-4">
+                        {!isBuiltInProfile(draft.id) && profiles.some(p => p.id === draft.id) ? (
+                            <Button variant="ghost" size="sm" onClick={handleDeleteDraft} className="mr-auto">
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Delete
+                            </Button>
+                        ) : <span />}
+                        <div className="flex gap-2">
+                            <Button variant="ghost" onClick={() => setEditorOpen(false)}>
+                                Cancel
+                            </Button>
+                            <Button onClick={handleSaveDraft}>
+                                Save & Use
+                            </Button>
+                        </div>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+};
+
+export default AnalysisProfileSelect;
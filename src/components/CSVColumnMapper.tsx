@@ -0,0 +1,273 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import {
+    CSVColumnMapping,
+    CSVSpeedUnit,
+    CSVTable,
+    CSV_CHANNELS,
+    SavedCSVMapping,
+    channelKeyForColumn,
+    deleteSavedCSVMapping,
+    findSavedCSVMapping,
+    guessCSVMapping,
+    loadSavedCSVMappings,
+    saveCSVMapping,
+} from "@/utils/csvParser";
+
+// Radix Select doesn't allow empty item values
+const NONE = "__none__";
+
+const KNOWN_CHANNEL_KEYS = CSV_CHANNELS.map(c => c.key);
+
+interface CSVColumnMapperProps {
+    open: boolean;
+    fileName: string;
+    table: CSVTable;
+    onConfirm: (mapping: CSVColumnMapping) => void;
+    onCancel: () => void;
+}
+
+const isNumericColumn = (table: CSVTable, column: string) => {
+    const index = table.headers.indexOf(column);
+    return table.rows.slice(0, 20).some(row => row[index] !== undefined && row[index] !== "" && !isNaN(Number(row[index])));
+};
+
+const CSVColumnMapper = ({ open, fileName, table, onConfirm, onCancel }: CSVColumnMapperProps) => {
+    const [savedMappings, setSavedMappings] = useState<SavedCSVMapping[]>([]);
+    const [selectedSaved, setSelectedSaved] = useState<string>(NONE);
+    const [mapping, setMapping] = useState<CSVColumnMapping>(() => guessCSVMapping(table.headers));
+    const [extraColumns, setExtraColumns] = useState<string[]>([]);
+    const [saveName, setSaveName] = useState("");
+
+    const applyMapping = useCallback((next: CSVColumnMapping) => {
+        setMapping({
+            ...next,
+            channels: Object.fromEntries(Object.entries(next.channels).filter(([key]) => KNOWN_CHANNEL_KEYS.includes(key))),
+        });
+        setExtraColumns(
+            Object.entries(next.channels)
+                .filter(([key, column]) => !KNOWN_CHANNEL_KEYS.includes(key) && table.headers.includes(column))
+                .map(([, column]) => column)
+        );
+    }, [table]);
+
+    // Pre-select a saved mapping that fits this file so repeat imports are a single click
+    useEffect(() => {
+        if (!open) return;
+        const mappings = loadSavedCSVMappings();
+        const saved = findSavedCSVMapping(table.headers, mappings);
+        setSavedMappings(mappings);
+        setSelectedSaved(saved ? saved.name : NONE);
+        setSaveName(saved ? saved.name : "");
+        applyMapping(saved ? saved.mapping : guessCSVMapping(table.headers));
+    }, [open, table, applyMapping]);
+
+    const mappedColumns = useMemo(
+        () => [mapping.lat, mapping.lon, mapping.time, mapping.ele, mapping.speed, ...Object.values(mapping.channels)].filter(Boolean),
+        [mapping]
+    );
+
+    // Remaining numeric columns can be kept as extra channels
+    const otherColumns = useMemo(
+        () => table.headers.filter(h => !mappedColumns.includes(h) && isNumericColumn(table, h)),
+        [table, mappedColumns]
+    );
+
+    const handleSavedChange = (name: string) => {
+        setSelectedSaved(name);
+        const saved = savedMappings.find(m => m.name === name);
+        setSaveName(saved ? saved.name : "");
+        applyMapping(saved ? saved.mapping : guessCSVMapping(table.headers));
+    };
+
+    const handleDeleteSaved = () => {
+        setSavedMappings(deleteSavedCSVMapping(selectedSaved));
+        setSelectedSaved(NONE);
+        setSaveName("");
+    };
+
+    const setField = (field: "lat" | "lon" | "time" | "ele" | "speed", value: string) => {
+        setMapping(prev => ({ ...prev, [field]: value === NONE ? (field === "lat" || field === "lon" ? "" : undefined) : value }));
+    };
+
+    const setChannel = (key: string, value: string) => {
+        setMapping(prev => {
+            const channels = { ...prev.channels };
+            if (value === NONE) delete channels[key];
+            else channels[key] = value;
+            return { ...prev, channels };
+        });
+    };
+
+    const handleConfirm = () => {
+        const finalMapping: CSVColumnMapping = {
+            ...mapping,
+            channels: {
+                ...mapping.channels,
+                ...Object.fromEntries(extraColumns.filter(c => otherColumns.includes(c)).map(c => [channelKeyForColumn(c), c])),
+            },
+        };
+
+        if (saveName.trim()) {
+            saveCSVMapping({ name: saveName.trim(), headers: table.headers, mapping: finalMapping });
+        }
+        onConfirm(finalMapping);
+    };
+
+    const columnSelect = (value: string | undefined, onChange: (value: string) => void, allowNone = true) => (
+        <Select value={value || NONE} onValueChange={onChange}>
+            <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[2002]">
+                {allowNone && <SelectItem value={NONE}>Not in file</SelectItem>}
+                {table.headers.map(h => (
+                    <SelectItem key={h} value={h}>{h}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+
+    const canImport = !!mapping.lat && !!mapping.lon;
+    const firstRow = table.rows[0] || [];
+    const sample = (column?: string) => (column ? firstRow[table.headers.indexOf(column)] : undefined);
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+            <DialogContent className="sm:max-w-lg z-[2001] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Map CSV Columns</DialogTitle>
+                    <DialogDescription>
+                        Choose which columns of <span className="font-medium">{fileName}</span> hold the GPS position and telemetry.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-6 py-2">
+                    {/* Saved mappings */}
+                    {savedMappings.length > 0 && (
+                        <div className="space-y-2">
+                            <Label>Saved mapping</Label>
+                            <div className="flex items-center gap-2">
+                                <Select value={selectedSaved} onValueChange={handleSavedChange}>
+                                    <SelectTrigger className="h-9">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent className="z-[2002]">
+                                        <SelectItem value={NONE}>Detect from headers</SelectItem>
+                                        {savedMappings.map(m => (
+                                            <SelectItem key={m.name} value={m.name}>{m.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {selectedSaved !== NONE && (
+                                    <Button variant="ghost" size="icon" onClick={handleDeleteSaved} title="Delete saved mapping">
+                                        <Trash2 className="w-4 h-4 text-muted-foreground" />
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Position & time */}
+                    <div className="space-y-3">
+                        <h4 className="text-sm font-semibold">GPS</h4>
+                        {([
+                            ["lat", "Latitude", false],
+                            ["lon", "Longitude", false],
+                            ["time", "Time", true],
+                            ["ele", "Altitude (m)", true],
+                        ] as const).map(([field, label, optional]) => (
+                            <div key={field} className="grid grid-cols-[7rem_1fr_5rem] items-center gap-2">
+                                <Label className="text-xs">{label}</Label>
+                                {columnSelect(mapping[field], (v) => setField(field, v), optional)}
+                                <span className="text-xs text-muted-foreground truncate">{sample(mapping[field])}</span>
+                            </div>
+                        ))}
+                        <div className="grid grid-cols-[7rem_1fr_5rem] items-center gap-2">
+                            <Label className="text-xs">GPS speed</Label>
+                            {columnSelect(mapping.speed, (v) => setField("speed", v))}
+                            <Select value={mapping.speedUnit} onValueChange={(v) => setMapping(prev => ({ ...prev, speedUnit: v as CSVSpeedUnit }))}>
+                                <SelectTrigger className="h-8 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="z-[2002]">
+                                    <SelectItem value="kmh">km/h</SelectItem>
+                                    <SelectItem value="mps">m/s</SelectItem>
+                                    <SelectItem value="mph">mph</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    {/* OBD channels */}
+                    <div className="space-y-3">
+                        <h4 className="text-sm font-semibold">Vehicle channels</h4>
+                        {CSV_CHANNELS.map(channel => (
+                            <div key={channel.key} className="grid grid-cols-[7rem_1fr_5rem] items-center gap-2">
+                                <Label className="text-xs">{channel.label}</Label>
+                                {columnSelect(mapping.channels[channel.key], (v) => setChannel(channel.key, v))}
+                                <span className="text-xs text-muted-foreground truncate">{sample(mapping.channels[channel.key])}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Any other numeric columns */}
+                    {otherColumns.length > 0 && (
+                        <div className="space-y-3">
+                            <h4 className="text-sm font-semibold">Also keep</h4>
+                            <div className="grid grid-cols-2 gap-2">
+                                {otherColumns.map(column => (
+                                    <label key={column} className="flex items-center gap-2 text-xs cursor-pointer">
+                                        <Checkbox
+                                            checked={extraColumns.includes(column)}
+                                            onCheckedChange={(checked) => {
+                                                if (checked) setExtraColumns([...extraColumns, column]);
+                                                else setExtraColumns(extraColumns.filter(c => c !== column));
+                                            }}
+                                        />
+                                        <span className="truncate">{column}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Remember */}
+                    <div className="space-y-2">
+                        <Label htmlFor="csv-mapping-name">Remember this mapping as</Label>
+                        <Input
+                            id="csv-mapping-name"
+                            value={saveName}
+                            onChange={(e) => setSaveName(e.target.value)}
+                            placeholder="e.g. Torque Pro (optional)"
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onCancel}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleConfirm} disabled={!canImport}>
+                        Import
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default CSVColumnMapper;
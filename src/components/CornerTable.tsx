@@ -0,0 +1,97 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, CornerUpLeft, CornerUpRight } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { Corner, formatSpeed } from "@/utils/gpxParser";
+
+type SortKey = "number" | "angle" | "radius" | "entrySpeed" | "apexSpeed" | "exitSpeed" | "duration";
+
+const COLUMNS: { key: SortKey; label: string; align?: "right" }[] = [
+    { key: "number", label: "#" },
+    { key: "angle", label: "Angle", align: "right" },
+    { key: "radius", label: "Radius", align: "right" },
+    { key: "entrySpeed", label: "Entry", align: "right" },
+    { key: "apexSpeed", label: "Apex", align: "right" },
+    { key: "exitSpeed", label: "Exit", align: "right" },
+    { key: "duration", label: "Time", align: "right" },
+];
+
+interface CornerTableProps {
+    corners: Corner[];
+    selectedCorner?: number | null; // index into corners
+    onSelectCorner: (index: number) => void;
+}
+
+// Sortable table of detected corners; numbered in driving order
+const CornerTable = ({ corners, selectedCorner, onSelectCorner }: CornerTableProps) => {
+    const [sortKey, setSortKey] = useState<SortKey>("number");
+    const [ascending, setAscending] = useState(true);
+
+    const rows = useMemo(() => {
+        const numbered = corners.map((corner, index) => ({ corner, index }));
+        const value = ({ corner, index }: (typeof numbered)[number]) => (sortKey === "number" ? index : corner[sortKey]);
+        return numbered.sort((a, b) => (ascending ? value(a) - value(b) : value(b) - value(a)));
+    }, [corners, sortKey, ascending]);
+
+    const handleSort = (key: SortKey) => {
+        if (key === sortKey) {
+            setAscending(!ascending);
+        } else {
+            setSortKey(key);
+            // Biggest first is the interesting end for everything but the order
+            setAscending(key === "number");
+        }
+    };
+
+    return (
+        <div className="max-h-[420px] overflow-y-auto border border-border/50 rounded-lg">
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        {COLUMNS.map(column => (
+                            <TableHead
+                                key={column.key}
+                                onClick={() => handleSort(column.key)}
+                                className={cn("cursor-pointer select-none whitespace-nowrap", column.align === "right" && "text-right")}
+                            >
+                                {column.label}
+                                {sortKey === column.key && (ascending
+                                    ? <ArrowUp className="inline w-3 h-3 ml-1" />
+                                    : <ArrowDown className="inline w-3 h-3 ml-1" />)}
+                            </TableHead>
+                        ))}
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {rows.map(({ corner, index }) => {
+                        const Icon = corner.direction === "left" ? CornerUpLeft : CornerUpRight;
+                        return (
+                            <TableRow
+                                key={index}
+                                onClick={() => onSelectCorner(index)}
+                                className={cn("cursor-pointer tabular-nums", selectedCorner === index && "bg-primary/10")}
+                                title="Show on map and zoom the timeline"
+                            >
+                                <TableCell className="font-medium whitespace-nowrap">
+                                    <span className="inline-flex items-center gap-1.5">
+                                        {index + 1}
+                                        <Icon className={cn("w-3.5 h-3.5", corner.type === "hairpin" ? "text-purple-800 dark:text-purple-400" : "text-purple-500")} />
+                                        <span className="text-xs text-muted-foreground capitalize">{corner.type}</span>
+                                    </span>
+                                </TableCell>
+                                <TableCell className="text-right">{corner.angle.toFixed(0)}°</TableCell>
+                                <TableCell className="text-right">{corner.radius.toFixed(0)} m</TableCell>
+                                <TableCell className="text-right">{formatSpeed(corner.entrySpeed)}</TableCell>
+                                <TableCell className="text-right font-semibold">{formatSpeed(corner.apexSpeed)}</TableCell>
+                                <TableCell className="text-right">{formatSpeed(corner.exitSpeed)}</TableCell>
+                                <TableCell className="text-right">{corner.duration.toFixed(1)}s</TableCell>
+                            </TableRow>
+                        );
+                    })}
+                </TableBody>
+            </Table>
+        </div>
+    );
+};
+
+export default CornerTable;
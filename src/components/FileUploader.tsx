@@ -1,9 +1,10 @@
 import { useCallback, useState } from "react";
 import { Upload, FileText, X } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { SUPPORTED_TRACK_EXTENSIONS, TrackFile, getTrackFormat, isBinaryTrackFile } from "@/utils/trackFormats";
 
 interface FileUploaderProps {
-  onFilesLoad: (files: { content: string; name: string }[]) => void;
+  onFilesLoad: (files: TrackFile[]) => void;
   isLoading?: boolean;
 }
 
@@ -12,23 +13,25 @@ const FileUploader = ({ onFilesLoad, isLoading }: FileUploaderProps) => {
   const [fileName, setFileName] = useState<string | null>(null);
 
   const processFiles = useCallback(async (fileList: FileList | File[]) => {
-    const gpxFiles = Array.from(fileList).filter(f => f.name.toLowerCase().endsWith(".gpx"));
+    const trackFiles = Array.from(fileList).filter(f => getTrackFormat(f.name) !== null);
 
-    if (gpxFiles.length === 0) {
-      alert("Please upload valid GPX files");
+    if (trackFiles.length === 0) {
+      alert(`Please upload valid track files (${SUPPORTED_TRACK_EXTENSIONS.join(", ")})`);
       return;
     }
 
-    const results: { content: string; name: string }[] = [];
+    const results: TrackFile[] = [];
 
     // Read all files
-    for (const file of gpxFiles) {
+    for (const file of trackFiles) {
       try {
-        const content = await new Promise<string>((resolve, reject) => {
+        const content = await new Promise<string | ArrayBuffer>((resolve, reject) => {
           const reader = new FileReader();
-          reader.onload = (e) => resolve(e.target?.result as string);
+          reader.onload = (e) => resolve(e.target?.result as string | ArrayBuffer);
           reader.onerror = reject;
-          reader.readAsText(file);
+          // Binary formats (FIT) must not go through text decoding
+          if (isBinaryTrackFile(file.name)) reader.readAsArrayBuffer(file);
+          else reader.readAsText(file);
         });
         results.push({ content, name: file.name });
       } catch (error) {
@@ -92,7 +95,7 @@ const FileUploader = ({ onFilesLoad, isLoading }: FileUploaderProps) => {
     >
       <input
         type="file"
-        accept=".gpx"
+        accept={SUPPORTED_TRACK_EXTENSIONS.join(",")}
         multiple // Enable multiple files
         onChange={handleInputChange}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
@@ -128,14 +131,14 @@ const FileUploader = ({ onFilesLoad, isLoading }: FileUploaderProps) => {
             </div>
             <div>
               <p className="text-lg font-medium text-foreground">
-                Drop your GPX files here
+                Drop your track files here
               </p>
               <p className="text-sm text-muted-foreground mt-1">
                 or click to browse multiple files
               </p>
             </div>
             <p className="text-xs text-muted-foreground">
-              Supports .gpx files from GPS devices and apps
+              Supports {SUPPORTED_TRACK_EXTENSIONS.join(", ")} files from GPS devices and apps
             </p>
           </>
         )}
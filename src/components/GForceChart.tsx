@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+    ScatterChart,
+    Scatter,
+    XAxis,
+    YAxis,
+    ZAxis,
+    CartesianGrid,
+    Tooltip,
+    ReferenceLine,
+    ResponsiveContainer,
+} from "recharts";
+import { GForceSeries, GPXPoint } from "@/utils/gpxParser";
+import { calculateGForcesAsync, isAnalysisCancelled } from "@/lib/analysis";
+import { AnalysisProfile, DEFAULT_ANALYSIS_PROFILE } from "@/utils/analysisProfiles";
+
+const G = 9.81; // m/s²
+const MAX_SAMPLES = 2000; // keeps the SVG responsive on long tracks
+
+interface GForceChartProps {
+    points: GPXPoint[];
+    zoomRange?: [number, number] | null; // indices into points
+    analysisProfile?: AnalysisProfile;
+}
+
+interface Sample {
+    lateral: number;      // g, + = turning right
+    longitudinal: number; // g, + = accelerating
+}
+
+// Friction-circle (g-g) diagram: one dot per point, lateral vs longitudinal g
+const GForceChart = ({ points, zoomRange, analysisProfile = DEFAULT_ANALYSIS_PROFILE }: GForceChartProps) => {
+    const [forces, setForces] = useState<GForceSeries | null>(null);
+
+    useEffect(() => {
+        const abortController = new AbortController();
+        calculateGForcesAsync(points, analysisProfile, { signal: abortController.signal })
+            .then(setForces)
+            .catch(err => {
+                if (!isAnalysisCancelled(err)) console.error("Failed to calculate g-forces:", err);
+            });
+        return () => abortController.abort();
+    }, [points, analysisProfile]);
+
+    const { normal, harsh, limit } = useMemo(() => {
+        const normal: Sample[] = [];
+        const harsh: Sample[] = [];
+        if (!forces) return { normal, harsh, limit: 0.5 };
+
+        const first = zoomRange ? Math.max(0, zoomRange[0]) : 0;
+        const last = zoomRange ? Math.min(forces.lateral.length - 1, zoomRange[1]) : forces.lateral.length - 1;
+        const stride = Math.max(1, Math.ceil((last - first + 1) / MAX_SAMPLES));
+
+        let extent = 0;
+        for (let i = first; i <= last; i += stride) {
+            const lateral = forces.lateral[i];
+            const longitudinal = forces.longitudinal[i];
+            if (lateral === 0 && longitudinal === 0) continue; // stopped or rejected
+
+            const isHarsh = Math.abs(lateral) >= analysisProfile.harshCorneringThreshold ||
+                longitudinal >= analysisProfile.hardAccelThreshold ||
+                longitudinal <= analysisProfile.hardBrakeThreshold;
+            (isHarsh ? harsh : normal).push({ lateral: lateral / G, longitudinal: longitudinal / G });
+            extent = Math.max(extent, Math.abs(lateral), Math.abs(longitudinal));
+        }
+
+        // Square, symmetric axes so the circle stays round; at least the cornering threshold
+        const limit = Math.ceil(Math.max(extent, analysisProfile.harshCorneringThreshold) / G * 1.1 * 10) / 10;
+        return { normal, harsh, limit };
+    }, [forces, zoomRange, analysisProfile]);
+
+    const circle = useMemo(() => {
+        const radius = analysisProfile.harshCorneringThreshold / G;
+        return Array.from({ length: 65 }, (_, i) => {
+            const angle = (i / 64) * 2 * Math.PI;
+            return { lateral: radius * Math.sin(angle), longitudinal: radius * Math.cos(angle) };
+        });
+    }, [analysisProfile.harshCorneringThreshold]);
+
+    if (!forces) {
+        return (
+            <div className="h-full w-full flex items-center justify-center">
+                <p className="text-sm text-muted-foreground">Calculating…</p>
+            </div>
+        );
+    }
+
+    if (normal.length + harsh.length === 0) {
+        return (
+            <div className="h-full w-full flex items-center justify-center">
+                <p className="text-sm text-muted-foreground">Not enough data for a g-g diagram</p>
+            </div>
+        );
+    }
+
+    return (
+        <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 10, right: 10, left: -10, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                <XAxis
+                    type="number"
+                    dataKey="lateral"
+                    name="Lateral"
+                    domain={[-limit, limit]}
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={10}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(val: number) => `${val.toFixed(1)}g`}
+                    label={{ value: "Lateral g (left ← → right)", position: "insideBottom", offset: -10, fontSize: 10, fill: "currentColor", opacity: 0.5 }}
+                />
+                <YAxis
+                    type="number"
+                    dataKey="longitudinal"
+                    name="Longitudinal"
+                    domain={[-limit, limit]}
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={10}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(val: number) => `${val.toFixed(1)}g`}
+                />
+                <ZAxis range={[16, 16]} />
+                <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" strokeOpacity={0.5} />
+                <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeOpacity={0.5} />
+                <Tooltip
+                    contentStyle={{
+                        backgroundColor: 'hsl(var(--card))',
+                        borderColor: 'hsl(var(--border))',
+                        borderRadius: '16px',
+                        fontSize: '12px',
+                        boxShadow: '0 10px 25px -5px rgba(0,0,0,0.1), 0 8px 10px -6px rgba(0,0,0,0.1)'
+                    }}
+                    cursor={{ strokeDasharray: '3 3' }}
+                    formatter={(value: number, name: string) => [`${value.toFixed(2)} g`, name]}
+                />
+                {/* Harsh cornering threshold */}
+                <Scatter
+                    data={circle}
+                    line={{ stroke: "hsl(38, 92%, 50%)", strokeDasharray: "4 4", strokeWidth: 1 }}
+                    shape={() => <g />}
+                    isAnimationActive={false}
+                    legendType="none"
+                    tooltipType="none"
+                />
+                <Scatter data={normal} fill="hsl(15, 52%, 58%)" fillOpacity={0.35} shape="circle" isAnimationActive={false} />
+                <Scatter data={harsh} fill="hsl(38, 92%, 50%)" fillOpacity={0.9} shape="circle" isAnimationActive={false} />
+            </ScatterChart>
+        </ResponsiveContainer>
+    );
+};
+
+export default GForceChart;
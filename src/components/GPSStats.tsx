@@ -1,5 +1,5 @@
-import { useState, useMemo } from "react";
-import { MapPin, Activity, TrendingUp, Compass, RotateCcw, MoveRight, GitCommit, Spline, Gauge, Clock, AlertTriangle, Globe, Lock, Pencil, Info } from "lucide-react";
+import { useState, useMemo, useEffect, useCallback } from "react";
+import { MapPin, Activity, TrendingUp, Compass, RotateCcw, MoveRight, GitCommit, Spline, Gauge, Clock, AlertTriangle, Globe, Lock, Pencil, Info, Download, Flag, Timer, X, Crosshair, Fuel, BatteryCharging, CircleStop, Route } from "lucide-react";
 import { ResponsiveContainer } from "recharts";
 import { useIsMobile } from "@/hooks/use-mobile";
 import TrackMap from "./TrackMap";
@@ -7,10 +7,24 @@ import SpeedElevationChart from "./SpeedElevationChart";
 import SpeedDistributionChart from "./SpeedDistributionChart";
 import DistanceTimeChart from "./DistanceTimeChart";
 import ChartRangeSlider from "./ChartRangeSlider";
+import LapTable from "./LapTable";
+import CornerTable from "./CornerTable";
+import StopTable from "./StopTable";
+import RoadClassBreakdown from "./RoadClassBreakdown";
+import SpeedLimitTable from "./SpeedLimitTable";
+import GForceChart from "./GForceChart";
+import StateOfChargeChart from "./StateOfChargeChart";
 import { cn } from "@/lib/utils";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "sonner";
 import {
   Tooltip,
   TooltipContent,
@@ -25,14 +39,28 @@ import {
   formatDurationShort,
   formatSpeed,
   haversineDistance,
-  calculateLimitedStats,
-  calculateStats
+  LimitedStatsResult
 } from "@/utils/gpxParser";
+import {
+  capTrackSpeed,
+  createProcessedCSV,
+  createProcessedGeoJSON,
+  downloadFile,
+  exportFileName,
+  getPrivacyTrimRange
+} from "@/utils/trackExport";
+import { analyzeLapsAsync, calculateLimitedStatsAsync, calculateStatsAsync, generateProcessedTrackAsync, isAnalysisCancelled, analyzeSpeedLimitsAsync } from "@/lib/analysis";
+import { AnalysisProfile } from "@/utils/analysisProfiles";
+import { Lap, LapAnalysis, TimingLine, timingLineNear } from "@/utils/lapTiming";
+import { RoadRun, clipRoadRuns, runSpeedLimits } from "@/utils/mapMatching";
+import { SpeedLimitReport } from "@/utils/speedLimits";
+import { formatRoute } from "@/utils/reverseGeocoding";
 
 interface GPSStatsProps {
   stats: GPXStats;
   fileName: string;
   points: GPXPoint[];
+  roads?: RoadRun[]; // the whole track matched onto the road network, from the processed track
   speedCap?: number | null;
   isOwner?: boolean;
   isPublic?: boolean;
@@ -44,9 +72,10 @@ interface GPSStatsProps {
     car: string | null;
   } | null;
   onEdit?: () => void;
+  analysisProfile?: AnalysisProfile;
 }
 
-const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedCap, isOwner = true, isPublic = false, description, hideRadius = 0, ownerProfile, onEdit }: GPSStatsProps) => {
+const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, roads, speedCap, isOwner = true, isPublic = false, description, hideRadius = 0, ownerProfile, onEdit, analysisProfile }: GPSStatsProps) => {
   const [hoveredPoint, setHoveredPoint] = useState<GPXPoint | null>(null);
   const [zoomRange, setZoomRange] = useState<[number, number] | null>(null);
   const [activeTab, setActiveTab] = useState("overview");
@@ -63,39 +92,8 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
       };
     }
 
-    // Calculate cumulative distances to find cut-off points
-    let cumulativeDist = 0;
-    let startIndex = 0;
-    let endIndex = initialPoints.length - 1;
-
-    // Find start index (distance > hideRadius)
-    if (hideRadius > 0) {
-      for (let i = 1; i < initialPoints.length; i++) {
-        const dist = haversineDistance(
-          initialPoints[i - 1].lat, initialPoints[i - 1].lon,
-          initialPoints[i].lat, initialPoints[i].lon
-        );
-        cumulativeDist += dist;
-        if (cumulativeDist >= hideRadius) {
-          startIndex = i;
-          break;
-        }
-      }
-
-      // Find end index (distance from end > hideRadius)
-      cumulativeDist = 0;
-      for (let i = initialPoints.length - 2; i >= 0; i--) {
-        const dist = haversineDistance(
-          initialPoints[i].lat, initialPoints[i].lon,
-          initialPoints[i + 1].lat, initialPoints[i + 1].lon
-        );
-        cumulativeDist += dist;
-        if (cumulativeDist >= hideRadius) {
-          endIndex = i;
-          break;
-        }
-      }
-    }
+    // Find the cut-off points (hideRadius km from each end)
+    const { start: startIndex, end: endIndex } = getPrivacyTrimRange(initialPoints, hideRadius);
 
     // Safety check: if start crosses end, showing nothing or very little
     if (startIndex >= endIndex) {
@@ -132,6 +130,9 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
     }
   }, [initialPoints, initialStats, hideRadius, isOwner]);
 
+  // Start and end towns, and towns passed near them, are left out for public viewers when the ends of the track are hidden
+  const route = stats.places ? formatRoute(stats.places, isOwner ? 0 : hideRadius) : null;
+
   // Calculate safe initial speed limit
   const initialSpeedLimit = useMemo(() => {
     let limit = Math.max(40, Math.floor((stats.maxSpeed * 0.8) / 10) * 10);
@@ -151,64 +152,142 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
     { id: "structure", label: "Route Structure", icon: Spline },
   ];
 
-  // Calculate stats for the selected zoom range
-  const { filteredPoints, subsetStats } = useMemo(() => {
-    if (!zoomRange || !points.length) {
-      return { filteredPoints: points, subsetStats: null };
-    }
+  // Points in the selected zoom range
+  const filteredPoints = useMemo(() => {
+    if (!zoomRange || !points.length) return points;
 
     const [startIndex, endIndex] = zoomRange;
     // Ensure indices are within bounds
     const start = Math.max(0, startIndex);
     const end = Math.min(points.length - 1, endIndex);
 
-    // Get the subset of points
-    const subset = points.slice(start, end + 1);
+    return points.slice(start, end + 1);
+  }, [points, zoomRange]);
 
-    if (subset.length < 2) return { filteredPoints: subset, subsetStats: null };
+  // Vehicle of the drive's fuel or energy estimate, reused for the selection and the charge curve
+  const estimateVehicle = initialStats.fuel?.vehicle ?? initialStats.energy?.vehicle;
 
-    // FULL RECALCULATION for dynamic charts
-    const calculated = calculateStats(subset);
-
-    // Apply speed cap override for public view if needed
-    if (!isOwner && speedCap && calculated.avgSpeed > speedCap) {
-      calculated.avgSpeed = speedCap;
-      // Adjust time roughly? Or just accept the capped avg.
-      // For simple display, capping avg is enough.
+  // Stats for the selected zoom range, computed in the analysis worker.
+  // Dragging the range cancels the previous, now stale, calculation.
+  const [subsetStats, setSubsetStats] = useState<GPXStats | null>(null);
+  useEffect(() => {
+    if (!zoomRange || filteredPoints.length < 2) {
+      setSubsetStats(null);
+      return;
     }
 
-    return {
-      filteredPoints: subset,
-      subsetStats: calculated
+    const abortController = new AbortController();
+    // Short debounce so a drag doesn't start (and cancel) a calculation per frame
+    const timeout = setTimeout(() => {
+      calculateStatsAsync(filteredPoints, analysisProfile, estimateVehicle, { signal: abortController.signal })
+        .then(calculated => {
+          // Apply speed cap override for public view if needed
+          if (!isOwner && speedCap && calculated.avgSpeed > speedCap) {
+            calculated.avgSpeed = speedCap;
+            // Adjust time roughly? Or just accept the capped avg.
+            // For simple display, capping avg is enough.
+          }
+          setSubsetStats(calculated);
+        })
+        .catch(err => {
+          if (!isAnalysisCancelled(err)) console.error("Failed to calculate selection stats:", err);
+        });
+    }, 150);
+
+    return () => {
+      clearTimeout(timeout);
+      abortController.abort();
     };
-  }, [points, zoomRange, speedCap, isOwner]);
+  }, [filteredPoints, zoomRange, speedCap, isOwner, analysisProfile, estimateVehicle]);
+
+
+  // Export the processed selection (or the whole track) as CSV or GeoJSON
+  const [isExporting, setIsExporting] = useState(false);
+  const handleExport = async (format: 'csv' | 'geojson') => {
+    let exportPoints = filteredPoints;
+    if (!isOwner) {
+      // Public viewers: only the part of the selection they can see on the map, speed capped
+      const first = Math.max(zoomRange ? zoomRange[0] : 0, mapPointsStartIndex);
+      const last = Math.min(zoomRange ? zoomRange[1] : points.length - 1, mapPointsStartIndex + mapPoints.length - 1);
+      const visible = points.slice(first, last + 1).map(({ channels: _channels, ...p }) => p);
+      exportPoints = speedCap ? capTrackSpeed(visible, speedCap) : visible;
+    }
+    if (exportPoints.length < 2) {
+      toast.error("Nothing to export in this selection.");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const track = await generateProcessedTrackAsync(exportPoints, analysisProfile, estimateVehicle);
+      const name = zoomRange ? `${fileName} (selection)` : fileName;
+      if (format === 'csv') {
+        downloadFile(createProcessedCSV(track), exportFileName(name, "csv"), "text/csv");
+      } else {
+        downloadFile(createProcessedGeoJSON(track, name), exportFileName(name, "geojson"), "application/geo+json");
+      }
+    } catch (err) {
+      console.error("Export failed:", err);
+      toast.error("Export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
+  // Speed limited stats for the owner's speed limiter tool, computed in the analysis worker.
+  // Moving the slider cancels the previous calculation.
+  const [limitedStats, setLimitedStats] = useState<LimitedStatsResult | null>(null);
+  useEffect(() => {
+    if (!showLimiter || speedLimit <= 0) {
+      setLimitedStats(null);
+      return;
+    }
+
+    const abortController = new AbortController();
+    // Short debounce so a slider drag doesn't start (and cancel) a calculation per step
+    const timeout = setTimeout(() => {
+      calculateLimitedStatsAsync(filteredPoints, speedLimit, analysisProfile, { signal: abortController.signal })
+        .then(setLimitedStats)
+        .catch(err => {
+          if (!isAnalysisCancelled(err)) console.error("Failed to calculate speed limited stats:", err);
+        });
+    }, 150);
+
+    return () => {
+      clearTimeout(timeout);
+      abortController.abort();
+    };
+  }, [filteredPoints, speedLimit, showLimiter, analysisProfile]);
 
-  // Calculate speed limited stats (for owner's speed limiter tool)
-  const limitedStats = useMemo(() => {
-    if (!showLimiter || speedLimit <= 0) return null;
-    return calculateLimitedStats(filteredPoints, speedLimit);
-  }, [filteredPoints, speedLimit, showLimiter]);
+  // Moving time normally leaves out every stop; optionally only the rest breaks
+  // (activities analysed before stops were classified have no breakTime)
+  const [breaksOnly, setBreaksOnly] = useState(false);
 
   // displayStats: Clamp values if speed cap is active for public viewers
   const displayStats = useMemo(() => {
+    const excludeBreaksOnly = breaksOnly && stats.breakTime !== undefined;
+    const movingTime = excludeBreaksOnly ? Math.max(0, stats.totalTime - stats.breakTime) : stats.movingTime;
+    const movingAvgSpeed = excludeBreaksOnly
+      ? (movingTime > 0 ? stats.totalDistance / (movingTime / 3600) : 0)
+      : stats.movingAvgSpeed;
+
     if (!isOwner && speedCap && speedCap > 0) {
       return {
         maxSpeed: stats.maxSpeed > speedCap ? speedCap : stats.maxSpeed,
         avgSpeed: stats.avgSpeed > speedCap ? speedCap : stats.avgSpeed,
-        movingAvgSpeed: stats.movingAvgSpeed > speedCap ? speedCap : stats.movingAvgSpeed,
+        movingAvgSpeed: movingAvgSpeed > speedCap ? speedCap : movingAvgSpeed,
         totalTime: stats.totalTime,
-        movingTime: stats.movingTime,
+        movingTime,
       };
     }
     return {
       maxSpeed: stats.maxSpeed,
       avgSpeed: stats.avgSpeed,
-      movingAvgSpeed: stats.movingAvgSpeed,
+      movingAvgSpeed,
       totalTime: stats.totalTime,
-      movingTime: stats.movingTime,
+      movingTime,
     };
-  }, [stats, isOwner, speedCap]);
+  }, [stats, isOwner, speedCap, breaksOnly]);
 
   // For public viewers: If selection avgSpeed > speedCap, cap it and recompute time
   // This is a simple overall cap, not per-segment
@@ -244,6 +323,147 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
     return null;
   }, [showLimiter, speedLimit]);
 
+  // What the viewer may analyse: the map points, speed-capped for public viewers (laps, g-g diagram)
+  const viewerPoints = useMemo(
+    () => (!isOwner && speedCap ? capTrackSpeed(mapPoints, speedCap) : mapPoints),
+    [mapPoints, isOwner, speedCap]
+  );
+
+  // Laps
+  const [userTimingLine, setUserTimingLine] = useState<TimingLine | null>(null);
+  const [placingLine, setPlacingLine] = useState(false);
+  const [lapAnalysis, setLapAnalysis] = useState<LapAnalysis | null>(null);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    analyzeLapsAsync(viewerPoints, analysisProfile, userTimingLine, { signal: abortController.signal })
+      .then(result => {
+        setLapAnalysis(result);
+        if (userTimingLine && result && result.laps.length === 0) toast.info("No complete laps cross that line");
+      })
+      .catch(err => {
+        if (!isAnalysisCancelled(err)) console.error("Failed to detect laps:", err);
+      });
+    return () => abortController.abort();
+  }, [viewerPoints, analysisProfile, userTimingLine]);
+
+  const handlePlaceLine = useCallback((lat: number, lon: number) => {
+    const line = timingLineNear(mapPoints, lat, lon);
+    if (line) setUserTimingLine(line);
+    setPlacingLine(false);
+  }, [mapPoints]);
+
+  const handleSelectLap = (lap: Lap) => {
+    setZoomRange([lap.startIndex + mapPointsStartIndex, lap.endIndex + mapPointsStartIndex]);
+  };
+
+  const selectedLap = zoomRange
+    ? lapAnalysis?.laps.find(l => l.startIndex + mapPointsStartIndex === zoomRange[0] && l.endIndex + mapPointsStartIndex === zoomRange[1])?.number ?? null
+    : null;
+  const showTimingLines = !!lapAnalysis && (lapAnalysis.laps.length > 0 || !lapAnalysis.detected);
+
+  // Corners: only those on the visible map, with speeds capped for public viewers
+  const [selectedCorner, setSelectedCorner] = useState<number | null>(null);
+  const corners = useMemo(() => {
+    const all = stats.corners || [];
+    if (isOwner) return all;
+    const last = mapPointsStartIndex + mapPoints.length - 1;
+    const cap = (speed: number) => (speedCap ? Math.min(speed, speedCap) : speed);
+    return all
+      .filter(c => c.startIndex >= mapPointsStartIndex && c.endIndex <= last)
+      .map(c => ({ ...c, entrySpeed: cap(c.entrySpeed), apexSpeed: cap(c.apexSpeed), exitSpeed: cap(c.exitSpeed) }));
+  }, [stats.corners, isOwner, mapPoints, mapPointsStartIndex, speedCap]);
+
+  useEffect(() => {
+    if (!zoomRange) setSelectedCorner(null);
+  }, [zoomRange]);
+
+  const handleSelectCorner = (index: number) => {
+    const corner = corners[index];
+    // A few points either side so the approach and exit are in view
+    const first = isOwner ? 0 : mapPointsStartIndex;
+    const last = isOwner ? points.length - 1 : mapPointsStartIndex + mapPoints.length - 1;
+    setSelectedCorner(index);
+    setZoomRange([Math.max(first, corner.startIndex - 5), Math.min(last, corner.endIndex + 5)]);
+  };
+
+  // Driving events: only those on the visible map (events sit on track points, so match by position)
+  const visibleEvents = useCallback((source: GPXStats) => {
+    const events = {
+      hardAccelPoints: source.hardAccelPoints || [],
+      hardBrakePoints: source.hardBrakePoints || [],
+      harshCorneringPoints: source.harshCorneringPoints || [],
+    };
+    if (isOwner) return events;
+    const visible = new Set(mapPoints.map(p => `${p.lat},${p.lon}`));
+    const onMap = ([lat, lon]: [number, number, number]) => visible.has(`${lat},${lon}`);
+    return {
+      hardAccelPoints: events.hardAccelPoints.filter(onMap),
+      hardBrakePoints: events.hardBrakePoints.filter(onMap),
+      harshCorneringPoints: events.harshCorneringPoints.filter(onMap),
+    };
+  }, [isOwner, mapPoints]);
+  const mapEvents = useMemo(() => visibleEvents(stats), [visibleEvents, stats]);
+
+  // Stops: only those on the visible map
+  const [selectedStop, setSelectedStop] = useState<number | null>(null);
+  const stops = useMemo(() => {
+    const all = stats.stops || [];
+    if (isOwner) return all;
+    const last = mapPointsStartIndex + mapPoints.length - 1;
+    return all.filter(stop => stop.startIndex >= mapPointsStartIndex && stop.endIndex <= last);
+  }, [stats.stops, isOwner, mapPoints, mapPointsStartIndex]);
+  const stopPoints = useMemo(() => stops.map(stop => [stop.lat, stop.lon] as [number, number]), [stops]);
+
+  useEffect(() => {
+    if (!zoomRange) setSelectedStop(null);
+  }, [zoomRange]);
+
+  const handleSelectStop = (index: number) => {
+    const stop = stops[index];
+    // A few points either side so the approach and moving off are in view
+    const first = isOwner ? 0 : mapPointsStartIndex;
+    const last = isOwner ? points.length - 1 : mapPointsStartIndex + mapPoints.length - 1;
+    setSelectedStop(index);
+    setZoomRange([Math.max(first, stop.startIndex - 5), Math.min(last, stop.endIndex + 5)]);
+  };
+
+  // Roads: the track's road runs (matched when it was processed), cut to the visible map
+  const runs = useMemo(() => {
+    if (!roads) return [];
+    if (isOwner) return roads;
+    return clipRoadRuns(roads, mapPointsStartIndex, mapPointsStartIndex + mapPoints.length - 1);
+  }, [roads, isOwner, mapPoints, mapPointsStartIndex]);
+
+  // Speed limit compliance: owners only, as it shows exactly how fast they went where
+  const speedLimits = useMemo(
+    () => (isOwner && runs.length > 0 ? runSpeedLimits(runs, mapPoints.length) : null),
+    [isOwner, mapPoints, runs]
+  );
+  const [speedLimitReport, setSpeedLimitReport] = useState<SpeedLimitReport | null>(null);
+  const [selectedStretch, setSelectedStretch] = useState<number | null>(null);
+  useEffect(() => {
+    setSpeedLimitReport(null);
+    if (!speedLimits?.some(limit => limit !== null)) return;
+    const abortController = new AbortController();
+    analyzeSpeedLimitsAsync(mapPoints, speedLimits, analysisProfile, { signal: abortController.signal })
+      .then(setSpeedLimitReport)
+      .catch(err => {
+        if (!isAnalysisCancelled(err)) console.error("Failed to compare speed with the posted limits:", err);
+      });
+    return () => abortController.abort();
+  }, [mapPoints, speedLimits, analysisProfile]);
+
+  useEffect(() => {
+    if (!zoomRange) setSelectedStretch(null);
+  }, [zoomRange]);
+
+  const handleSelectStretch = (index: number) => {
+    const stretch = speedLimitReport.stretches[index];
+    setSelectedStretch(index);
+    setZoomRange([stretch.startIndex + mapPointsStartIndex, stretch.endIndex + mapPointsStartIndex]);
+  };
+
   // Handle chart hover with privacy clamping
   const handleHoverPoint = (point: GPXPoint | null) => {
     if (!point) {
@@ -359,6 +579,9 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
                               {new Date(stats.startTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })} on {new Date(stats.startTime).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
                             </p>
                           )}
+                          {route && (
+                            <span className="flex items-center gap-1.5 text-xs text-muted-foreground mt-0.5"><Route className="w-3 h-3" /> {route}</span>
+                          )}
                           <span className="flex items-center gap-1.5 text-xs text-muted-foreground mt-0.5"><MapPin className="w-3 h-3" /> {stats.pointCount.toLocaleString()} points recorded</span>
                         </div>
                       </div>
@@ -454,6 +677,14 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
                         <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mt-2 block">Stops</span>
                       </div>
                     </div>
+                    {stats.breakTime !== undefined && (
+                      <div className="flex items-center gap-2">
+                        <Switch id="moving-breaks-only" checked={breaksOnly} onCheckedChange={setBreaksOnly} />
+                        <Label htmlFor="moving-breaks-only" className="text-xs text-muted-foreground cursor-pointer">
+                          Moving time excludes rest breaks only ({formatDuration(stats.breakTime)})
+                        </Label>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -469,7 +700,7 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
                       </TooltipTrigger>
                       <TooltipContent className="max-w-xs text-xs space-y-2 z-[1100]">
                         <p>
-                          <strong>Visualization:</strong> The path is colored by speed. Markers indicate stops and sharp turns.
+                          <strong>Visualization:</strong> The path is colored by speed. Markers indicate stops, sharp turns and driving events (hard acceleration, braking and cornering).
                         </p>
                         <div className="border-t border-border/50 pt-2">
                           {isOwner ? (
@@ -485,15 +716,60 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
+
+                  {/* Start/finish line placement */}
+                  <div className="ml-auto flex items-center gap-2">
+                    {placingLine ? (
+                      <>
+                        <span className="text-xs text-muted-foreground">Click the track to place the start/finish line</span>
+                        <button
+                          className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground px-2 py-1 rounded-md transition-colors"
+                          onClick={() => setPlacingLine(false)}
+                        >
+                          <X className="w-3 h-3" />
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        {userTimingLine && (
+                          <button
+                            className="flex items-center gap-1.5 text-xs font-medium text-primary bg-primary/10 px-2 py-1 rounded-md hover:bg-primary/20 transition-colors"
+                            onClick={() => setUserTimingLine(null)}
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            Auto-detect Line
+                          </button>
+                        )}
+                        <button
+                          className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground px-2 py-1 rounded-md transition-colors"
+                          onClick={() => setPlacingLine(true)}
+                          title="Place a start/finish line to split the session into laps"
+                        >
+                          <Flag className="w-3 h-3" />
+                          Start/Finish
+                        </button>
+                      </>
+                    )}
+                  </div>
                 </div>
                 <TrackMap
                   points={mapPoints}
                   hoveredPoint={hoveredPoint}
                   zoomRange={zoomRange ? [zoomRange[0] - mapPointsStartIndex, zoomRange[1] - mapPointsStartIndex] : null}
-                  stopPoints={stats.stopPoints}
+                  stopPoints={stopPoints}
                   tightTurnPoints={stats.tightTurnPoints}
                   hairpinPoints={stats.hairpinPoints}
+                  hardAccelPoints={mapEvents.hardAccelPoints}
+                  hardBrakePoints={mapEvents.hardBrakePoints}
+                  harshCorneringPoints={mapEvents.harshCorneringPoints}
                   privacyMask={privacyMask}
+                  analysisProfile={analysisProfile}
+                  startFinishLine={showTimingLines ? lapAnalysis.line : null}
+                  sectorLines={showTimingLines ? lapAnalysis.sectorLines : undefined}
+                  onMapClick={placingLine ? handlePlaceLine : undefined}
+                  roadRuns={runs}
+                  speedLimitBands={speedLimitReport?.stepBands}
                 />
               </div>
 
@@ -583,6 +859,23 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
                           Reset View
                         </button>
                       )}
+
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <button
+                            className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground px-2 py-1 rounded-md transition-colors disabled:opacity-50"
+                            disabled={isExporting}
+                            title={zoomRange ? "Export the selected range" : "Export the track"}
+                          >
+                            <Download className="w-3 h-3" />
+                            Export
+                          </button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="z-[1100]">
+                          <DropdownMenuItem onClick={() => handleExport('csv')}>CSV (spreadsheet)</DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleExport('geojson')}>GeoJSON (GIS)</DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
                     </div>
                   </div>
 
@@ -802,11 +1095,36 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
                       speedCap={!isOwner ? speedCap : null}
                       visualLimit={showLimiter ? speedLimit : undefined}
                       xAxisMode={xAxisMode}
+                      analysisProfile={analysisProfile}
                     />
                   </ResponsiveContainer>
                 </div>
               </div>
 
+              {/* Laps (circuit sessions) */}
+              {lapAnalysis && lapAnalysis.laps.length > 0 && (
+                <div className="bg-card border border-border rounded-2xl p-3 shadow-sm">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <Timer className="w-5 h-5 text-primary" />
+                    Laps
+                    <span className="text-xs font-normal text-muted-foreground bg-muted px-2 py-0.5 rounded-full">
+                      {lapAnalysis.detected ? "Line detected automatically" : "Your start/finish line"}
+                    </span>
+                    <TooltipProvider delayDuration={300}>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="w-4 h-4 text-muted-foreground hover:text-foreground cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs text-xs">
+                          <p>Lap times between crossings of the start/finish line. Sectors split each lap in thirds of the best lap's distance; the theoretical best adds up the best sectors. Click a lap to zoom to it.</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </h3>
+                  <LapTable analysis={lapAnalysis} selectedLap={selectedLap} onSelectLap={handleSelectLap} />
+                </div>
+              )}
+
               {/* Speed Distribution (Moved to Overview) */}
               <div className="bg-card border border-border rounded-2xl p-3 shadow-sm">
                 <div className="flex items-center justify-between mb-6">
@@ -831,6 +1149,7 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
                   <SpeedDistributionChart
                     points={filteredPoints}
                     speedLimit={!isOwner ? (effectiveChartSpeedLimit ?? speedCap) : effectiveChartSpeedLimit}
+                    analysisProfile={analysisProfile}
                   />
                 </div>
               </div>
@@ -890,6 +1209,211 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
                   })()}
                 </div>
               </div>
+
+              {/* Driving Dynamics: events and the friction circle */}
+              <div className="bg-card border border-border rounded-2xl p-3 shadow-sm">
+                <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                  <Crosshair className="w-5 h-5 text-primary" />
+                  Driving Dynamics
+                  {zoomRange && <span className="text-xs font-normal text-muted-foreground bg-muted px-2 py-0.5 rounded-full">Filtered to selection</span>}
+                  <TooltipProvider delayDuration={300}>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="w-4 h-4 text-muted-foreground hover:text-foreground cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent className="max-w-xs text-xs">
+                        <p>Each dot is one GPS point: sideways (lateral) g from the path's curvature and speed against forward (longitudinal) g. The dashed circle is the harsh-cornering threshold of the analysis profile; events beyond the profile's limits are highlighted.</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </h3>
+
+                {(() => {
+                  const effectiveStats = (zoomRange && subsetStats) ? subsetStats : stats;
+                  // Public viewers: counted from the events on the visible map
+                  const events = visibleEvents(effectiveStats);
+                  return (
+                    <div className="flex flex-wrap gap-x-8 gap-y-2 mb-4">
+                      {[
+                        { label: "Hard Acceleration", count: isOwner ? effectiveStats.hardAccelerationCount : events.hardAccelPoints.length, color: "bg-emerald-500" },
+                        { label: "Hard Braking", count: isOwner ? effectiveStats.hardBrakingCount : events.hardBrakePoints.length, color: "bg-red-500" },
+                        { label: "Harsh Cornering", count: isOwner ? effectiveStats.harshCorneringCount ?? 0 : events.harshCorneringPoints.length, color: "bg-amber-500" },
+                      ].map(item => (
+                        <div key={item.label}>
+                          <span className="text-2xl font-normal tabular-nums">{item.count}</span>
+                          <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mt-1 flex items-center gap-1.5">
+                            <span className={cn("w-2 h-2 rotate-45", item.color)} />
+                            {item.label}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })()}
+
+                <div className="h-[320px] max-w-[420px] mx-auto">
+                  <GForceChart
+                    points={viewerPoints}
+                    zoomRange={zoomRange ? [zoomRange[0] - mapPointsStartIndex, zoomRange[1] - mapPointsStartIndex] : null}
+                    analysisProfile={analysisProfile}
+                  />
+                </div>
+              </div>
+
+              {/* Fuel Estimate (activities analysed before estimates existed have none) */}
+              {stats.fuel && (() => {
+                const fuel = (zoomRange && subsetStats?.fuel) ? subsetStats.fuel : stats.fuel;
+                const { vehicle } = stats.fuel;
+                return (
+                  <div className="bg-card border border-border rounded-2xl p-3 shadow-sm">
+                    <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                      <Fuel className="w-5 h-5 text-primary" />
+                      Fuel Estimate
+                      {zoomRange && <span className="text-xs font-normal text-muted-foreground bg-muted px-2 py-0.5 rounded-full">Filtered to selection</span>}
+                      <TooltipProvider delayDuration={300}>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="w-4 h-4 text-muted-foreground hover:text-foreground cursor-help" />
+                          </TooltipTrigger>
+                          <TooltipContent className="max-w-xs text-xs">
+                            <p>Modelled from rolling resistance, aerodynamic drag, climbing and acceleration work for a {vehicle.mass.toFixed(0)} kg {vehicle.fuelType} vehicle (Cd {vehicle.dragCoefficient}, {vehicle.frontalArea} m², {(vehicle.engineEfficiency * 100).toFixed(0)}% efficient), plus idling while stopped. The vehicle is set on the owner's profile.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </h3>
+                    <div className="flex flex-wrap gap-x-8 gap-y-2">
+                      {[
+                        { label: "Fuel Used", value: fuel.fuelUsed.toFixed(2), unit: "L" },
+                        { label: "Consumption", value: fuel.litresPer100km.toFixed(1), unit: "L/100km" },
+                        { label: "Idling", value: fuel.idleFuel.toFixed(2), unit: "L" },
+                      ].map(item => (
+                        <div key={item.label}>
+                          <div className="flex items-baseline gap-1">
+                            <span className="text-2xl font-normal tabular-nums">{item.value}</span>
+                            <span className="text-sm text-muted-foreground">{item.unit}</span>
+                          </div>
+                          <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mt-1 block">{item.label}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })()}
+
+              {/* Energy Estimate (electric vehicles) */}
+              {stats.energy && (() => {
+                const energy = (zoomRange && subsetStats?.energy) ? subsetStats.energy : stats.energy;
+                const { vehicle } = stats.energy;
+                return (
+                  <div className="bg-card border border-border rounded-2xl p-3 shadow-sm">
+                    <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                      <BatteryCharging className="w-5 h-5 text-primary" />
+                      Energy Estimate
+                      {zoomRange && <span className="text-xs font-normal text-muted-foreground bg-muted px-2 py-0.5 rounded-full">Filtered to selection</span>}
+                      <TooltipProvider delayDuration={300}>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="w-4 h-4 text-muted-foreground hover:text-foreground cursor-help" />
+                          </TooltipTrigger>
+                          <TooltipContent className="max-w-xs text-xs">
+                            <p>Modelled from rolling resistance, aerodynamic drag, climbing and acceleration work for a {vehicle.mass.toFixed(0)} kg electric vehicle (Cd {vehicle.dragCoefficient}, {vehicle.frontalArea} m², {(vehicle.drivetrainEfficiency * 100).toFixed(0)}% drivetrain efficiency). Braking and descents recover {(vehicle.regenEfficiency * 100).toFixed(0)}% of the energy at the wheels. The vehicle is set on the owner's profile.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </h3>
+                    <div className="flex flex-wrap gap-x-8 gap-y-2 mb-4">
+                      {[
+                        { label: "Energy Used", value: energy.energyUsed.toFixed(2), unit: "kWh" },
+                        { label: "Efficiency", value: energy.whPerKm.toFixed(0), unit: "Wh/km" },
+                        { label: "Regenerated", value: energy.regenEnergy.toFixed(2), unit: "kWh" },
+                      ].map(item => (
+                        <div key={item.label}>
+                          <div className="flex items-baseline gap-1">
+                            <span className="text-2xl font-normal tabular-nums">{item.value}</span>
+                            <span className="text-sm text-muted-foreground">{item.unit}</span>
+                          </div>
+                          <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mt-1 block">{item.label}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="h-[260px]">
+                      <StateOfChargeChart
+                        points={viewerPoints}
+                        vehicle={vehicle}
+                        zoomRange={zoomRange ? [zoomRange[0] - mapPointsStartIndex, zoomRange[1] - mapPointsStartIndex] : null}
+                        analysisProfile={analysisProfile}
+                      />
+                    </div>
+                  </div>
+                );
+              })()}
+
+              {/* Stops (activities analysed before stops were classified have none) */}
+              {stats.stops && stops.length > 0 && (
+                <div className="bg-card border border-border rounded-2xl p-3 shadow-sm">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <CircleStop className="w-5 h-5 text-primary" />
+                    Stops
+                    <span className="text-xs font-normal text-muted-foreground bg-muted px-2 py-0.5 rounded-full">{stops.length}</span>
+                    <TooltipProvider delayDuration={300}>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="w-4 h-4 text-muted-foreground hover:text-foreground cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs text-xs">
+                          <p>Every standstill of 10 seconds or more. Stops of 5 minutes or more are rest breaks; shorter stops with only a slow crawl of up to a minute to the next one are congestion; other short stops are signal stops (lights, junctions). Click a stop to show it on the map and zoom the timeline to it.</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </h3>
+                  <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                    <TrackMap
+                      points={mapPoints}
+                      zoomRange={zoomRange ? [zoomRange[0] - mapPointsStartIndex, zoomRange[1] - mapPointsStartIndex] : null}
+                      stopPoints={stopPoints}
+                      privacyMask={privacyMask}
+                      analysisProfile={analysisProfile}
+                      focusPoint={selectedStop !== null && stops[selectedStop] ? [stops[selectedStop].lat, stops[selectedStop].lon] : null}
+                    />
+                    <StopTable stops={stops} selectedStop={selectedStop} onSelectStop={handleSelectStop} />
+                  </div>
+                </div>
+              )}
+
+              {/* Speed against the posted limits of the matched roads */}
+              {speedLimitReport && speedLimitReport.checkedDistance > 0 && (
+                <div className="bg-card border border-border rounded-2xl p-3 shadow-sm">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <Gauge className="w-5 h-5 text-primary" />
+                    Speed Limits
+                    <TooltipProvider delayDuration={300}>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="w-4 h-4 text-muted-foreground hover:text-foreground cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs text-xs">
+                          <p>Smoothed speed compared with the OpenStreetMap maxspeed of the road each stretch was matched to. Only roads with a posted limit are checked. The longest stretches over the limit (10 seconds or more) are listed; click one to show it on the map and zoom the timeline to it. Only you can see this.</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </h3>
+                  <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                    <TrackMap
+                      points={mapPoints}
+                      zoomRange={zoomRange ? [zoomRange[0] - mapPointsStartIndex, zoomRange[1] - mapPointsStartIndex] : null}
+                      privacyMask={privacyMask}
+                      analysisProfile={analysisProfile}
+                      speedLimitBands={speedLimitReport.stepBands}
+                    />
+                    <SpeedLimitTable
+                      report={speedLimitReport}
+                      points={mapPoints}
+                      selectedStretch={selectedStretch}
+                      onSelectStretch={handleSelectStretch}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -943,10 +1467,69 @@ const GPSStats = ({ stats: initialStats, fileName, points: initialPoints, speedC
                       <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mt-2 block">Lowest Point</span>
                     </div>
                   </div>
+                  {initialStats.elevationFallback && (
+                    <p className="text-xs text-muted-foreground mt-4">
+                      Elevation as recorded by the device: the terrain model doesn't cover this track or couldn't be downloaded.
+                    </p>
+                  )}
                 </div>
               </div>
 
-              {/* SECTION 2: PROFILES (Geometry + Terrain) */}
+              {/* SECTION 2: CORNERS */}
+              {corners.length > 0 && (
+                <div className="bg-card border border-border rounded-2xl p-4 shadow-sm">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <GitCommit className="w-5 h-5 text-primary" />
+                    Corners
+                    <span className="text-xs font-normal text-muted-foreground bg-muted px-2 py-0.5 rounded-full">{corners.length}</span>
+                    <TooltipProvider delayDuration={300}>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="w-4 h-4 text-muted-foreground hover:text-foreground cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs text-xs">
+                          <p>Every detected tight turn and hairpin. Apex is the lowest speed through the corner; the radius is estimated from the arc length and angle. Click a corner to show it on the map and zoom the timeline to it.</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </h3>
+                  <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                    <TrackMap
+                      points={mapPoints}
+                      zoomRange={zoomRange ? [zoomRange[0] - mapPointsStartIndex, zoomRange[1] - mapPointsStartIndex] : null}
+                      tightTurnPoints={stats.tightTurnPoints}
+                      hairpinPoints={stats.hairpinPoints}
+                      privacyMask={privacyMask}
+                      analysisProfile={analysisProfile}
+                      focusPoint={selectedCorner !== null && corners[selectedCorner] ? [corners[selectedCorner].lat, corners[selectedCorner].lon] : null}
+                    />
+                    <CornerTable corners={corners} selectedCorner={selectedCorner} onSelectCorner={handleSelectCorner} />
+                  </div>
+                </div>
+              )}
+
+              {/* Roads driven, from the track matched onto the road network */}
+              {runs.length > 0 && (
+                <div className="bg-card border border-border rounded-2xl p-4 shadow-sm">
+                  <h3 className="text-lg font-semibold mb-6 flex items-center gap-2">
+                    <Route className="w-5 h-5 text-primary" />
+                    Roads
+                    <TooltipProvider delayDuration={300}>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="w-4 h-4 text-muted-foreground hover:text-foreground cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs text-xs">
+                          <p>The track snapped onto the OpenStreetMap road network. Distance is measured along the matched roads; stretches off the network (car parks, private land, tracks we don't have) are left out. Show the matched roads on the map with the Roads button.</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </h3>
+                  <RoadClassBreakdown runs={runs} />
+                </div>
+              )}
+
+              {/* SECTION 3: PROFILES (Geometry + Terrain) */}
               <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
                 {/* Straight vs Curvy Profile */}
                 <div className="bg-card border border-border rounded-2xl p-4 shadow-sm">
@@ -0,0 +1,87 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { Lap, LapAnalysis, formatLapTime } from "@/utils/lapTiming";
+
+interface LapTableProps {
+    analysis: LapAnalysis;
+    selectedLap?: number | null; // lap number
+    onSelectLap: (lap: Lap) => void;
+}
+
+// One row per lap; the best lap and each best sector are highlighted
+const LapTable = ({ analysis, selectedLap, onSelectLap }: LapTableProps) => {
+    const { laps, bestLap, bestSectors, theoreticalBest } = analysis;
+    const best = bestLap !== null ? laps[bestLap] : null;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap gap-x-8 gap-y-2 text-sm">
+                {best && (
+                    <div>
+                        <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground block">Best Lap</span>
+                        <span className="text-lg font-normal tabular-nums">{formatLapTime(best.lapTime)}</span>
+                        <span className="text-xs text-muted-foreground ml-1.5">lap {best.number}</span>
+                    </div>
+                )}
+                {theoreticalBest !== null && (
+                    <div>
+                        <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground block">Theoretical Best</span>
+                        <span className="text-lg font-normal tabular-nums">{formatLapTime(theoreticalBest)}</span>
+                        {best && (
+                            <span className="text-xs text-muted-foreground ml-1.5">-{(best.lapTime - theoreticalBest).toFixed(2)}s</span>
+                        )}
+                    </div>
+                )}
+                <div>
+                    <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground block">Laps</span>
+                    <span className="text-lg font-normal tabular-nums">{laps.length}</span>
+                </div>
+            </div>
+
+            <div className="max-h-[360px] overflow-y-auto border border-border/50 rounded-lg">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead className="w-12">Lap</TableHead>
+                            <TableHead>Time</TableHead>
+                            <TableHead>Gap</TableHead>
+                            {bestSectors.map((_, s) => (
+                                <TableHead key={s}>S{s + 1}</TableHead>
+                            ))}
+                            <TableHead className="text-right">Max</TableHead>
+                            <TableHead className="text-right">Min</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {laps.map((lap, i) => (
+                            <TableRow
+                                key={lap.number}
+                                onClick={() => onSelectLap(lap)}
+                                className={cn("cursor-pointer tabular-nums", selectedLap === lap.number && "bg-primary/10")}
+                                title="Zoom to this lap"
+                            >
+                                <TableCell className="font-medium">{lap.number}</TableCell>
+                                <TableCell className={cn(i === bestLap && "font-bold text-emerald-500")}>{formatLapTime(lap.lapTime)}</TableCell>
+                                <TableCell className="text-muted-foreground">
+                                    {best && i !== bestLap ? `+${(lap.lapTime - best.lapTime).toFixed(2)}` : "–"}
+                                </TableCell>
+                                {bestSectors.map((bestSector, s) => {
+                                    const sector = lap.sectors[s];
+                                    return (
+                                        <TableCell key={s} className={cn(sector !== null && sector === bestSector && "font-bold text-purple-500")}>
+                                            {sector !== null && sector !== undefined ? sector.toFixed(2) : "–"}
+                                        </TableCell>
+                                    );
+                                })}
+                                <TableCell className="text-right">{lap.maxSpeed.toFixed(0)} km/h</TableCell>
+                                <TableCell className="text-right">{lap.minSpeed.toFixed(0)} km/h</TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    );
+};
+
+export default LapTable;
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { formatDistance } from "@/utils/gpxParser";
+
+export interface MergeCandidate {
+    id: string;
+    title: string;
+    startTime?: string;
+    distance: number; // km
+}
+
+interface MergeActivitiesDialogProps {
+    open: boolean;
+    activities: MergeCandidate[]; // in time order
+    isMerging: boolean;
+    onConfirm: (title: string, deleteOriginals: boolean) => void;
+    onCancel: () => void;
+}
+
+// Confirms merging the selected activities into one, with its title and whether the originals go
+const MergeActivitiesDialog = ({ open, activities, isMerging, onConfirm, onCancel }: MergeActivitiesDialogProps) => {
+    const [title, setTitle] = useState("");
+    const [deleteOriginals, setDeleteOriginals] = useState(false);
+
+    useEffect(() => {
+        if (!open) return;
+        setTitle(activities[0]?.title || "");
+        setDeleteOriginals(false);
+    }, [open, activities]);
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isMerging && onCancel()}>
+            <DialogContent className="sm:max-w-md z-[2001]">
+                <DialogHeader>
+                    <DialogTitle>Merge Activities</DialogTitle>
+                    <DialogDescription>
+                        The recordings are joined in time order into one activity. Gaps between them are kept as recording breaks.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <ol className="space-y-1 text-sm">
+                    {activities.map((activity, index) => (
+                        <li key={activity.id} className="flex items-center gap-3">
+                            <span className="text-muted-foreground tabular-nums w-4">{index + 1}</span>
+                            <span className="truncate flex-1">{activity.title}</span>
+                            <span className="text-muted-foreground tabular-nums whitespace-nowrap">
+                                {activity.startTime ? new Date(activity.startTime).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }) : "–"}
+                            </span>
+                            <span className="tabular-nums w-16 text-right">{formatDistance(activity.distance)}</span>
+                        </li>
+                    ))}
+                </ol>
+
+                <div className="space-y-2">
+                    <Label htmlFor="merge-title">Title</Label>
+                    <Input id="merge-title" value={title} onChange={(e) => setTitle(e.target.value)} disabled={isMerging} />
+                </div>
+
+                <div className="flex items-center gap-2">
+                    <Checkbox
+                        id="merge-delete-originals"
+                        checked={deleteOriginals}
+                        onCheckedChange={(checked) => setDeleteOriginals(checked === true)}
+                        disabled={isMerging}
+                    />
+                    <Label htmlFor="merge-delete-originals" className="text-sm font-normal cursor-pointer">
+                        Delete the original activities afterwards
+                    </Label>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onCancel} disabled={isMerging}>
+                        Cancel
+                    </Button>
+                    <Button onClick={() => onConfirm(title.trim(), deleteOriginals)} disabled={isMerging || !title.trim() || activities.length < 2}>
+                        {isMerging && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Merge {activities.length} Activities
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default MergeActivitiesDialog;
@@ -14,14 +14,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Camera, Loader2, User } from "lucide-react";
 import { toast } from "sonner";
+import { FuelType, VEHICLE_SETTINGS, VehicleSpec, isElectric, resolveVehicle } from "@/utils/vehicleModel";
 
 interface Profile {
     id: string;
     display_name: string | null;
     car: string | null;
     avatar_url: string | null;
+    vehicle: Partial<VehicleSpec> | null;
 }
 
 interface ProfileEditorProps {
@@ -37,6 +40,7 @@ const ProfileEditor = ({ children, onProfileUpdate }: ProfileEditorProps) => {
 
     const [displayName, setDisplayName] = useState("");
     const [car, setCar] = useState("");
+    const [vehicle, setVehicle] = useState<VehicleSpec>(resolveVehicle());
     const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
     const [avatarFile, setAvatarFile] = useState<File | null>(null);
     const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
@@ -56,7 +60,7 @@ const ProfileEditor = ({ children, onProfileUpdate }: ProfileEditorProps) => {
         try {
             const { data, error } = await supabase
                 .from("profiles")
-                .select("id, display_name, car, avatar_url")
+                .select("id, display_name, car, avatar_url, vehicle")
                 .eq("id", user.id)
                 .single();
 
@@ -68,6 +72,7 @@ const ProfileEditor = ({ children, onProfileUpdate }: ProfileEditorProps) => {
             if (data) {
                 setDisplayName(data.display_name || "");
                 setCar(data.car || "");
+                setVehicle(resolveVehicle(data.vehicle));
                 setAvatarUrl(data.avatar_url);
             }
         } catch (err) {
@@ -143,6 +148,7 @@ const ProfileEditor = ({ children, onProfileUpdate }: ProfileEditorProps) => {
                     id: user.id,
                     display_name: displayName.trim() || null,
                     car: car.trim() || null,
+                    vehicle,
                     avatar_url: finalAvatarUrl,
                     updated_at: new Date().toISOString(),
                 })
@@ -179,11 +185,11 @@ const ProfileEditor = ({ children, onProfileUpdate }: ProfileEditorProps) => {
     return (
         <Dialog open={open} onOpenChange={setOpen}>
             <DialogTrigger asChild>{children}</DialogTrigger>
-            <DialogContent className="sm:max-w-md">
+            <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                     <DialogTitle>Edit Profile</DialogTitle>
                     <DialogDescription>
-                        Customize your display name, car, and profile picture.
+                        Customize your display name, car, vehicle details and profile picture.
                     </DialogDescription>
                 </DialogHeader>
 
@@ -242,6 +248,47 @@ const ProfileEditor = ({ children, onProfileUpdate }: ProfileEditorProps) => {
                                 onChange={(e) => setCar(e.target.value)}
                             />
                         </div>
+
+                        {/* Vehicle (fuel and battery estimates) */}
+                        <div className="space-y-3">
+                            <div>
+                                <Label>Vehicle</Label>
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    Used to estimate fuel, or battery energy for an electric vehicle, for drives uploaded or re-analysed from now on.
+                                </p>
+                            </div>
+                            <div className="grid grid-cols-[9rem_1fr_6rem] items-center gap-2">
+                                <Label htmlFor="vehicle-fuelType" className="text-xs">Fuel</Label>
+                                <Select value={vehicle.fuelType} onValueChange={(value: FuelType) => setVehicle({ ...vehicle, fuelType: value })}>
+                                    <SelectTrigger id="vehicle-fuelType" className="h-8">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="petrol">Petrol</SelectItem>
+                                        <SelectItem value="diesel">Diesel</SelectItem>
+                                        <SelectItem value="electric">Electric</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                                <span />
+                            </div>
+                            {VEHICLE_SETTINGS.filter(setting => !setting.powertrain || setting.powertrain === (isElectric(vehicle) ? "electric" : "combustion")).map(setting => (
+                                <div key={setting.key} className="grid grid-cols-[9rem_1fr_6rem] items-center gap-2">
+                                    <Label htmlFor={`vehicle-${setting.key}`} className="text-xs">{setting.label}</Label>
+                                    <Input
+                                        id={`vehicle-${setting.key}`}
+                                        type="number"
+                                        step={setting.step}
+                                        className="h-8"
+                                        value={vehicle[setting.key]}
+                                        onChange={(e) => {
+                                            const num = parseFloat(e.target.value);
+                                            if (!isNaN(num)) setVehicle({ ...vehicle, [setting.key]: num });
+                                        }}
+                                    />
+                                    <span className="text-xs text-muted-foreground">{setting.unit}</span>
+                                </div>
+                            ))}
+                        </div>
                     </div>
                 )}
 
@@ -0,0 +1,102 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { formatDistance } from "@/utils/gpxParser";
+import { ROAD_CLASSES, RoadClass, RoadRun, distanceByRoadClass } from "@/utils/mapMatching";
+
+const ROAD_CLASS_LABELS: Record<RoadClass, string> = {
+    motorway: "Motorway",
+    trunk: "Trunk road",
+    primary: "Primary road",
+    secondary: "Secondary road",
+    tertiary: "Tertiary road",
+    residential: "Residential & local",
+    service: "Service road",
+    track: "Track",
+};
+
+const ROAD_CLASS_COLORS: Record<RoadClass, string> = {
+    motorway: "bg-blue-600",
+    trunk: "bg-emerald-600",
+    primary: "bg-red-500",
+    secondary: "bg-orange-500",
+    tertiary: "bg-amber-400",
+    residential: "bg-muted-foreground/60",
+    service: "bg-muted-foreground/30",
+    track: "bg-yellow-800",
+};
+
+const TOP_ROADS = 5;
+
+interface RoadClassBreakdownProps {
+    runs: RoadRun[];
+}
+
+// Matched distance per road class as a stacked bar and rows, then the roads driven furthest
+const RoadClassBreakdown = ({ runs }: RoadClassBreakdownProps) => {
+    const byClass = useMemo(() => distanceByRoadClass(runs), [runs]);
+    const matchedDistance = ROAD_CLASSES.reduce((sum, roadClass) => sum + byClass[roadClass], 0);
+    const classes = ROAD_CLASSES.filter(roadClass => byClass[roadClass] > 0);
+
+    // Named roads by total distance; a road is often split into several ways
+    const topRoads = useMemo(() => {
+        const byName = new Map<string, { distance: number; roadClass: RoadClass }>();
+        runs.forEach(run => {
+            if (!run.name) return;
+            const road = byName.get(run.name) ?? { distance: 0, roadClass: run.roadClass };
+            road.distance += run.distance;
+            byName.set(run.name, road);
+        });
+        return [...byName.entries()]
+            .sort((a, b) => b[1].distance - a[1].distance)
+            .slice(0, TOP_ROADS);
+    }, [runs]);
+
+    return (
+        <div className="space-y-6">
+            {/* Visual Stacked Bar */}
+            <div className="h-4 w-full bg-muted rounded-full overflow-hidden flex shadow-inner">
+                {classes.map(roadClass => (
+                    <div
+                        key={roadClass}
+                        className={cn("h-full transition-all duration-1000", ROAD_CLASS_COLORS[roadClass])}
+                        style={{ width: `${(byClass[roadClass] / (matchedDistance || 1)) * 100}%` }}
+                    />
+                ))}
+            </div>
+
+            <div className="space-y-4">
+                {classes.map(roadClass => (
+                    <div key={roadClass} className="flex items-center gap-4">
+                        <div className={cn("w-1 h-8 rounded-full", ROAD_CLASS_COLORS[roadClass])} />
+                        <div className="flex-1 flex justify-between items-center text-sm">
+                            <span className="font-bold">{ROAD_CLASS_LABELS[roadClass]}</span>
+                            <div className="flex items-baseline gap-3">
+                                <span className="font-mono text-muted-foreground">{formatDistance(byClass[roadClass])}</span>
+                                <span className="text-xs font-bold text-foreground w-12 text-right">{((byClass[roadClass] / (matchedDistance || 1)) * 100).toFixed(1)}%</span>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {topRoads.length > 0 && (
+                <div>
+                    <span className="text-[10px] text-muted-foreground uppercase font-black tracking-widest">Most driven roads</span>
+                    <div className="mt-2 space-y-1.5">
+                        {topRoads.map(([name, road]) => (
+                            <div key={name} className="flex items-center justify-between text-sm">
+                                <span className="flex items-center gap-2 min-w-0">
+                                    <span className={cn("w-2 h-2 rounded-full shrink-0", ROAD_CLASS_COLORS[road.roadClass])} />
+                                    <span className="truncate">{name}</span>
+                                </span>
+                                <span className="font-mono text-muted-foreground">{formatDistance(road.distance)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RoadClassBreakdown;
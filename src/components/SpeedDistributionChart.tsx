@@ -9,14 +9,16 @@ import {
     ResponsiveContainer,
 } from "recharts";
 import { GPXPoint, calculateSpeedDistribution, SpeedBucket } from "@/utils/gpxParser";
+import { AnalysisProfile } from "@/utils/analysisProfiles";
 
 interface SpeedDistributionChartProps {
     points?: GPXPoint[];
     speedLimit?: number | null;
     buckets?: SpeedBucket[];
+    analysisProfile?: AnalysisProfile;
 }
 
-const SpeedDistributionChart = ({ points, speedLimit, buckets }: SpeedDistributionChartProps) => {
+const SpeedDistributionChart = ({ points, speedLimit, buckets, analysisProfile }: SpeedDistributionChartProps) => {
     // Force bucket size of 10 and ensure range starts at 0
     const data = useMemo(() => {
         // If pre-calculated buckets are provided, use them directly (filtering by speedLimit handled by caller or valid here too)
@@ -26,7 +28,7 @@ const SpeedDistributionChart = ({ points, speedLimit, buckets }: SpeedDistributi
 
         if (!points) return [];
 
-        const rawData = calculateSpeedDistribution(points, 10);
+        const rawData = calculateSpeedDistribution(points, 10, analysisProfile);
 
         if (!speedLimit || speedLimit <= 0 || !rawData || rawData.length === 0) {
             return rawData;
@@ -104,7 +106,7 @@ const SpeedDistributionChart = ({ points, speedLimit, buckets }: SpeedDistributi
 
         // Sort buckets by speed
         return collapsedData.sort((a, b) => a.minSpeed - b.minSpeed);
-    }, [points, speedLimit]);
+    }, [points, speedLimit, analysisProfile]);
 
     if (!data || data.length === 0) {
         return (
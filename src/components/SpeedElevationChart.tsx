@@ -10,6 +10,8 @@ import {
   ReferenceLine,
 } from "recharts";
 import { GPXPoint, haversineDistance } from "@/utils/gpxParser";
+import { AnalysisProfile, DEFAULT_ANALYSIS_PROFILE, maxAccelForSpeed } from "@/utils/analysisProfiles";
+import { kalmanSmoothTrack } from "@/utils/kalmanSmoother";
 import { useState, useMemo, useEffect, useCallback } from "react";
 import { useIsMobile } from "@/hooks/use-mobile";
 
@@ -22,6 +24,7 @@ interface SpeedElevationChartProps {
   speedCap?: number | null;
   visualLimit?: number;
   xAxisMode?: 'distance' | 'time';
+  analysisProfile?: AnalysisProfile;
 }
 
 interface ChartDataPoint {
@@ -139,7 +142,8 @@ const SpeedElevationChart = ({
   speedLimit,
   speedCap,
   visualLimit,
-  xAxisMode = 'distance'
+  xAxisMode = 'distance',
+  analysisProfile = DEFAULT_ANALYSIS_PROFILE
 }: SpeedElevationChartProps) => {
   const [refAreaLeft, setRefAreaLeft] = useState<string | null>(null);
   const [refAreaRight, setRefAreaRight] = useState<string | null>(null);
@@ -151,16 +155,20 @@ const SpeedElevationChart = ({
   const [hoveredPart, setHoveredPart] = useState<'left' | 'right' | 'center' | null>(null);
   const isMobile = useIsMobile();
 
+  // Kalman speeds don't depend on the sliders, so they are not recomputed while dragging
+  const kalman = useMemo(
+    () => (analysisProfile.smoothing === 'kalman' ? kalmanSmoothTrack(points) : null),
+    [points, analysisProfile.smoothing]
+  );
+
   // Calculate combined data for chart - Keep MORE points for better zoom detail
   const fullData: ChartDataPoint[] = useMemo(() => {
     const rawData: { dist: number; speed: number; ele: number | null; time: Date | undefined; elapsed: number }[] = [];
     let cumulativeDistance = 0;
     const startTime = points[0]?.time?.getTime() || 0;
 
-    // Dynamic Acceleration Limit
-    const getMaxAccel = (speedKmh: number) => {
-      return Math.max(2.0, 9.0 - (speedKmh / 25.0));
-    };
+    // Dynamic Acceleration Limit (same curve as the analysis)
+    const getMaxAccel = (speedKmh: number) => maxAccelForSpeed(analysisProfile, speedKmh);
 
     let prevSpeedMps = 0;
 
@@ -174,7 +182,9 @@ const SpeedElevationChart = ({
       let speedKmh = 0;
       let speedMps = 0;
 
-      if (prev.time && curr.time) {
+      if (kalman) {
+        speedKmh = kalman[i].speed * 3.6;
+      } else if (prev.time && curr.time) {
         const timeDiff = (curr.time.getTime() - prev.time.getTime()) / 1000;
         if (timeDiff > 0) {
           const rawSpeedKmh = distance / (timeDiff / 3600);
@@ -207,8 +217,8 @@ const SpeedElevationChart = ({
       });
     }
 
-    // Apply smoothing and create final dataset
-    const WINDOW_SIZE = 5;
+    // Apply smoothing and create final dataset (Kalman speeds are already smooth)
+    const WINDOW_SIZE = kalman ? 1 : 5;
     const offset = Math.floor(WINDOW_SIZE / 2);
     const result: ChartDataPoint[] = [];
 
@@ -255,7 +265,7 @@ const SpeedElevationChart = ({
     }
 
     return result;
-  }, [points, speedCap, visualLimit]);
+  }, [points, speedCap, visualLimit, analysisProfile, kalman]);
 
   if (fullData.length === 0) {
     return (
@@ -0,0 +1,105 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { GPXPoint, formatDistance, formatDuration } from "@/utils/gpxParser";
+import { OVER_LIMIT_BANDS, OverLimitBand, SpeedLimitReport } from "@/utils/speedLimits";
+
+const BAND_LABELS: Record<OverLimitBand, string> = {
+    'up to 10%': "Up to 10% over",
+    '10-20%': "10–20% over",
+    'over 20%': "More than 20% over",
+};
+
+// Same colours as the map's limit mode
+const BAND_COLORS: Record<OverLimitBand, string> = {
+    'up to 10%': "bg-yellow-400",
+    '10-20%': "bg-orange-500",
+    'over 20%': "bg-red-600",
+};
+
+interface SpeedLimitTableProps {
+    report: SpeedLimitReport;
+    points: GPXPoint[]; // the points the report's indices refer to
+    selectedStretch?: number | null; // index into report.stretches
+    onSelectStretch: (index: number) => void;
+}
+
+const share = (part: number, whole: number) => `${((part / (whole || 1)) * 100).toFixed(1)}%`;
+
+// Share of time and distance over the posted limit per band, then the longest stretches over it
+const SpeedLimitTable = ({ report, points, selectedStretch, onSelectStretch }: SpeedLimitTableProps) => {
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap gap-x-8 gap-y-2 text-sm">
+                <div>
+                    <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Time over limit</span>
+                    <span className="block text-lg font-normal tabular-nums">{share(report.overTime, report.checkedTime)}</span>
+                </div>
+                <div>
+                    <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Distance over limit</span>
+                    <span className="block text-lg font-normal tabular-nums">{share(report.overDistance, report.checkedDistance)}</span>
+                </div>
+                <div>
+                    <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Checked</span>
+                    <span className="block text-lg font-normal tabular-nums">
+                        {formatDistance(report.checkedDistance)}
+                        <span className="text-xs text-muted-foreground ml-1.5">{formatDuration(report.checkedTime)}</span>
+                    </span>
+                </div>
+            </div>
+
+            <div className="space-y-1.5">
+                {OVER_LIMIT_BANDS.map(band => (
+                    <div key={band} className="flex items-center justify-between text-sm tabular-nums">
+                        <span className="flex items-center gap-1.5">
+                            <span className={cn("w-2 h-2 rounded-full", BAND_COLORS[band])} />
+                            {BAND_LABELS[band]}
+                        </span>
+                        <span className="text-muted-foreground">
+                            {share(report.bands[band].time, report.checkedTime)} of time · {share(report.bands[band].distance, report.checkedDistance)} of distance
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            {report.stretches.length > 0 && (
+                <div className="max-h-[320px] overflow-y-auto border border-border/50 rounded-lg">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="w-12">#</TableHead>
+                                <TableHead>Start</TableHead>
+                                <TableHead className="text-right">Duration</TableHead>
+                                <TableHead className="text-right">Distance</TableHead>
+                                <TableHead className="text-right">Max</TableHead>
+                                <TableHead className="text-right">Limit</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {report.stretches.map((stretch, index) => (
+                                <TableRow
+                                    key={index}
+                                    onClick={() => onSelectStretch(index)}
+                                    className={cn("cursor-pointer tabular-nums", selectedStretch === index && "bg-primary/10")}
+                                    title="Show on map and zoom the timeline"
+                                >
+                                    <TableCell className="font-medium">{index + 1}</TableCell>
+                                    <TableCell className="text-muted-foreground">
+                                        {points[stretch.startIndex]?.time?.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) ?? "–"}
+                                    </TableCell>
+                                    <TableCell className="text-right font-semibold">{formatDuration(stretch.duration)}</TableCell>
+                                    <TableCell className="text-right">{formatDistance(stretch.distance)}</TableCell>
+                                    <TableCell className="text-right">{stretch.maxSpeed.toFixed(0)} km/h</TableCell>
+                                    <TableCell className="text-right text-muted-foreground">
+                                        {stretch.limit.toFixed(0)} <span className="text-red-500">+{stretch.maxExcess.toFixed(0)}</span>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SpeedLimitTable;
@@ -0,0 +1,156 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+    AreaChart,
+    Area,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    ReferenceArea,
+    ResponsiveContainer,
+} from "recharts";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BatterySeries, GPXPoint } from "@/utils/gpxParser";
+import { calculateBatteryUseAsync, isAnalysisCancelled } from "@/lib/analysis";
+import { AnalysisProfile, DEFAULT_ANALYSIS_PROFILE } from "@/utils/analysisProfiles";
+import { VehicleSpec, stateOfCharge } from "@/utils/vehicleModel";
+
+const MAX_SAMPLES = 1000; // keeps the SVG responsive on long tracks
+const DEFAULT_START_CHARGE = 80; // %
+
+interface StateOfChargeChartProps {
+    points: GPXPoint[];
+    vehicle: VehicleSpec;
+    zoomRange?: [number, number] | null; // indices into points
+    analysisProfile?: AnalysisProfile;
+}
+
+// Battery level over distance for an electric vehicle, from a starting charge the viewer picks
+const StateOfChargeChart = ({ points, vehicle, zoomRange, analysisProfile = DEFAULT_ANALYSIS_PROFILE }: StateOfChargeChartProps) => {
+    const [series, setSeries] = useState<BatterySeries | null>(null);
+    const [startCharge, setStartCharge] = useState(DEFAULT_START_CHARGE);
+
+    useEffect(() => {
+        const abortController = new AbortController();
+        calculateBatteryUseAsync(points, analysisProfile, vehicle, { signal: abortController.signal })
+            .then(setSeries)
+            .catch(err => {
+                if (!isAnalysisCancelled(err)) console.error("Failed to calculate battery use:", err);
+            });
+        return () => abortController.abort();
+    }, [points, analysisProfile, vehicle]);
+
+    const { data, endCharge } = useMemo(() => {
+        if (!series) return { data: [], endCharge: startCharge };
+
+        const levels = stateOfCharge(series.energy, vehicle.batteryCapacity, startCharge);
+        const stride = Math.max(1, Math.ceil(levels.length / MAX_SAMPLES));
+        const data: { distance: number; charge: number }[] = [];
+        for (let i = 0; i < levels.length; i += stride) {
+            data.push({ distance: series.distance[i], charge: levels[i] });
+        }
+        // Always end on the last point so the curve reaches the arrival charge
+        const last = levels.length - 1;
+        if (last >= 0 && last % stride !== 0) data.push({ distance: series.distance[last], charge: levels[last] });
+
+        return { data, endCharge: levels[last] ?? startCharge };
+    }, [series, vehicle.batteryCapacity, startCharge]);
+
+    if (!series) {
+        return (
+            <div className="h-full w-full flex items-center justify-center">
+                <p className="text-sm text-muted-foreground">Calculating…</p>
+            </div>
+        );
+    }
+
+    const selection = zoomRange && series.distance.length > 0
+        ? [series.distance[Math.max(0, zoomRange[0])], series.distance[Math.min(series.distance.length - 1, zoomRange[1])]]
+        : null;
+
+    return (
+        <div className="h-full w-full flex flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                <div className="flex items-center gap-2">
+                    <Label htmlFor="start-charge" className="text-xs text-muted-foreground">Starting charge</Label>
+                    <Input
+                        id="start-charge"
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={5}
+                        className="h-8 w-20"
+                        value={startCharge}
+                        onChange={(e) => {
+                            const num = parseFloat(e.target.value);
+                            if (!isNaN(num)) setStartCharge(Math.min(100, Math.max(0, num)));
+                        }}
+                    />
+                    <span className="text-xs text-muted-foreground">%</span>
+                </div>
+                <div>
+                    <span className="text-xs text-muted-foreground">Arrival </span>
+                    <span className="font-semibold tabular-nums">{endCharge.toFixed(0)}%</span>
+                    <span className="text-xs text-muted-foreground"> of {vehicle.batteryCapacity} kWh</span>
+                </div>
+            </div>
+
+            <div className="flex-1 min-h-0">
+                <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={data} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+                        <defs>
+                            <linearGradient id="chargeGradient" x1="0" y1="0" x2="0" y2="1">
+                                <stop offset="5%" stopColor="hsl(142, 71%, 45%)" stopOpacity={0.4} />
+                                <stop offset="95%" stopColor="hsl(142, 71%, 45%)" stopOpacity={0.05} />
+                            </linearGradient>
+                        </defs>
+                        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                        <XAxis
+                            type="number"
+                            dataKey="distance"
+                            domain={["dataMin", "dataMax"]}
+                            stroke="hsl(var(--muted-foreground))"
+                            fontSize={10}
+                            tickLine={false}
+                            axisLine={false}
+                            tickFormatter={(val: number) => `${val.toFixed(0)} km`}
+                        />
+                        <YAxis
+                            domain={[0, 100]}
+                            stroke="hsl(var(--muted-foreground))"
+                            fontSize={10}
+                            tickLine={false}
+                            axisLine={false}
+                            tickFormatter={(val: number) => `${val}%`}
+                        />
+                        <Tooltip
+                            contentStyle={{
+                                backgroundColor: 'hsl(var(--card))',
+                                borderColor: 'hsl(var(--border))',
+                                borderRadius: '16px',
+                                fontSize: '12px',
+                                boxShadow: '0 10px 25px -5px rgba(0,0,0,0.1), 0 8px 10px -6px rgba(0,0,0,0.1)'
+                            }}
+                            labelFormatter={(val: number) => `${val.toFixed(1)} km`}
+                            formatter={(value: number) => [`${value.toFixed(1)}%`, "Charge"]}
+                        />
+                        {selection && (
+                            <ReferenceArea x1={selection[0]} x2={selection[1]} fill="hsl(var(--primary))" fillOpacity={0.1} strokeOpacity={0} />
+                        )}
+                        <Area
+                            type="monotone"
+                            dataKey="charge"
+                            stroke="hsl(142, 71%, 45%)"
+                            strokeWidth={2}
+                            fill="url(#chargeGradient)"
+                            isAnimationActive={false}
+                        />
+                    </AreaChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+};
+
+export default StateOfChargeChart;
@@ -0,0 +1,87 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { Stop, StopType, formatDuration } from "@/utils/gpxParser";
+
+const STOP_TYPES: StopType[] = ["signal", "congestion", "rest"];
+
+const STOP_TYPE_LABELS: Record<StopType, string> = {
+    signal: "Signal stop",
+    congestion: "Congestion",
+    rest: "Rest break",
+};
+
+const STOP_TYPE_COLORS: Record<StopType, string> = {
+    signal: "bg-red-500",
+    congestion: "bg-amber-500",
+    rest: "bg-sky-500",
+};
+
+interface StopTableProps {
+    stops: Stop[];
+    selectedStop?: number | null; // index into stops
+    onSelectStop: (index: number) => void;
+}
+
+// Stops in driving order with their type, start time, nearest town and duration; totals per type above
+const StopTable = ({ stops, selectedStop, onSelectStop }: StopTableProps) => {
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap gap-x-8 gap-y-2 text-sm">
+                {STOP_TYPES.map(type => {
+                    const ofType = stops.filter(stop => stop.type === type);
+                    return (
+                        <div key={type}>
+                            <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground flex items-center gap-1.5">
+                                <span className={cn("w-2 h-2 rounded-full", STOP_TYPE_COLORS[type])} />
+                                {STOP_TYPE_LABELS[type]}
+                            </span>
+                            <span className="text-lg font-normal tabular-nums">{ofType.length}</span>
+                            <span className="text-xs text-muted-foreground ml-1.5">
+                                {formatDuration(ofType.reduce((sum, stop) => sum + stop.duration, 0))}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="max-h-[420px] overflow-y-auto border border-border/50 rounded-lg">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead className="w-12">#</TableHead>
+                            <TableHead>Type</TableHead>
+                            <TableHead>Start</TableHead>
+                            <TableHead>Near</TableHead>
+                            <TableHead className="text-right">Duration</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {stops.map((stop, index) => (
+                            <TableRow
+                                key={index}
+                                onClick={() => onSelectStop(index)}
+                                className={cn("cursor-pointer tabular-nums", selectedStop === index && "bg-primary/10")}
+                                title="Show on map and zoom the timeline"
+                            >
+                                <TableCell className="font-medium">{index + 1}</TableCell>
+                                <TableCell>
+                                    <span className="inline-flex items-center gap-1.5 whitespace-nowrap">
+                                        <span className={cn("w-2 h-2 rounded-full", STOP_TYPE_COLORS[stop.type])} />
+                                        {STOP_TYPE_LABELS[stop.type]}
+                                    </span>
+                                </TableCell>
+                                <TableCell className="text-muted-foreground">
+                                    {stop.startTime ? new Date(stop.startTime).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "–"}
+                                </TableCell>
+                                <TableCell className="text-muted-foreground truncate max-w-[140px]">{stop.place ?? "–"}</TableCell>
+                                <TableCell className={cn("text-right", stop.type === "rest" && "font-semibold")}>{formatDuration(stop.duration)}</TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    );
+};
+
+export default StopTable;
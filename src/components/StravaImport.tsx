@@ -4,7 +4,10 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Loader2, RefreshCw } from "lucide-react";
 import { initiateStravaAuth, getActivities, getActivityStreams } from "@/lib/strava";
-import { GPXPoint, calculateStats, generatePreviewPolyline, generateProcessedTrack } from "@/utils/gpxParser";
+import { GPXPoint, calculateStats, generatePreviewPolyline } from "@/utils/gpxParser";
+import { createGPXContent } from "@/utils/gpxWriter";
+import { generateProcessedTrackAsync } from "@/lib/analysis";
+import { loadDefaultProfile } from "@/utils/analysisProfiles";
 import { useToast } from "@/components/ui/use-toast";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
@@ -13,26 +16,6 @@ interface StravaImportProps {
     onImportComplete: () => void;
 }
 
-const createGPXContent = (points: GPXPoint[], activityName: string, startTime: string) => {
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<gpx version="1.1" creator="DrivenStat">
-  <metadata>
-    <name>${activityName}</name>
-    <time>${startTime}</time>
-  </metadata>
-  <trk>
-    <name>${activityName}</name>
-    <trkseg>
-      ${points.map(p => `
-      <trkpt lat="${p.lat}" lon="${p.lon}">
-        ${p.ele !== undefined ? `<ele>${p.ele}</ele>` : ''}
-        <time>${p.time.toISOString()}</time>
-      </trkpt>`).join('')}
-    </trkseg>
-  </trk>
-</gpx>`;
-};
-
 export default function StravaImport({ onImportComplete }: StravaImportProps) {
     const { user } = useAuth();
     const { toast } = useToast();
@@ -110,8 +93,9 @@ export default function StravaImport({ onImportComplete }: StravaImportProps) {
 
                 if (points.length < 2) continue;
 
-                // Generate Stats & Processed Track
-                const processedTrack = generateProcessedTrack(points);
+                // Generate Stats & Processed Track (in the analysis worker)
+                const analysisProfile = loadDefaultProfile();
+                const processedTrack = await generateProcessedTrackAsync(points, analysisProfile);
                 const fileName = `${user.id}/strava_${id}_${Date.now()}.gpx`;
 
                 // 1. Create and Upload GPX File
@@ -142,6 +126,7 @@ export default function StravaImport({ onImportComplete }: StravaImportProps) {
                     user_id: user.id,
                     title: activity.name,
                     file_path: fileName,
+                    analysis_profile: analysisProfile,
                     slug: null, // Let DB sequence handle it (or omit if default works)
                     stats: {
                         ...processedTrack.stats,
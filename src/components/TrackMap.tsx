@@ -1,8 +1,13 @@
-import { useEffect, useRef, useState, useMemo } from "react";
+import { useEffect, useRef, useState } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
-import { GPXPoint, analyzeSegments, TrackSegment } from "@/utils/gpxParser";
-import { Layers, Activity, Zap, Maximize2, Map } from "lucide-react";
+import { GPXPoint, TrackSegment, isSegmentStart } from "@/utils/gpxParser";
+import { analyzeSegmentsAsync, isAnalysisCancelled } from "@/lib/analysis";
+import { AnalysisProfile } from "@/utils/analysisProfiles";
+import { TimingLine } from "@/utils/lapTiming";
+import { RoadRun } from "@/utils/mapMatching";
+import { OverLimitBand, StepLimitBand } from "@/utils/speedLimits";
+import { Layers, Activity, Zap, Maximize2, Map, Route, Gauge } from "lucide-react";
 import { useTheme } from "@/components/ThemeProvider";
 
 interface TrackMapProps {
@@ -12,11 +17,27 @@ interface TrackMapProps {
   stopPoints?: [number, number][];
   tightTurnPoints?: [number, number][];
   hairpinPoints?: [number, number][];
+  hardAccelPoints?: [number, number, number][];     // [lat, lon, m/s²]
+  hardBrakePoints?: [number, number, number][];     // [lat, lon, m/s²]
+  harshCorneringPoints?: [number, number, number][]; // [lat, lon, m/s²], + = right
   privacyMask?: { start: number; end: number } | null;
-
+  analysisProfile?: AnalysisProfile;
+  startFinishLine?: TimingLine | null;
+  sectorLines?: TimingLine[];
+  onMapClick?: (lat: number, lon: number) => void; // set while the user is placing something on the map
+  focusPoint?: [number, number] | null; // e.g. the selected corner
+  roadRuns?: RoadRun[]; // the track matched onto the road network
+  speedLimitBands?: StepLimitBand[]; // per step, from the speed limit report
 }
 
-const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints, hairpinPoints, privacyMask }: TrackMapProps) => {
+const UNDER_LIMIT_COLOR = "hsl(142, 60%, 42%)";
+const OVER_LIMIT_COLORS: Record<OverLimitBand, string> = {
+  'up to 10%': "hsl(45, 95%, 50%)",
+  '10-20%': "hsl(25, 95%, 52%)",
+  'over 20%': "hsl(0, 85%, 48%)",
+};
+
+const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints, hairpinPoints, hardAccelPoints, hardBrakePoints, harshCorneringPoints, privacyMask, analysisProfile, startFinishLine, sectorLines, onMapClick, focusPoint, roadRuns, speedLimitBands }: TrackMapProps) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const layersRef = useRef<{
@@ -27,21 +48,40 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
     stopMarkers?: L.LayerGroup;
     turnMarkers?: L.LayerGroup;
     hairpinMarkers?: L.LayerGroup;
+    eventMarkers?: L.LayerGroup;
   }>({});
   const hoverMarkerRef = useRef<L.Marker | null>(null);
+  const timingLinesRef = useRef<L.LayerGroup | null>(null);
+  const focusMarkerRef = useRef<L.Marker | null>(null);
+  const roadLinesRef = useRef<L.LayerGroup | null>(null);
   const lastBoundsRef = useRef<{ points: GPXPoint[], zoomRange?: [number, number] | null } | null>(null);
   const tileLayerRef = useRef<L.TileLayer | null>(null);
 
-  const [mode, setMode] = useState<'plain' | 'speed' | 'acceleration'>('plain');
+  const [mode, setMode] = useState<'plain' | 'speed' | 'acceleration' | 'limit'>('plain');
   const [showStops, setShowStops] = useState(false);
   const [showTurns, setShowTurns] = useState(false);
+  const [showEvents, setShowEvents] = useState(false);
+  const [showRoads, setShowRoads] = useState(false);
   const { theme } = useTheme();
+  const hasSpeedLimits = !!speedLimitBands?.some(band => band !== null);
 
-  // Pre-calculate segments for performance
-  const segments = useMemo(() => {
-    // We always calculate segments now to support the loop-based selection rendering
-    return analyzeSegments(points);
-  }, [points]);
+  // Limits are only known once road matching finishes, and a new track may have none
+  useEffect(() => {
+    if (!hasSpeedLimits) setMode(current => (current === 'limit' ? 'plain' : current));
+  }, [hasSpeedLimits]);
+
+  // Pre-calculate segments for performance (in the analysis worker)
+  // We always calculate segments now to support the loop-based selection rendering
+  const [segments, setSegments] = useState<TrackSegment[]>([]);
+  useEffect(() => {
+    const abortController = new AbortController();
+    analyzeSegmentsAsync(points, analysisProfile, { signal: abortController.signal })
+      .then(setSegments)
+      .catch(err => {
+        if (!isAnalysisCancelled(err)) console.error("Failed to analyse track segments:", err);
+      });
+    return () => abortController.abort();
+  }, [points, analysisProfile]);
 
 
 
@@ -108,6 +148,7 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
     if (layersRef.current.stopMarkers) map.removeLayer(layersRef.current.stopMarkers);
     if (layersRef.current.turnMarkers) map.removeLayer(layersRef.current.turnMarkers);
     if (layersRef.current.hairpinMarkers) map.removeLayer(layersRef.current.hairpinMarkers);
+    if (layersRef.current.eventMarkers) map.removeLayer(layersRef.current.eventMarkers);
 
     // Create a LayerGroup for the track to manage cleanup easily
     if (!layersRef.current.fullTrackGroup) {
@@ -117,6 +158,16 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
 
     const allCoordinates: [number, number][] = points.map((p) => [p.lat, p.lon]);
 
+    // points[from..to] as one line per recorded segment, so signal-loss breaks render as gaps
+    const toLines = (from: number, to: number): [number, number][][] => {
+      const lines: [number, number][][] = [];
+      for (let i = from; i <= to && i < points.length; i++) {
+        if (i === from || isSegmentStart(points, i)) lines.push([]);
+        lines[lines.length - 1].push(allCoordinates[i]);
+      }
+      return lines;
+    };
+
     // Determine which points to focus on
     let focusCoordinates = allCoordinates;
     let zoomedCoordinates: [number, number][] | null = null;
@@ -145,7 +196,7 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
     if (privacyMask) {
       // 1. Hidden Start (Translucent & Dashed)
       if (privacyMask.start > 0) {
-        L.polyline(allCoordinates.slice(0, privacyMask.start + 1), {
+        L.polyline(toLines(0, privacyMask.start), {
           color: currentBaseColor,
           weight: currentBaseWeight,
           opacity: 0.3,
@@ -156,7 +207,7 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
       }
 
       // 2. Visible Middle (Normal)
-      L.polyline(allCoordinates.slice(privacyMask.start, privacyMask.end + 1), {
+      L.polyline(toLines(privacyMask.start, privacyMask.end), {
         color: currentBaseColor,
         weight: currentBaseWeight,
         opacity: currentBaseOpacity,
@@ -167,7 +218,7 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
 
       // 3. Hidden End (Translucent & Dashed)
       if (privacyMask.end < allCoordinates.length - 1) {
-        L.polyline(allCoordinates.slice(privacyMask.end), {
+        L.polyline(toLines(privacyMask.end, points.length - 1), {
           color: currentBaseColor,
           weight: currentBaseWeight,
           opacity: 0.3,
@@ -178,7 +229,7 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
       }
     } else {
       // Standard Full Track
-      L.polyline(allCoordinates, {
+      L.polyline(toLines(0, points.length - 1), {
         color: currentBaseColor,
         weight: currentBaseWeight,
         opacity: currentBaseOpacity,
@@ -198,6 +249,7 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
         const p1 = points[i];
         const p2 = points[i + 1];
         if (!p1 || !p2) return;
+        if (isSegmentStart(points, i + 1)) return; // gap between segments
 
         // Privacy Filter for Analysis Layers
         if (privacyMask) {
@@ -225,6 +277,12 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
           // Lightness from 90% (slowest) to 25% (fastest)
           const lightness = 90 - (ratio * 65);
           color = `hsl(215, 95%, ${lightness}%)`;
+        } else if (mode === 'limit') {
+          // Speed relative to the road's posted limit, banded on smoothed speed as in the report;
+          // steps without a known limit keep the base line
+          const band = speedLimitBands?.[i];
+          if (!band) return;
+          color = band === 'within' ? UNDER_LIMIT_COLOR : OVER_LIMIT_COLORS[band];
         } else if (mode === 'acceleration') {
           const val = seg.acceleration;
 
@@ -373,6 +431,29 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
       layersRef.current.hairpinMarkers = hairpinMarkersLayer;
     }
 
+    // 6. Render Driving Events (hard acceleration, hard braking, harsh cornering)
+    if (showEvents) {
+      const eventMarkersLayer = L.layerGroup();
+      const addEvents = (events: [number, number, number][] | undefined, color: string, label: (value: number) => string) => {
+        events?.forEach(([lat, lon, value], index) => {
+          const eventIcon = L.divIcon({
+            className: "event-marker",
+            html: `<div style="background-color: ${color}; width: 12px; height: 12px; transform: rotate(45deg); border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.4);"></div>`,
+            iconSize: [12, 12],
+            iconAnchor: [6, 6],
+          });
+          L.marker([lat, lon], { icon: eventIcon })
+            .bindPopup(`<b>${label(value)} #${index + 1}</b><br/>${Math.abs(value).toFixed(1)} m/s² (${(Math.abs(value) / 9.81).toFixed(2)} g)`)
+            .addTo(eventMarkersLayer);
+        });
+      };
+      addEvents(hardAccelPoints, "#10b981", () => "Hard Acceleration");
+      addEvents(hardBrakePoints, "#ef4444", () => "Hard Braking");
+      addEvents(harshCorneringPoints, "#f59e0b", value => `Harsh Cornering (${value > 0 ? "right" : "left"})`);
+      eventMarkersLayer.addTo(map);
+      layersRef.current.eventMarkers = eventMarkersLayer;
+    }
+
 
 
     // Fit Bounds - ONLY if coordinates or zoom range changed
@@ -388,7 +469,97 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
       lastBoundsRef.current = { points, zoomRange };
     }
 
-  }, [points, zoomRange, stopPoints, tightTurnPoints, mode, showStops, showTurns, segments]); // Re-run when points, zoom, mode, or markers change
+  }, [points, zoomRange, stopPoints, tightTurnPoints, hardAccelPoints, hardBrakePoints, harshCorneringPoints, mode, showStops, showTurns, showEvents, segments, speedLimitBands]); // Re-run when points, zoom, mode, or markers change
+
+  // Start/finish and sector lines (separate effect, so placing a line doesn't redraw the track)
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (timingLinesRef.current) {
+      map.removeLayer(timingLinesRef.current);
+      timingLinesRef.current = null;
+    }
+    if (!startFinishLine) return;
+
+    const group = L.layerGroup();
+    (sectorLines || []).forEach((line, index) => {
+      L.polyline([line.start, line.end], { color: "#f59e0b", weight: 4, opacity: 0.9, interactive: false })
+        .addTo(group);
+      L.marker(line.end, {
+        icon: L.divIcon({
+          className: "sector-label",
+          html: `<div style="background-color: #f59e0b; color: white; font-size: 10px; font-weight: 700; padding: 0 4px; border-radius: 4px; white-space: nowrap;">S${index + 2}</div>`,
+          iconAnchor: [0, 8],
+        }),
+        interactive: false,
+      }).addTo(group);
+    });
+    // Chequered look: dark line with a white dashed overlay
+    L.polyline([startFinishLine.start, startFinishLine.end], { color: "#111", weight: 6, opacity: 0.9, interactive: false }).addTo(group);
+    L.polyline([startFinishLine.start, startFinishLine.end], { color: "#fff", weight: 6, dashArray: "4, 4", interactive: false }).addTo(group);
+
+    group.addTo(map);
+    timingLinesRef.current = group;
+  }, [startFinishLine, sectorLines]);
+
+  // Matched road geometry (separate effect, so matching finishing later doesn't redraw the track)
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (roadLinesRef.current) {
+      map.removeLayer(roadLinesRef.current);
+      roadLinesRef.current = null;
+    }
+    if (!showRoads || !roadRuns || roadRuns.length === 0) return;
+
+    const group = L.layerGroup();
+    roadRuns.forEach(run => {
+      L.polyline(run.line, { color: "#0ea5e9", weight: 5, opacity: 0.85 })
+        .bindTooltip(`${run.name ?? "Unnamed road"} (${run.roadClass})`, { sticky: true })
+        .addTo(group);
+    });
+    group.addTo(map);
+    roadLinesRef.current = group;
+  }, [roadRuns, showRoads]);
+
+  // Focus marker (separate effect, like hover)
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (focusMarkerRef.current) {
+      map.removeLayer(focusMarkerRef.current);
+      focusMarkerRef.current = null;
+    }
+    if (!focusPoint) return;
+
+    focusMarkerRef.current = L.marker(focusPoint, {
+      icon: L.divIcon({
+        className: "focus-marker",
+        html: `<div style="background-color: #a855f7; width: 22px; height: 22px; border-radius: 50%; border: 3px solid white; box-shadow: 0 0 0 4px rgba(168,85,247,0.35), 0 2px 6px rgba(0,0,0,0.4);"></div>`,
+        iconSize: [22, 22],
+        iconAnchor: [11, 11],
+      }),
+      zIndexOffset: 900,
+      interactive: false,
+    }).addTo(map);
+  }, [focusPoint]);
+
+  // Map clicks while placing (e.g. a start/finish line)
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !onMapClick) return;
+
+    const handleClick = (e: L.LeafletMouseEvent) => onMapClick(e.latlng.lat, e.latlng.lng);
+    map.on("click", handleClick);
+    map.getContainer().style.cursor = "crosshair";
+    return () => {
+      map.off("click", handleClick);
+      map.getContainer().style.cursor = "";
+    };
+  }, [onMapClick]);
 
   // Hover Effect (Separate Effect to avoid redrawing tracks)
   useEffect(() => {
@@ -453,6 +624,15 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
           >
             <Activity className="w-4 h-4" /> <span className="hidden sm:inline">Accel</span>
           </button>
+          {hasSpeedLimits && (
+            <button
+              onClick={() => setMode('limit')}
+              className={`px-3 py-2 rounded-lg text-xs font-bold transition-all flex items-center justify-center gap-2 ${mode === 'limit' ? 'bg-background shadow text-red-500' : 'text-muted-foreground hover:text-foreground'}`}
+              title="Speed relative to the posted limit"
+            >
+              <Gauge className="w-4 h-4" /> <span className="hidden sm:inline">Limit</span>
+            </button>
+          )}
         </div>
 
         {/* Divider */}
@@ -476,6 +656,26 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
             <div className={`w-2 h-2 rounded-full ${showTurns ? 'bg-white' : 'bg-purple-500'}`} />
             <span className="text-[10px] font-black uppercase tracking-tight">Turns ({(tightTurnPoints?.length || 0) + (hairpinPoints?.length || 0)})</span>
           </button>
+          {(hardAccelPoints || hardBrakePoints || harshCorneringPoints) && (
+            <button
+              onClick={() => setShowEvents(!showEvents)}
+              className={`p-2 rounded-xl transition-all border flex items-center gap-2 ${showEvents ? 'bg-amber-500 text-white border-amber-500/50 shadow-lg shadow-amber-500/20' : 'bg-muted/40 text-muted-foreground border-transparent hover:bg-muted/60'}`}
+              title={showEvents ? "Hide Driving Events" : "Show hard acceleration, braking and cornering"}
+            >
+              <div className={`w-2 h-2 rotate-45 ${showEvents ? 'bg-white' : 'bg-amber-500'}`} />
+              <span className="text-[10px] font-black uppercase tracking-tight">Events ({(hardAccelPoints?.length || 0) + (hardBrakePoints?.length || 0) + (harshCorneringPoints?.length || 0)})</span>
+            </button>
+          )}
+          {roadRuns && roadRuns.length > 0 && (
+            <button
+              onClick={() => setShowRoads(!showRoads)}
+              className={`p-2 rounded-xl transition-all border flex items-center gap-2 ${showRoads ? 'bg-sky-500 text-white border-sky-500/50 shadow-lg shadow-sky-500/20' : 'bg-muted/40 text-muted-foreground border-transparent hover:bg-muted/60'}`}
+              title={showRoads ? "Hide Matched Roads" : "Show the track matched onto roads"}
+            >
+              <Route className="w-3 h-3" />
+              <span className="text-[10px] font-black uppercase tracking-tight">Roads</span>
+            </button>
+          )}
         </div>
       </div>
 
@@ -488,6 +688,15 @@ const TrackMap = ({ points, hoveredPoint, zoomRange, stopPoints, tightTurnPoints
               <div className="h-1.5 w-[120px] rounded-full bg-gradient-to-r from-[hsl(215,95%,90%)] to-[hsl(215,95%,25%)]" />
               <span className="text-[9px] font-black uppercase tracking-tighter text-muted-foreground">Fast</span>
             </div>
+          ) : mode === 'limit' ? (
+            <div className="flex items-center gap-3">
+              {[["Under", UNDER_LIMIT_COLOR], ["≤ +10%", OVER_LIMIT_COLORS['up to 10%']], ["+10–20%", OVER_LIMIT_COLORS['10-20%']], ["> +20%", OVER_LIMIT_COLORS['over 20%']]].map(([label, color]) => (
+                <span key={label} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-tighter text-muted-foreground">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                  {label}
+                </span>
+              ))}
+            </div>
           ) : (
             <div className="flex items-center gap-3">
               <span className="text-[9px] font-black uppercase tracking-tighter text-muted-foreground text-red-500">Braking</span>
@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useRef } from "react";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { useTheme } from "@/components/ThemeProvider";
+import { cn } from "@/lib/utils";
+import { GPXPoint, formatDistance, formatDuration, haversineDistance } from "@/utils/gpxParser";
+import { TrimMode, trimTrack } from "@/utils/trackTrim";
+import ChartRangeSlider from "./ChartRangeSlider";
+
+const MAX_LINE_POINTS = 2000; // keeps redrawing smooth while the slider is dragged
+
+interface TrackTrimEditorProps {
+    points: GPXPoint[];
+    mode: TrimMode;
+    onModeChange: (mode: TrimMode) => void;
+    range: [number, number] | null; // indices into points; null is the whole track
+    onRangeChange: (range: [number, number] | null) => void;
+}
+
+// Every stride-th point of points[start..end] as a polyline, always including the last one
+function linePoints(points: GPXPoint[], start: number, end: number): [number, number][] {
+    const stride = Math.max(1, Math.ceil((end - start + 1) / MAX_LINE_POINTS));
+    const line: [number, number][] = [];
+    for (let i = start; i <= end; i += stride) line.push([points[i].lat, points[i].lon]);
+    if (end >= start && (end - start) % stride !== 0) line.push([points[end].lat, points[end].lon]);
+    return line;
+}
+
+function trackDistance(points: GPXPoint[]): number {
+    let distance = 0;
+    for (let i = 1; i < points.length; i++) {
+        if ((points[i].segment ?? 0) !== (points[i - 1].segment ?? 0)) continue;
+        distance += haversineDistance(points[i - 1].lat, points[i - 1].lon, points[i].lat, points[i].lon);
+    }
+    return distance;
+}
+
+// Map and range slider for picking the part of a track to keep, or the section to cut out
+const TrackTrimEditor = ({ points, mode, onModeChange, range, onRangeChange }: TrackTrimEditorProps) => {
+    const mapContainerRef = useRef<HTMLDivElement>(null);
+    const selectionLayerRef = useRef<L.LayerGroup | null>(null);
+    const { theme } = useTheme();
+
+    // The whole track, faint, with the map fitted to it
+    useEffect(() => {
+        if (!mapContainerRef.current || points.length === 0) return;
+
+        const map = L.map(mapContainerRef.current, { zoomControl: true, attributionControl: false });
+        const tileUrl = theme === 'dark'
+            ? "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+            : "https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png";
+        L.tileLayer(tileUrl, { maxZoom: 19 }).addTo(map);
+
+        const track = L.polyline(linePoints(points, 0, points.length - 1), { color: "hsl(0, 0%, 55%)", weight: 3, opacity: 0.5, dashArray: "4 6" }).addTo(map);
+        map.fitBounds(track.getBounds(), { padding: [20, 20] });
+        selectionLayerRef.current = L.layerGroup().addTo(map);
+        // The dialog animates in; measure again once it has its final size
+        const resize = setTimeout(() => map.invalidateSize(), 250);
+
+        return () => {
+            clearTimeout(resize);
+            map.remove();
+            selectionLayerRef.current = null;
+        };
+    }, [points, theme]);
+
+    // The part that stays, drawn over the faint track, with markers where the new track starts and ends
+    useEffect(() => {
+        const layer = selectionLayerRef.current;
+        if (!layer || points.length === 0) return;
+        layer.clearLayers();
+
+        const [start, end] = range ?? [0, points.length - 1];
+        const kept: [number, number][] = mode === 'keep' || !range ? [[start, end]] : [[0, start - 1], [end + 1, points.length - 1]];
+        kept.filter(([from, to]) => to > from).forEach(([from, to]) => {
+            L.polyline(linePoints(points, from, to), { color: "hsl(15, 52%, 58%)", weight: 4, opacity: 0.9 }).addTo(layer);
+        });
+        [start, end].forEach(index => {
+            L.circleMarker([points[index].lat, points[index].lon], { radius: 6, color: "white", weight: 2, fillColor: "hsl(0, 0%, 20%)", fillOpacity: 1 })
+                .addTo(layer);
+        });
+    }, [points, range, mode, theme]);
+
+    const summary = useMemo(() => {
+        const remaining = range ? trimTrack(points, range, mode) : points;
+        const removed = points.length - remaining.length;
+        const startTime = remaining[0]?.time;
+        const endTime = remaining[remaining.length - 1]?.time;
+        return {
+            removed,
+            distance: trackDistance(remaining),
+            duration: startTime && endTime ? (endTime.getTime() - startTime.getTime()) / 1000 : 0,
+        };
+    }, [points, range, mode]);
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center bg-muted/50 p-1 rounded-lg w-fit">
+                {([['keep', "Keep selection"], ['cut', "Cut out selection"]] as [TrimMode, string][]).map(([value, label]) => (
+                    <button
+                        key={value}
+                        type="button"
+                        onClick={() => onModeChange(value)}
+                        className={cn(
+                            "px-3 py-1 rounded-md text-sm font-medium transition-colors",
+                            mode === value ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+                        )}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            <div ref={mapContainerRef} className="h-[280px] w-full rounded-lg overflow-hidden border border-border z-0" />
+
+            <ChartRangeSlider points={points} zoomRange={range} onZoomChange={onRangeChange} height={70} />
+
+            <p className="text-xs text-muted-foreground">
+                {summary.removed === 0
+                    ? "Drag the handles to select part of the track."
+                    : `Removes ${summary.removed} of ${points.length} points. The track becomes ${formatDistance(summary.distance)} over ${formatDuration(summary.duration)}.`}
+                {mode === 'cut' && summary.removed > 0 && " The cut is kept as a recording break."}
+            </p>
+        </div>
+    );
+};
+
+export default TrackTrimEditor;
@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useTheme } from "@/components/ThemeProvider";
+import { cn } from "@/lib/utils";
+import { GPXPoint, formatDistance, formatDuration } from "@/utils/gpxParser";
+import { MIN_TRIP_DISTANCE, Trip, TripSplit, planTrips } from "@/utils/tripSplitting";
+
+const TRIP_COLORS = ["hsl(15, 52%, 58%)", "hsl(210, 80%, 55%)", "hsl(142, 60%, 42%)", "hsl(280, 60%, 58%)", "hsl(38, 92%, 50%)"];
+const MAX_LINE_POINTS = 1500; // per trip, keeps the preview light for day-long recordings
+
+interface TripSplitPreviewProps {
+    open: boolean;
+    fileName: string;
+    points: GPXPoint[];
+    splits: TripSplit[];
+    onSplit: (trips: Trip[]) => void; // the trips to create, in order
+    onKeepWhole: () => void;
+}
+
+// Proposed split points of a long recording on a map, with the resulting trips to pick from
+const TripSplitPreview = ({ open, fileName, points, splits, onSplit, onKeepWhole }: TripSplitPreviewProps) => {
+    const mapContainerRef = useRef<HTMLDivElement>(null);
+    const { theme } = useTheme();
+
+    const trips = useMemo(() => planTrips(points, splits), [points, splits]);
+    // Short hops (re-parking) are left out unless picked
+    const [selected, setSelected] = useState<boolean[]>([]);
+    useEffect(() => {
+        setSelected(trips.map(trip => trip.distance >= MIN_TRIP_DISTANCE));
+    }, [trips]);
+
+    useEffect(() => {
+        if (!open || !mapContainerRef.current) return;
+
+        const map = L.map(mapContainerRef.current, { zoomControl: true, attributionControl: false });
+        const tileUrl = theme === 'dark'
+            ? "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+            : "https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png";
+        L.tileLayer(tileUrl, { maxZoom: 19 }).addTo(map);
+
+        const bounds = L.latLngBounds([]);
+        trips.forEach((trip, index) => {
+            const stride = Math.max(1, Math.ceil((trip.endIndex - trip.startIndex + 1) / MAX_LINE_POINTS));
+            const line: [number, number][] = [];
+            for (let i = trip.startIndex; i <= trip.endIndex; i += stride) line.push([points[i].lat, points[i].lon]);
+            line.push([points[trip.endIndex].lat, points[trip.endIndex].lon]);
+            const polyline = L.polyline(line, { color: TRIP_COLORS[index % TRIP_COLORS.length], weight: 3, opacity: 0.9 })
+                .bindTooltip(`Trip ${index + 1}`)
+                .addTo(map);
+            bounds.extend(polyline.getBounds());
+        });
+
+        splits.forEach(split => {
+            L.circleMarker([split.lat, split.lon], { radius: 7, color: "white", weight: 2, fillColor: "hsl(0, 0%, 20%)", fillOpacity: 1 })
+                .bindTooltip(`Parked ${formatDuration(split.duration)}${split.reason === 'time-gap' ? " (logger off)" : ""}`)
+                .addTo(map);
+        });
+
+        if (bounds.isValid()) map.fitBounds(bounds, { padding: [20, 20] });
+        // The dialog animates in; measure again once it has its final size
+        const resize = setTimeout(() => map.invalidateSize(), 250);
+
+        return () => {
+            clearTimeout(resize);
+            map.remove();
+        };
+    }, [open, points, splits, trips, theme]);
+
+    const chosen = trips.filter((_, index) => selected[index]);
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onKeepWhole()}>
+            <DialogContent className="sm:max-w-2xl z-[2001] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Split into Trips?</DialogTitle>
+                    <DialogDescription>
+                        {fileName} contains {splits.length === 1 ? "a parked period" : `${splits.length} parked periods`}. Each trip can be saved as its own activity.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div ref={mapContainerRef} className="h-[300px] w-full rounded-lg overflow-hidden border border-border z-0" />
+
+                <div className="space-y-1">
+                    {trips.map((trip, index) => {
+                        const start = points[trip.startIndex].time;
+                        return (
+                            <label
+                                key={trip.startIndex}
+                                className={cn("flex items-center gap-3 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-muted/50", !selected[index] && "opacity-60")}
+                            >
+                                <Checkbox
+                                    checked={!!selected[index]}
+                                    onCheckedChange={(checked) => setSelected(selected.map((value, i) => (i === index ? checked === true : value)))}
+                                />
+                                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: TRIP_COLORS[index % TRIP_COLORS.length] }} />
+                                <span className="font-medium w-14">Trip {index + 1}</span>
+                                <span className="text-muted-foreground tabular-nums w-14">
+                                    {start ? start.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "–"}
+                                </span>
+                                <span className="tabular-nums w-20">{formatDistance(trip.distance)}</span>
+                                <span className="text-muted-foreground tabular-nums">{formatDuration(trip.duration)}</span>
+                                {trip.distance < MIN_TRIP_DISTANCE && <span className="text-xs text-muted-foreground ml-auto">short hop</span>}
+                            </label>
+                        );
+                    })}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onKeepWhole}>
+                        Keep as One Activity
+                    </Button>
+                    <Button onClick={() => onSplit(chosen)} disabled={chosen.length === 0}>
+                        Create {chosen.length} {chosen.length === 1 ? "Activity" : "Activities"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default TripSplitPreview;
@@ -0,0 +1,221 @@
+import { GPXPoint, ProcessedTrack } from "@/utils/gpxParser";
+import { AnalysisProfile } from "@/utils/analysisProfiles";
+import { ParseTrackOptions } from "@/utils/trackFormats";
+import { TimingLine } from "@/utils/lapTiming";
+import { VehicleSpec } from "@/utils/vehicleModel";
+import { DEMFile } from "@/utils/elevationModel";
+import { RoadRun, roadRuns } from "@/utils/mapMatching";
+import { loadElevationModel } from "@/lib/elevation";
+import { geocodeStatsAsync } from "@/lib/geocoding";
+import { loadRoadNetwork } from "@/lib/roadNetwork";
+import {
+    AnalysisMessage,
+    AnalysisProgress,
+    AnalysisRequest,
+    AnalysisResults,
+    runAnalysisTask,
+} from "@/workers/analysisTasks";
+
+export type { AnalysisProgress, AnalysisStage } from "@/workers/analysisTasks";
+
+export interface AnalysisControl {
+    onProgress?: (progress: AnalysisProgress) => void;
+    signal?: AbortSignal; // aborting rejects with AnalysisCancelledError
+}
+
+export class AnalysisCancelledError extends Error {
+    constructor() {
+        super("Analysis cancelled");
+        this.name = "AnalysisCancelledError";
+    }
+}
+
+interface Job {
+    id: number;
+    request: AnalysisRequest;
+    control: AnalysisControl;
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+// One shared worker runs jobs one at a time; queued jobs can be dropped, the running one is
+// cancelled by terminating the worker (a fresh one is started for the next job).
+let worker: Worker | null = null;
+let activeJob: Job | null = null;
+const queue: Job[] = [];
+let nextId = 1;
+
+const getWorker = () => {
+    if (!worker) {
+        worker = new Worker(new URL("../workers/analysis.worker.ts", import.meta.url), { type: "module" });
+        worker.onmessage = (event: MessageEvent<AnalysisMessage>) => {
+            const message = event.data;
+            const job = activeJob;
+            if (!job || job.id !== message.id) return;
+
+            if (message.kind === "progress") {
+                job.control.onProgress?.(message.progress);
+                return;
+            }
+            activeJob = null;
+            if (message.kind === "result") job.resolve(message.result);
+            else job.reject(new Error(message.message));
+            runNext();
+        };
+        worker.onerror = (event) => {
+            const job = activeJob;
+            resetWorker();
+            job?.reject(new Error(event.message || "Analysis worker failed"));
+            runNext();
+        };
+    }
+    return worker;
+};
+
+const resetWorker = () => {
+    worker?.terminate();
+    worker = null;
+    activeJob = null;
+};
+
+const runNext = () => {
+    if (activeJob || queue.length === 0) return;
+    const job = queue.shift()!;
+    activeJob = job;
+    getWorker().postMessage({ id: job.id, request: job.request });
+};
+
+// Without Worker support (old browsers, tests) the same task runs on the main thread
+const runInline = async <T>(request: AnalysisRequest, control: AnalysisControl): Promise<T> => {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (control.signal?.aborted) throw new AnalysisCancelledError();
+    const result = await runAnalysisTask(request, progress => control.onProgress?.(progress));
+    control.onProgress?.({ stage: "done", fraction: 1 });
+    return result as T;
+};
+
+const runAnalysis = <K extends keyof AnalysisResults>(
+    request: AnalysisRequest & { type: K },
+    control: AnalysisControl = {}
+): Promise<AnalysisResults[K]> => {
+    if (control.signal?.aborted) return Promise.reject(new AnalysisCancelledError());
+    if (typeof Worker === "undefined") return runInline(request, control);
+
+    return new Promise((resolve, reject) => {
+        const job: Job = { id: nextId++, request, control, resolve, reject };
+
+        control.signal?.addEventListener("abort", () => {
+            const index = queue.indexOf(job);
+            if (index >= 0) {
+                queue.splice(index, 1);
+                reject(new AnalysisCancelledError());
+            } else if (activeJob === job) {
+                resetWorker();
+                reject(new AnalysisCancelledError());
+                runNext();
+            }
+        }, { once: true });
+
+        queue.push(job);
+        runNext();
+    });
+};
+
+export const isAnalysisCancelled = (error: unknown) => error instanceof AnalysisCancelledError;
+
+// --- Public API: async, off-main-thread versions of the parsing/analysis functions ---
+
+export const parseTrackFileAsync = (content: string | ArrayBuffer, fileName: string, options?: ParseTrackOptions, control?: AnalysisControl) =>
+    runAnalysis({ type: "parseTrack", content, fileName, options }, control);
+
+// Parse + generateProcessedTrack in one round trip (uploads, cache regeneration).
+// `points` are as read from the file; with a DEM profile only the processed track has the corrected elevation.
+export const importTrackAsync = async (
+    content: string | ArrayBuffer,
+    fileName: string,
+    options?: ParseTrackOptions & { profile?: AnalysisProfile; vehicle?: VehicleSpec },
+    control?: AnalysisControl
+) => {
+    const { profile, vehicle, ...parseOptions } = options || {};
+    if (profile?.elevation !== "dem") {
+        const { points, processedTrack } = await runAnalysis({ type: "importTrack", content, fileName, options: parseOptions, profile, vehicle }, control);
+        return { points, processedTrack: await addPlacesAndRoads(points, processedTrack, control) };
+    }
+    // The elevation model is downloaded on the main thread, between parsing and analysis
+    const points = await runAnalysis({ type: "parseTrack", content, fileName, options: parseOptions }, control);
+    return { points, processedTrack: await generateProcessedTrackAsync(points, profile, vehicle, control) };
+};
+
+// `profile` defaults to DEFAULT_ANALYSIS_PROFILE and `vehicle` to DEFAULT_VEHICLE (in the worker) when omitted.
+// A DEM profile replaces the elevation from the terrain model first, keeping the device elevation (and
+// setting stats.elevationFallback) when it can't; place names and roads are added last.
+export const generateProcessedTrackAsync = async (points: GPXPoint[], profile?: AnalysisProfile, vehicle?: VehicleSpec, control?: AnalysisControl) => {
+    const corrected = profile?.elevation === "dem" ? await correctElevationAsync(points, control) : null;
+    const analysed = corrected ?? points;
+    const processedTrack = await runAnalysis({ type: "processTrack", points: analysed, profile, vehicle }, control);
+    const elevationFallback = profile?.elevation === "dem" && !corrected;
+    const stats = elevationFallback ? { ...processedTrack.stats, elevationFallback } : processedTrack.stats;
+    return addPlacesAndRoads(analysed, { ...processedTrack, stats }, control);
+};
+
+// Place names and road runs, stored with the processed track so viewing it doesn't download the
+// gazetteer and road network again. Either is left out when its data can't be downloaded.
+const addPlacesAndRoads = async (points: GPXPoint[], processedTrack: ProcessedTrack, control?: AnalysisControl): Promise<ProcessedTrack> => {
+    const stats = await geocodeStatsAsync(points, processedTrack.stats);
+    let roads: RoadRun[] | undefined;
+    try {
+        roads = roadRuns(points, await matchRoadsAsync(points, { signal: control?.signal }));
+    } catch (err) {
+        if (isAnalysisCancelled(err)) throw err;
+        console.warn("Could not match the track to roads:", err);
+    }
+    return { ...processedTrack, stats, ...(roads ? { roads } : {}) };
+};
+
+// The track with the terrain model's elevation, decoded in the worker; null when the model doesn't
+// cover the whole track or can't be downloaded. The files are downloaded on the main thread.
+export const correctElevationAsync = async (points: GPXPoint[], control?: AnalysisControl) => {
+    if (control?.signal?.aborted) throw new AnalysisCancelledError();
+    let files: Record<string, DEMFile | null>;
+    try {
+        files = await loadElevationModel(points);
+    } catch (err) {
+        console.warn("Could not download the elevation model:", err);
+        return null;
+    }
+    // Progress is left to the analysis that follows
+    return runAnalysis({ type: "correctElevation", points, files }, { signal: control?.signal });
+};
+
+export const calculateStatsAsync = (points: GPXPoint[], profile?: AnalysisProfile, vehicle?: VehicleSpec, control?: AnalysisControl) =>
+    runAnalysis({ type: "calculateStats", points, profile, vehicle }, control);
+
+export const analyzeSegmentsAsync = (points: GPXPoint[], profile?: AnalysisProfile, control?: AnalysisControl) =>
+    runAnalysis({ type: "analyzeSegments", points, profile }, control);
+
+// Time and average speed had the drive kept to `speedLimit` km/h (the speed limiter tool)
+export const calculateLimitedStatsAsync = (points: GPXPoint[], speedLimit: number, profile?: AnalysisProfile, control?: AnalysisControl) =>
+    runAnalysis({ type: "calculateLimitedStats", points, speedLimit, profile }, control);
+
+// `line` null/omitted detects the start/finish line automatically
+export const analyzeLapsAsync = (points: GPXPoint[], profile?: AnalysisProfile, line?: TimingLine | null, control?: AnalysisControl) =>
+    runAnalysis({ type: "analyzeLaps", points, profile, line }, control);
+
+// Per-point longitudinal/lateral acceleration for the g-g diagram
+export const calculateGForcesAsync = (points: GPXPoint[], profile?: AnalysisProfile, control?: AnalysisControl) =>
+    runAnalysis({ type: "calculateGForces", points, profile }, control);
+
+// Cumulative distance and battery energy per point for the state-of-charge chart
+export const calculateBatteryUseAsync = (points: GPXPoint[], profile?: AnalysisProfile, vehicle?: VehicleSpec, control?: AnalysisControl) =>
+    runAnalysis({ type: "calculateBatteryUse", points, profile, vehicle }, control);
+
+// Road position, name and class per point; the network extract is downloaded on the main thread
+export const matchRoadsAsync = async (points: GPXPoint[], control?: AnalysisControl) => {
+    const elements = await loadRoadNetwork(points);
+    if (elements.length === 0) return points.map(() => null);
+    return runAnalysis({ type: "matchRoads", points, elements }, control);
+};
+
+// Time and distance over the posted limits, given the limit per point from matchRoadsAsync
+export const analyzeSpeedLimitsAsync = (points: GPXPoint[], limits: (number | null)[], profile?: AnalysisProfile, control?: AnalysisControl) =>
+    runAnalysis({ type: "analyzeSpeedLimits", points, limits, profile }, control);
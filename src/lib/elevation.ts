@@ -0,0 +1,27 @@
+import { createTileCache, downloadTileFile } from "@/lib/tileCache";
+import { GPXPoint } from "@/utils/gpxParser";
+import { DEMFile, demTileName } from "@/utils/elevationModel";
+
+// Public bucket with one DEM tile per degree cell, as `<tile>.hgt` or `<tile>.tif` (e.g. N47E008.hgt)
+const DEM_BUCKET = "dem-tiles";
+// Files are kept as downloaded (a 1 arc-second HGT is ~25 MB, GeoTIFFs are compressed) and only
+// decoded in the analysis worker, for the track at hand: up to ~50 MB per tile once decoded
+
+const MAX_CACHED_BYTES = 128 * 1024 * 1024;
+
+// Files by tile name; null for cells without one (sea, outside coverage)
+const loadTile = createTileCache(async (name: string): Promise<DEMFile | null> => {
+    const hgt = await downloadTileFile(DEM_BUCKET, `${name}.hgt`);
+    if (hgt) return { format: "hgt", data: hgt };
+    const tif = await downloadTileFile(DEM_BUCKET, `${name}.tif`);
+    return tif ? { format: "tif", data: tif } : null;
+}, { maxSize: MAX_CACHED_BYTES, sizeOf: file => file?.data.size ?? 0 });
+
+// The DEM files of every cell a track passes through; rejects when one can't be downloaded
+export const loadElevationModel = async (points: GPXPoint[]): Promise<Record<string, DEMFile | null>> => {
+    const files: Record<string, DEMFile | null> = {};
+    for (const name of new Set(points.map(p => demTileName(p.lat, p.lon)))) {
+        files[name] = await loadTile(name);
+    }
+    return files;
+};
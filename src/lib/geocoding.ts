@@ -0,0 +1,48 @@
+import { createTileCache, downloadTileFile } from "@/lib/tileCache";
+import { GPXPoint, GPXStats } from "@/utils/gpxParser";
+import { GAZETTEER_TILE_SIZE, Place, gazetteerTileName, parseGeoNames, stopPlaces, trackPlaces } from "@/utils/reverseGeocoding";
+
+// Public bucket with the GeoNames gazetteer, one file of rows per degree cell (e.g. 47_8.txt)
+const GAZETTEER_BUCKET = "gazetteer";
+const MAX_CACHED_TILES = 64;
+const TILE_MARGIN = GAZETTEER_TILE_SIZE / 5; // the nearest town can be across a tile edge
+
+// Places by tile name; empty for cells without towns (sea, outside the gazetteer)
+const loadTile = createTileCache(async (name: string): Promise<Place[]> => {
+    const data = await downloadTileFile(GAZETTEER_BUCKET, `${name}.txt`);
+    return data ? parseGeoNames(await data.text()) : [];
+}, { maxSize: MAX_CACHED_TILES });
+
+const loadPlaces = async (points: GPXPoint[]): Promise<Place[]> => {
+    const names = new Set<string>();
+    for (const { lat, lon } of points) {
+        for (const dLat of [-TILE_MARGIN, TILE_MARGIN]) {
+            for (const dLon of [-TILE_MARGIN, TILE_MARGIN]) names.add(gazetteerTileName(lat + dLat, lon + dLon));
+        }
+    }
+
+    const places: Place[] = [];
+    for (const name of names) {
+        places.push(...await loadTile(name));
+    }
+    return places;
+};
+
+/**
+ * The stats with the start, end and towns passed through, and each stop's nearest town.
+ * Unchanged when the gazetteer has nothing for the track or a tile can't be downloaded.
+ */
+export const geocodeStatsAsync = async (points: GPXPoint[], stats: GPXStats): Promise<GPXStats> => {
+    try {
+        const places = await loadPlaces(points);
+        if (places.length === 0) return stats;
+        return {
+            ...stats,
+            places: trackPlaces(points, places),
+            ...(stats.stops ? { stops: stopPlaces(stats.stops, places) } : {}),
+        };
+    } catch (err) {
+        console.warn("Could not name the places on the track:", err);
+        return stats;
+    }
+};
@@ -0,0 +1,32 @@
+import { createTileCache, downloadTileFile } from "@/lib/tileCache";
+import { GPXPoint } from "@/utils/gpxParser";
+import { OSMElement, ROAD_TILE_SIZE, roadTileName } from "@/utils/mapMatching";
+
+// Public bucket with the drivable roads of an OSM extract, one Overpass JSON file per tile (e.g. 473_85.json)
+const ROAD_BUCKET = "road-network";
+const MAX_CACHED_TILES = 32;
+const TILE_MARGIN = ROAD_TILE_SIZE / 100; // roads just across a tile edge can still be candidates
+
+// Elements by tile name; empty for tiles without roads or outside the extract
+const loadTile = createTileCache(async (name: string): Promise<OSMElement[]> => {
+    const data = await downloadTileFile(ROAD_BUCKET, `${name}.json`);
+    if (!data) return [];
+    const json = JSON.parse(await data.text());
+    return Array.isArray(json.elements) ? json.elements : [];
+}, { maxSize: MAX_CACHED_TILES });
+
+// Road network elements around a track, from every tile it passes through or close to
+export const loadRoadNetwork = async (points: GPXPoint[]): Promise<OSMElement[]> => {
+    const names = new Set<string>();
+    for (const { lat, lon } of points) {
+        for (const dLat of [-TILE_MARGIN, TILE_MARGIN]) {
+            for (const dLon of [-TILE_MARGIN, TILE_MARGIN]) names.add(roadTileName(lat + dLat, lon + dLon));
+        }
+    }
+
+    const elements: OSMElement[] = [];
+    for (const name of names) {
+        elements.push(...await loadTile(name));
+    }
+    return elements;
+};
@@ -0,0 +1,62 @@
+import { supabase } from "@/lib/supabase";
+
+// Storage reports a missing object either as an HTTP 404 or as a 400 with statusCode "404"
+const isNotFound = (error: unknown) => {
+    const { status, statusCode } = error as { status?: number; statusCode?: string };
+    return status === 404 || statusCode === "404";
+};
+
+// A file from a public bucket; null when it doesn't exist, any other failure is thrown
+export const downloadTileFile = async (bucket: string, path: string): Promise<Blob | null> => {
+    const { data, error } = await supabase.storage.from(bucket).download(path);
+    if (!error) return data;
+    if (isNotFound(error)) return null;
+    throw error;
+};
+
+interface TileCacheOptions<T> {
+    maxSize: number;              // total size of the cached tiles
+    sizeOf?: (tile: T) => number; // defaults to 1, so maxSize is a number of tiles
+}
+
+/**
+ * `load` with its tiles kept by name, dropping the least recently used once the total size
+ * is over `maxSize`. A failed load is not kept, so the next call downloads the tile again.
+ */
+export const createTileCache = <T>(load: (name: string) => Promise<T>, { maxSize, sizeOf = () => 1 }: TileCacheOptions<T>) => {
+    const tiles = new Map<string, Promise<T>>();
+    const sizes = new Map<string, number>(); // loaded tiles only
+    let totalSize = 0;
+
+    const drop = (name: string) => {
+        tiles.delete(name);
+        totalSize -= sizes.get(name) ?? 0;
+        sizes.delete(name);
+    };
+
+    return (name: string): Promise<T> => {
+        const cached = tiles.get(name);
+        if (cached) {
+            // Move to the back as the most recently used
+            tiles.delete(name);
+            tiles.set(name, cached);
+            return cached;
+        }
+
+        const tile = load(name);
+        tiles.set(name, tile);
+        tile.then(value => {
+            if (tiles.get(name) !== tile) return;
+            const size = sizeOf(value);
+            sizes.set(name, size);
+            totalSize += size;
+            for (const oldest of tiles.keys()) {
+                if (totalSize <= maxSize) break;
+                if (oldest !== name && sizes.has(oldest)) drop(oldest);
+            }
+        }, () => {
+            if (tiles.get(name) === tile) drop(name);
+        });
+        return tile;
+    };
+};
@@ -1,17 +1,33 @@
 import { useLocation, useNavigate, useParams } from "react-router-dom";
-import { ArrowLeft, MapPin, Pencil, ChevronDown, ChevronUp, Globe, Lock, LogIn } from "lucide-react";
+import { ArrowLeft, MapPin, Pencil, ChevronDown, ChevronUp, Globe, Lock, LogIn, Download } from "lucide-react";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import GPSStats from "@/components/GPSStats";
-import { GPXStats, GPXPoint, parseGPX, calculateStats, ProcessedTrack, generateProcessedTrack } from "@/utils/gpxParser";
+import { GPXStats, GPXPoint, ProcessedTrack, PROCESSED_TRACK_VERSION } from "@/utils/gpxParser";
 import { useEffect, useState } from "react";
 import { supabase } from "@/lib/supabase";
+import { importTrackAsync } from "@/lib/analysis";
 import { useAuth } from "@/contexts/AuthContext";
 import ActivityEditor from "@/components/ActivityEditor";
+import { getTrackStoragePaths } from "@/utils/trackFormats";
+import { createExportGPX, downloadFile, exportFileName } from "@/utils/trackExport";
+import { AnalysisProfile, resolveAnalysisProfile, sameAnalysisSettings } from "@/utils/analysisProfiles";
+import { VehicleSpec, driveVehicle } from "@/utils/vehicleModel";
+import { RoadRun } from "@/utils/mapMatching";
+import { toast } from "sonner";
 
 interface ActivityState {
   stats: GPXStats;
   points: GPXPoint[];
+  roads?: RoadRun[];
   fileName: string;
 }
 
@@ -24,6 +40,9 @@ interface ActivityMetadata {
   speed_cap: number | null;
   hide_radius: number | null;
   file_path?: string;
+  analysis_profile: AnalysisProfile;
+  trimmed: boolean;
+  vehicle: VehicleSpec; // fuel/energy estimates are (re)made with this
 }
 
 interface OwnerProfile {
@@ -103,22 +122,10 @@ const ActivityPage = () => {
             return;
           }
 
-          // Save metadata
-          setMetadata({
-            id: record.id,
-            user_id: record.user_id,
-            title: record.title,
-            description: record.description,
-            public: record.public,
-            speed_cap: record.speed_cap,
-            hide_radius: record.hide_radius,
-            file_path: record.file_path
-          });
-
           // 1.5 Fetch owner profile
           const { data: profileData } = await supabase
             .from('profiles')
-            .select('display_name, avatar_url, car')
+            .select('display_name, avatar_url, car, vehicle')
             .eq('id', record.user_id)
             .single();
 
@@ -139,8 +146,25 @@ const ActivityPage = () => {
             });
           }
 
+          // Save metadata
+          const vehicle = driveVehicle(record.stats, profileData?.vehicle);
+          setMetadata({
+            id: record.id,
+            user_id: record.user_id,
+            title: record.title,
+            description: record.description,
+            public: record.public,
+            speed_cap: record.speed_cap,
+            hide_radius: record.hide_radius,
+            file_path: record.file_path,
+            analysis_profile: resolveAnalysisProfile(record.analysis_profile),
+            trimmed: !!record.trimmed,
+            vehicle
+          });
+
           let points: GPXPoint[] = [];
           let stats: GPXStats;
+          let roads: RoadRun[] | undefined;
           let previewCoordinates: [number, number][];
 
           // 2. Try to download pre-processed JSON first
@@ -150,10 +174,20 @@ const ActivityPage = () => {
             .from('gpx-files')
             .download(processedPath);
 
+          // Caches written by an older version of the processing logic, or with other
+          // profile thresholds than the activity's, are regenerated
+          const analysisProfile = resolveAnalysisProfile(record.analysis_profile);
+          let cachedTrack: ProcessedTrack | null = null;
           if (!processedError && processedData) {
+            const parsed = JSON.parse(await processedData.text()) as ProcessedTrack;
+            if (parsed.version === PROCESSED_TRACK_VERSION && sameAnalysisSettings(resolveAnalysisProfile(parsed.profile), analysisProfile)) {
+              cachedTrack = parsed;
+            }
+          }
+
+          if (cachedTrack) {
             // HIT: Use cached data
-            const text = await processedData.text();
-            const processedTrack = JSON.parse(text) as ProcessedTrack;
+            const processedTrack = cachedTrack;
 
             // Map back to GPXPoint structure for components that need it
             points = processedTrack.points.map(p => ({
@@ -161,10 +195,18 @@ const ActivityPage = () => {
               lon: p.lon,
               ele: p.ele,
               time: p.time ? new Date(p.time) : undefined,
+              segment: p.segment,
+              speed: p.deviceSpeed,
+              course: p.course,
+              hdop: p.hdop,
+              satellites: p.satellites,
+              fix: p.fix,
+              channels: p.channels,
             }));
 
-            // Use pre-computed stats
+            // Use pre-computed stats and roads
             stats = processedTrack.stats;
+            roads = processedTrack.roads;
           } else {
             // MISS: Fallback to raw GPX
             const { data: fileData, error: storageError } = await supabase.storage
@@ -180,19 +222,23 @@ const ActivityPage = () => {
             }
 
             // 3. Parse Raw GPX & Lazily Cache
+            // LAZY GENERATION: Create full processed track now (in the analysis worker)
             const text = await fileData.text();
-            points = parseGPX(text);
-
-            // LAZY GENERATION: Create full processed track now
-            const processedTrack = generateProcessedTrack(points);
+            const imported = await importTrackAsync(text, record.file_path, { profile: analysisProfile, vehicle });
+            const processedTrack = imported.processedTrack;
+            // Show the elevation the stats were calculated from
+            points = analysisProfile.elevation === 'dem'
+              ? imported.points.map((p, i) => ({ ...p, ele: processedTrack.points[i].ele }))
+              : imported.points;
             stats = processedTrack.stats;
+            roads = processedTrack.roads;
 
             // Fire-and-forget upload to cache for next time
             // Use robust naming convention
             const cachePath = record.file_path.replace(/\.gpx$/i, '') + '.processed.json';
             supabase.storage
               .from('gpx-files')
-              .upload(cachePath, new Blob([JSON.stringify(processedTrack)], { type: 'application/json' }))
+              .upload(cachePath, new Blob([JSON.stringify(processedTrack)], { type: 'application/json' }), { upsert: true })
               .then(({ error }) => {
                 if (error) console.warn("Background cache upload failed:", error);
                 else console.log("Lazily cached processed track:", cachePath);
@@ -202,6 +248,7 @@ const ActivityPage = () => {
           setData({
             stats,
             points,
+            roads,
             fileName: record.title
           });
 
@@ -226,6 +273,35 @@ const ActivityPage = () => {
     ? metadata.speed_cap
     : null;
 
+  const hideRadius = metadata?.hide_radius ?? 5;
+
+  // GPX of the track; with `shared`, trimmed and speed capped exactly like the public view
+  const handleExportGPX = (shared: boolean) => {
+    if (!data) return;
+    const title = metadata?.title || data.fileName;
+    const privacy = shared ? { hideRadius, speedCap: metadata?.speed_cap } : undefined;
+    const gpx = createExportGPX(data.points, title, metadata?.description, privacy);
+    if (!gpx.includes("<trkpt")) {
+      toast.error("Nothing to export: the track is shorter than the hidden start and end.");
+      return;
+    }
+    downloadFile(gpx, exportFileName(title, "gpx"), "application/gpx+xml");
+  };
+
+  // Owner only: the file as uploaded (NMEA, CSV, FIT, ... or the GPX itself)
+  const handleDownloadOriginal = async () => {
+    if (!metadata?.file_path) return;
+    const { gpx, source } = getTrackStoragePaths(metadata.file_path);
+    const path = source || gpx;
+    const { data: file, error } = await supabase.storage.from('gpx-files').download(path);
+    if (error || !file) {
+      toast.error(`Download failed: ${error?.message || "file not found"}`);
+      return;
+    }
+    // Stored as "<user>/<timestamp>_<original name>"
+    downloadFile(file, path.split('/').pop()!.replace(/^\d+_/, ''));
+  };
+
   if (loading || authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -296,6 +372,26 @@ const ActivityPage = () => {
               </div>
               <span className="text-xs text-muted-foreground hidden sm:inline">Activity Details</span>
             </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Download">
+                  <Download className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="z-[1100]">
+                <DropdownMenuLabel>Download</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {isOwner ? (
+                  <>
+                    <DropdownMenuItem onClick={handleDownloadOriginal}>Original file</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExportGPX(false)}>GPX</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExportGPX(true)}>GPX as shared (privacy applied)</DropdownMenuItem>
+                  </>
+                ) : (
+                  <DropdownMenuItem onClick={() => handleExportGPX(!!metadata)}>GPX</DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
             {isOwner && metadata && (
               <>
                 <Button
@@ -316,9 +412,16 @@ const ActivityPage = () => {
                     public: metadata.public,
                     speed_cap: metadata.speed_cap,
                     hide_radius: metadata.hide_radius,
-                    file_path: metadata.file_path
+                    file_path: metadata.file_path,
+                    analysis_profile: metadata.analysis_profile,
+                    vehicle: metadata.vehicle,
+                    trimmed: metadata.trimmed
+                  }}
+                  onUpdate={(updated, reanalysed) => {
+                    setMetadata({ ...metadata, ...updated, analysis_profile: resolveAnalysisProfile(updated.analysis_profile) });
+                    // Reload the track with the new analysis
+                    if (reanalysed) setData(null);
                   }}
-                  onUpdate={(updated) => setMetadata({ ...metadata, ...updated })}
                 />
               </>
             )}
@@ -346,13 +449,15 @@ const ActivityPage = () => {
             stats={data.stats}
             fileName={data.fileName}
             points={data.points}
+            roads={data.roads}
             speedCap={effectiveSpeedCap}
             isOwner={isOwner}
             isPublic={metadata?.public || false}
             description={metadata?.description || null}
-            hideRadius={metadata?.hide_radius ?? 5}
+            hideRadius={hideRadius}
             ownerProfile={ownerProfile}
             onEdit={() => setIsEditorOpen(true)}
+            analysisProfile={metadata?.analysis_profile}
           />
         </div>
       </main>
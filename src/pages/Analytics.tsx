@@ -9,7 +9,10 @@ import SpeedDistributionChart from "@/components/SpeedDistributionChart";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import React from "react";
-import { SpeedBucket, parseGPX, calculateStats, generatePreviewPolyline, formatDistance } from "@/utils/gpxParser";
+import { SpeedBucket, formatDistance } from "@/utils/gpxParser";
+import { importTrackAsync } from "@/lib/analysis";
+import { resolveAnalysisProfile } from "@/utils/analysisProfiles";
+import { driveVehicle } from "@/utils/vehicleModel";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 
@@ -67,6 +70,13 @@ const Analytics = () => {
         let failCount = 0;
 
         try {
+            // Fuel is re-estimated with each drive's own vehicle (the profile's for drives without an estimate)
+            const { data: profileData } = await supabase
+                .from('profiles')
+                .select('vehicle')
+                .eq('id', user.id)
+                .single();
+
             const total = activities.length;
             for (let i = 0; i < total; i++) {
                 const activity = activities[i];
@@ -80,17 +90,17 @@ const Analytics = () => {
 
                     if (storageError) throw storageError;
 
-                    // 2. Parse & Recalculate
+                    // 2. Parse & Recalculate (in the analysis worker)
                     const text = await fileData.text();
-                    const points = parseGPX(text);
-                    const newStats = calculateStats(points);
-
-                    // Generate Preview Polyline (Critical for Map Previews & Heatmap)
-                    const previewCoordinates = generatePreviewPolyline(points);
+                    const { processedTrack } = await importTrackAsync(text, activity.file_path, {
+                        profile: resolveAnalysisProfile(activity.analysis_profile),
+                        vehicle: driveVehicle(activity.stats, profileData?.vehicle)
+                    });
 
+                    // Preview Polyline is critical for Map Previews & Heatmap
                     const finalStats = {
-                        ...newStats,
-                        previewCoordinates
+                        ...processedTrack.stats,
+                        previewCoordinates: processedTrack.previewCoordinates
                     };
 
                     // 3. Update DB
@@ -142,16 +152,29 @@ const Analytics = () => {
         const totalTime = periodActivities.reduce((acc, curr) => acc + (curr.stats?.totalTime || 0), 0);
         const avgSpeed = totalTime > 0 ? totalDist / (totalTime / 3600) : 0;
         const maxSpeed = Math.max(...periodActivities.map(a => a.stats?.maxSpeed || 0), 0);
+        // Drives analysed before fuel estimates existed have none ("Repair Data" adds them)
+        const totalFuel = periodActivities.reduce((acc, curr) => acc + (curr.stats?.fuel?.fuelUsed || 0), 0);
+        const totalIdleFuel = periodActivities.reduce((acc, curr) => acc + (curr.stats?.fuel?.idleFuel || 0), 0);
+        const totalEnergy = periodActivities.reduce((acc, curr) => acc + (curr.stats?.energy?.energyUsed || 0), 0);
+        const totalRegen = periodActivities.reduce((acc, curr) => acc + (curr.stats?.energy?.regenEnergy || 0), 0);
 
         return {
             count,
             totalDist,
             totalTime,
             avgSpeed,
-            maxSpeed
+            maxSpeed,
+            totalFuel,
+            totalIdleFuel,
+            totalEnergy,
+            totalRegen
         };
     }, [activities, timePeriod]);
 
+    // Combustion and electric drives each get their own total; with neither estimated, fuel shows 0
+    const showEnergy = cumulativeStats.totalEnergy > 0;
+    const showFuel = cumulativeStats.totalFuel > 0 || !showEnergy;
+
     // 1. Global Speed Profile Aggregation
     const aggregatedSpeedDistribution = useMemo(() => {
         const bucketMap = new Map<number, { minSpeed: number, time: number, distance: number }>();
@@ -341,7 +364,7 @@ const Analytics = () => {
                     </div>
 
                     {/* Stats Grid */}
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+                    <div className={cn("grid grid-cols-1 md:grid-cols-2 gap-4", showFuel && showEnergy ? "lg:grid-cols-7" : "lg:grid-cols-6")}>
                         <div className="p-4 rounded-xl bg-muted/40 border border-border">
                             <span className="text-xs text-muted-foreground font-semibold uppercase tracking-wider">Total Distance</span>
                             <div className="text-2xl font-bold mt-1 text-primary">{formatDistance(cumulativeStats.totalDist)}</div>
@@ -362,6 +385,20 @@ const Analytics = () => {
                             <span className="text-xs text-muted-foreground font-semibold uppercase tracking-wider">Max Speed</span>
                             <div className="text-2xl font-bold mt-1 text-foreground">{cumulativeStats.maxSpeed.toFixed(0)} <span className="text-sm">km/h</span></div>
                         </div>
+                        {showFuel && (
+                            <div className="p-4 rounded-xl bg-foreground/5 border border-foreground/10" title="Estimated from each drive's vehicle">
+                                <span className="text-xs text-muted-foreground font-semibold uppercase tracking-wider">Fuel (est.)</span>
+                                <div className="text-2xl font-bold mt-1 text-foreground">{cumulativeStats.totalFuel.toFixed(1)} <span className="text-sm">L</span></div>
+                                <span className="text-xs text-muted-foreground">{cumulativeStats.totalIdleFuel.toFixed(1)} L idling</span>
+                            </div>
+                        )}
+                        {showEnergy && (
+                            <div className="p-4 rounded-xl bg-foreground/5 border border-foreground/10" title="Estimated from each drive's vehicle">
+                                <span className="text-xs text-muted-foreground font-semibold uppercase tracking-wider">Energy (est.)</span>
+                                <div className="text-2xl font-bold mt-1 text-foreground">{cumulativeStats.totalEnergy.toFixed(1)} <span className="text-sm">kWh</span></div>
+                                <span className="text-xs text-muted-foreground">{cumulativeStats.totalRegen.toFixed(1)} kWh regenerated</span>
+                            </div>
+                        )}
                     </div>
                 </div>
 
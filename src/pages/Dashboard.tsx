@@ -1,16 +1,32 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
-import { MapPin, LogOut, Upload, Activity, Calendar, Clock, ArrowRight, TrendingUp, Pencil, Trash2, Check, X, Search, SlidersHorizontal, ChevronDown, ChevronUp, BarChart3 } from "lucide-react";
+import { MapPin, LogOut, Upload, Activity, Calendar, Clock, ArrowRight, TrendingUp, Pencil, Trash2, Check, X, Search, SlidersHorizontal, ChevronDown, ChevronUp, BarChart3, Combine, ListChecks } from "lucide-react";
 import FileUploader from "@/components/FileUploader";
-import { parseGPX, calculateStats, formatDistance, formatDuration, generatePreviewPolyline, calculateSpeedDistribution, SpeedBucket, generateProcessedTrack } from "@/utils/gpxParser";
+import CSVColumnMapper from "@/components/CSVColumnMapper";
+import TripSplitPreview from "@/components/TripSplitPreview";
+import MergeActivitiesDialog from "@/components/MergeActivitiesDialog";
+import AnalysisProfileSelect from "@/components/AnalysisProfileSelect";
+import { calculateStats, formatDistance, formatDuration, generatePreviewPolyline, calculateSpeedDistribution, GPXPoint, ProcessedTrack, SpeedBucket } from "@/utils/gpxParser";
+import { TRACK_FORMATS, TrackFile, getTrackFormat, getTrackStoragePaths, stripTrackExtension } from "@/utils/trackFormats";
+import { AnalysisProgress, AnalysisStage, generateProcessedTrackAsync, isAnalysisCancelled, parseTrackFileAsync } from "@/lib/analysis";
+import { createGPXContent } from "@/utils/gpxWriter";
+import { exportFileName } from "@/utils/trackExport";
+import { CSVColumnMapping, CSVTable, readCSVTable } from "@/utils/csvParser";
+import { AnalysisProfile, loadDefaultProfile, saveDefaultProfile } from "@/utils/analysisProfiles";
+import { VehicleSpec, driveVehicle, resolveVehicle } from "@/utils/vehicleModel";
+import { Trip, TripSplit, detectTripSplits, mergeTracks } from "@/utils/tripSplitting";
+import { placeNames } from "@/utils/reverseGeocoding";
 import { supabase } from "@/lib/supabase";
 import ActivityMiniMap from "@/components/ActivityMiniMap";
 import { cn } from "@/lib/utils";
+import { toast } from "sonner";
 import StravaImport from "@/components/StravaImport";
 import ProfileEditor from "@/components/ProfileEditor";
 import { Slider } from "@/components/ui/slider";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
 import SpeedDistributionChart from "@/components/SpeedDistributionChart";
 import { ThemeToggle } from "@/components/ThemeToggle";
 
@@ -19,6 +35,7 @@ interface Profile {
     display_name: string | null;
     car: string | null;
     avatar_url: string | null;
+    vehicle?: Partial<VehicleSpec> | null;
 }
 
 interface ActivityRecord {
@@ -28,6 +45,7 @@ interface ActivityRecord {
     file_path: string;
     created_at: string;
     stats: any;
+    analysis_profile?: AnalysisProfile | null;
 }
 
 type TimePeriod = 'week' | 'month' | 'year' | 'all';
@@ -41,6 +59,14 @@ const Dashboard = () => {
     const [loadingActivities, setLoadingActivities] = useState(true);
     const [showUpload, setShowUpload] = useState(false);
     const [profile, setProfile] = useState<Profile | null>(null);
+    // CSV uploads wait here until their columns are mapped
+    const [pendingCSVUpload, setPendingCSVUpload] = useState<{ files: TrackFile[]; fileName: string; table: CSVTable } | null>(null);
+    // Recordings with parked periods wait here until the user picks the trips (null: keep as one)
+    const [pendingTripSplit, setPendingTripSplit] = useState<{ fileName: string; points: GPXPoint[]; splits: TripSplit[]; resolve: (trips: Trip[] | null) => void } | null>(null);
+    const [uploadProgress, setUploadProgress] = useState<{ index: number; total: number; name: string; stage: AnalysisStage; fraction: number } | null>(null);
+    const uploadAbortRef = useRef<AbortController | null>(null);
+    // Profile new uploads are analysed with; the last one picked is remembered
+    const [uploadProfile, setUploadProfile] = useState<AnalysisProfile>(loadDefaultProfile);
     const [isLoadingProfile, setIsLoadingProfile] = useState(true);
 
     // Search and Filters
@@ -55,6 +81,12 @@ const Dashboard = () => {
     const [editingId, setEditingId] = useState<string | null>(null);
     const [editTitle, setEditTitle] = useState("");
 
+    // Selection for merging several activities into one
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [showMerge, setShowMerge] = useState(false);
+    const [isMerging, setIsMerging] = useState(false);
+
     const handleStartEdit = (e: React.MouseEvent, activity: ActivityRecord) => {
         e.stopPropagation();
         setEditingId(activity.id);
@@ -87,34 +119,115 @@ const Dashboard = () => {
         }
     };
 
+    // Deletes an activity's files and its row
+    const removeActivity = async (id: string, filePath: string) => {
+        // 1. Delete files from Storage (GPX, processed cache, any untrimmed copy and original upload)
+        const { gpx, processed, untrimmed, source } = getTrackStoragePaths(filePath);
+        const { error: storageError } = await supabase.storage
+            .from('gpx-files')
+            .remove(source ? [gpx, processed, untrimmed, source] : [gpx, processed, untrimmed]);
+
+        if (storageError) {
+            console.error("Storage delete error:", storageError);
+        }
+
+        // 2. Delete record from Table
+        const { error: dbError } = await supabase
+            .from('activities')
+            .delete()
+            .eq('id', id);
+
+        if (dbError) throw dbError;
+
+        // Optimistic Remove
+        setActivities(prev => prev.filter(a => a.id !== id));
+    };
+
     const handleDelete = async (e: React.MouseEvent, id: string, filePath: string) => {
         e.stopPropagation();
         if (!window.confirm("Are you sure you want to delete this activity? This cannot be undone.")) return;
 
         try {
-            // 1. Delete file from Storage
-            const { error: storageError } = await supabase.storage
-                .from('gpx-files')
-                .remove([filePath]);
+            await removeActivity(id, filePath);
+        } catch (err) {
+            console.error("Error deleting activity:", err);
+            alert("Failed to delete activity.");
+        }
+    };
 
-            if (storageError) {
-                console.error("Storage delete error:", storageError);
-            }
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+    };
 
-            // 2. Delete record from Table
-            const { error: dbError } = await supabase
-                .from('activities')
-                .delete()
-                .eq('id', id);
+    const stopSelecting = () => {
+        setIsSelecting(false);
+        setSelectedIds([]);
+    };
 
-            if (dbError) throw dbError;
+    // Selected activities in time order, the order they are merged in
+    const mergeCandidates = useMemo(() => {
+        const activityTime = (a: ActivityRecord) => new Date(a.stats?.startTime || a.created_at).getTime();
+        return activities
+            .filter(a => selectedIds.includes(a.id))
+            .sort((a, b) => activityTime(a) - activityTime(b));
+    }, [activities, selectedIds]);
+    const mergeDialogItems = useMemo(() => mergeCandidates.map(a => ({
+        id: a.id,
+        title: a.title,
+        startTime: a.stats?.startTime,
+        distance: a.stats?.totalDistance || 0,
+    })), [mergeCandidates]);
+
+    const handleMerge = async (title: string, deleteOriginals: boolean) => {
+        if (!user || mergeCandidates.length < 2) return;
+        setIsMerging(true);
 
-            // Optimistic Remove
-            setActivities(prev => prev.filter(a => a.id !== id));
+        try {
+            // 1. Download and parse every recording
+            const tracks: GPXPoint[][] = [];
+            for (const activity of mergeCandidates) {
+                const { data: fileData, error: storageError } = await supabase.storage
+                    .from('gpx-files')
+                    .download(activity.file_path);
+
+                if (storageError) throw storageError;
+                tracks.push(await parseTrackFileAsync(await fileData.text(), activity.file_path));
+            }
+
+            // 2. Join them; the gaps between recordings stay segment breaks
+            const points = mergeTracks(tracks);
+            if (points.length < 2) throw new Error("No GPS points to merge.");
+
+            // 3. Analyse with the first drive's profile and vehicle, then store as a new activity
+            const first = mergeCandidates[0];
+            const analysisProfile = first.analysis_profile ?? uploadProfile;
+            const vehicle = driveVehicle(first.stats, profile?.vehicle);
+            const processedTrack = await generateProcessedTrackAsync(points, analysisProfile, vehicle);
+            await storeActivity(exportFileName(title, "gpx"), title, createGPXContent(points, title), processedTrack, analysisProfile);
+
+            // 4. Optionally remove the originals. The merge is saved by now, so failures here are reported on their own
+            let notRemoved = 0;
+            if (deleteOriginals) {
+                for (const activity of mergeCandidates) {
+                    try {
+                        await removeActivity(activity.id, activity.file_path);
+                    } catch (err) {
+                        console.error("Error deleting merged activity:", err);
+                        notRemoved++;
+                    }
+                }
+            }
 
+            toast.success(`Merged ${mergeCandidates.length} activities into "${title}".`);
+            if (notRemoved > 0) toast.error(`Could not delete ${notRemoved} of the original activities. Delete them from the list.`);
+            setShowMerge(false);
+            stopSelecting();
+            await fetchActivities();
         } catch (err) {
-            console.error("Error deleting activity:", err);
-            alert("Failed to delete activity.");
+            console.error("Error merging activities:", err);
+            toast.error("Failed to merge activities.");
+        } finally {
+            setIsMerging(false);
         }
     };
 
@@ -136,7 +249,7 @@ const Dashboard = () => {
             setIsLoadingProfile(true);
             const { data, error } = await supabase
                 .from('profiles')
-                .select('id, display_name, car, avatar_url')
+                .select('id, display_name, car, avatar_url, vehicle')
                 .eq('id', user.id)
                 .single();
 
@@ -189,9 +302,11 @@ const Dashboard = () => {
 
     const filteredActivities = useMemo(() => {
         return activities.filter(activity => {
-            // 1. Search (Title)
-            if (searchQuery && !activity.title.toLowerCase().includes(searchQuery.toLowerCase())) {
-                return false;
+            // 1. Search (Title and places: start, end, towns passed, stops)
+            if (searchQuery) {
+                const query = searchQuery.toLowerCase();
+                const names = [activity.title, ...placeNames(activity.stats?.places, activity.stats?.stops)];
+                if (!names.some(name => name.toLowerCase().includes(query))) return false;
             }
 
             const stats = activity.stats || {};
@@ -230,6 +345,9 @@ const Dashboard = () => {
         const totalDist = periodActivities.reduce((acc, curr) => acc + (curr.stats?.totalDistance || 0), 0);
         const totalTime = periodActivities.reduce((acc, curr) => acc + (curr.stats?.totalTime || 0), 0);
         const totalElevation = periodActivities.reduce((acc, curr) => acc + (curr.stats?.elevationGain || 0), 0);
+        // Drives analysed before fuel estimates existed (and electric ones) have none and add nothing
+        const totalFuel = periodActivities.reduce((acc, curr) => acc + (curr.stats?.fuel?.fuelUsed || 0), 0);
+        const totalIdleFuel = periodActivities.reduce((acc, curr) => acc + (curr.stats?.fuel?.idleFuel || 0), 0);
         // Weighted Average Speed = Total Distance / Total Time
         const avgSpeed = totalTime > 0 ? totalDist / (totalTime / 3600) : 0;
         const maxSpeed = Math.max(...periodActivities.map(a => a.stats?.maxSpeed || 0), 0);
@@ -239,6 +357,8 @@ const Dashboard = () => {
             totalDist,
             totalTime,
             totalElevation,
+            totalFuel,
+            totalIdleFuel,
             avgSpeed,
             maxSpeed,
             activities: periodActivities // Pass for chart
@@ -278,70 +398,162 @@ const Dashboard = () => {
         }
     };
 
-    const handleFilesLoad = async (files: { content: string; name: string }[]) => {
+    const handleFilesLoad = (files: TrackFile[]) => {
+        const csvFile = files.find(f => getTrackFormat(f.name) === 'csv');
+        if (!csvFile) {
+            uploadTrackFiles(files);
+            return;
+        }
+
+        // Column mapping is taken from the first CSV and applied to every CSV in the batch
+        const { headers, rows } = readCSVTable(csvFile.content as string);
+        setPendingCSVUpload({ files, fileName: csvFile.name, table: { headers, rows: rows.slice(0, 50) } });
+    };
+
+    const handleCSVMappingConfirm = (mapping: CSVColumnMapping) => {
+        const files = pendingCSVUpload?.files || [];
+        setPendingCSVUpload(null);
+        uploadTrackFiles(files, mapping);
+    };
+
+    const confirmTripSplit = (fileName: string, points: GPXPoint[], splits: TripSplit[]) =>
+        new Promise<Trip[] | null>(resolve => setPendingTripSplit({ fileName, points, splits, resolve }));
+
+    const handleTripSplitDecision = (trips: Trip[] | null) => {
+        pendingTripSplit?.resolve(trips);
+        setPendingTripSplit(null);
+    };
+
+    // Stores the GPX (and, for other formats, the original file next to it), the processed
+    // track cache and the activities row for one drive
+    const storeActivity = async (name: string, title: string, gpxContent: string, processedTrack: ProcessedTrack, analysisProfile: AnalysisProfile, source?: TrackFile) => {
+        // Upload raw GPX to Supabase Storage
+        const baseFileName = `${user.id}/${Date.now()}_${name}`;
+        // Ensure valid extension
+        const gpxFileName = baseFileName.toLowerCase().endsWith('.gpx')
+            ? baseFileName
+            : `${baseFileName}.gpx`;
+
+        if (source) {
+            const { error: sourceUploadError } = await supabase.storage
+                .from('gpx-files')
+                .upload(baseFileName, new Blob([source.content], { type: TRACK_FORMATS[getTrackFormat(source.name)].mimeType }));
+
+            if (sourceUploadError) throw sourceUploadError;
+        }
+
+        const { error: uploadError } = await supabase.storage
+            .from('gpx-files')
+            .upload(gpxFileName, new Blob([gpxContent], { type: 'text/xml' }));
+
+        if (uploadError) throw uploadError;
+
+        // Upload processed.json for caching
+        // Robust replacement of extension
+        const processedFileName = gpxFileName.replace(/\.gpx$/i, '') + '.processed.json';
+        const { error: processedUploadError } = await supabase.storage
+            .from('gpx-files')
+            .upload(processedFileName, new Blob([JSON.stringify(processedTrack)], { type: 'application/json' }));
+
+        // Non-fatal if processed upload fails - we can regenerate on view
+        if (processedUploadError) {
+            console.warn(`Warning: Could not cache processed data for ${name}`);
+        }
+
+        // Insert Record into 'activities' table
+        const { error: dbError } = await supabase
+            .from('activities')
+            .insert([
+                {
+                    user_id: user.id,
+                    title,
+                    file_path: gpxFileName,
+                    analysis_profile: analysisProfile,
+                    stats: {
+                        ...processedTrack.stats,
+                        previewCoordinates: processedTrack.previewCoordinates
+                    },
+                }
+            ]);
+
+        if (dbError) throw dbError;
+    };
+
+    const uploadTrackFiles = async (files: TrackFile[], csvMapping?: CSVColumnMapping) => {
         if (!user) return;
         setIsLoading(true);
         setError(null);
         let successCount = 0;
         const errorMessages: string[] = [];
+        const abortController = new AbortController();
+        uploadAbortRef.current = abortController;
+        const vehicle = resolveVehicle(profile?.vehicle);
 
         try {
             // Process files sequentially to avoid rate limits or race conditions
-            for (const { content, name } of files) {
+            for (const [index, file] of files.entries()) {
+                const { content, name } = file;
+                if (abortController.signal.aborted) break;
                 try {
-                    // 1. Local Parse & Validation
-                    const parsedPoints = parseGPX(content);
+                    // 1. Parse in the analysis worker; analysis waits until it's known what gets stored
+                    const format = getTrackFormat(name);
+                    const onProgress = ({ stage, fraction }: AnalysisProgress) => setUploadProgress({ index, total: files.length, name, stage, fraction });
+                    setUploadProgress({ index, total: files.length, name, stage: 'parsing', fraction: 0 });
+                    const parsedPoints = await parseTrackFileAsync(content, name, { csvMapping }, { signal: abortController.signal, onProgress });
                     if (parsedPoints.length === 0) {
                         errorMessages.push(`Skipped ${name}: No GPS points.`);
                         continue;
                     }
 
-                    // 2. Generate processed track (includes stats and preview)
-                    const processedTrack = generateProcessedTrack(parsedPoints);
-
-                    // 3. Upload raw GPX to Supabase Storage
-                    const baseFileName = `${user.id}/${Date.now()}_${name}`;
-                    // Ensure valid extension
-                    const gpxFileName = baseFileName.toLowerCase().endsWith('.gpx')
-                        ? baseFileName
-                        : `${baseFileName}.gpx`;
-
-                    const { error: uploadError } = await supabase.storage
-                        .from('gpx-files')
-                        .upload(gpxFileName, new Blob([content], { type: 'text/xml' }));
-
-                    if (uploadError) throw uploadError;
-
-                    // 4. Upload processed.json for caching
-                    // Robust replacement of extension
-                    const processedFileName = gpxFileName.replace(/\.gpx$/i, '') + '.processed.json';
-                    const { error: processedUploadError } = await supabase.storage
-                        .from('gpx-files')
-                        .upload(processedFileName, new Blob([JSON.stringify(processedTrack)], { type: 'application/json' }));
-
-                    // Non-fatal if processed upload fails - we can regenerate on view
-                    if (processedUploadError) {
-                        console.warn(`Warning: Could not cache processed data for ${name}`);
-                    }
-
-                    // 5. Insert Record into 'activities' table
-                    const { error: dbError } = await supabase
-                        .from('activities')
-                        .insert([
-                            {
-                                user_id: user.id,
-                                title: name.replace('.gpx', ''),
-                                file_path: gpxFileName,
-                                stats: {
-                                    ...processedTrack.stats,
-                                    previewCoordinates: processedTrack.previewCoordinates
-                                },
+                    // 2. Title from the file name
+                    const title = stripTrackExtension(name);
+
+                    // 3. All-day recordings: offer one activity per trip between parked periods
+                    const splits = detectTripSplits(parsedPoints);
+                    const trips = splits.length > 0 ? await confirmTripSplit(name, parsedPoints, splits) : null;
+
+                    if (trips) {
+                        // Each trip is analysed on its own and stored as a generated GPX, next to a copy of
+                        // the original file for other formats (the owner's "Original file" download)
+                        const extension = name.slice(title.length + 1);
+                        const failedTrips: number[] = [];
+                        let storedTrips = 0;
+                        for (const [tripIndex, trip] of trips.entries()) {
+                            if (abortController.signal.aborted) break;
+                            const tripTitle = `${title} (trip ${tripIndex + 1})`;
+                            try {
+                                const tripPoints = parsedPoints.slice(trip.startIndex, trip.endIndex + 1);
+                                setUploadProgress({ index, total: files.length, name: tripTitle, stage: 'analysing', fraction: tripIndex / trips.length });
+                                const tripTrack = await generateProcessedTrackAsync(tripPoints, uploadProfile, vehicle, { signal: abortController.signal });
+                                const tripName = exportFileName(`${title}_trip${tripIndex + 1}`, format !== 'gpx' ? extension : 'gpx');
+                                await storeActivity(tripName, tripTitle, createGPXContent(tripPoints, tripTitle), tripTrack, uploadProfile, format !== 'gpx' ? file : undefined);
+                                storedTrips++;
+                            } catch (err) {
+                                if (isAnalysisCancelled(err)) break;
+                                console.error(`Error processing ${tripTitle}:`, err);
+                                failedTrips.push(tripIndex + 1);
                             }
-                        ]);
+                        }
+
+                        // Trips already stored stay; say how far a cancelled or partly failed file got
+                        if (abortController.signal.aborted) {
+                            if (storedTrips > 0) errorMessages.push(`${name}: ${storedTrips}/${trips.length} trips stored`);
+                            break;
+                        }
+                        if (failedTrips.length > 0) {
+                            errorMessages.push(`Failed ${name} trip ${failedTrips.join(', ')} (${storedTrips}/${trips.length} trips stored)`);
+                            continue;
+                        }
+                    } else {
+                        // Other formats: keep the original file and store a generated GPX next to it
+                        const processedTrack = await generateProcessedTrackAsync(parsedPoints, uploadProfile, vehicle, { signal: abortController.signal, onProgress });
+                        const gpxContent = format === 'gpx' ? (content as string) : createGPXContent(parsedPoints, title);
+                        await storeActivity(name, title, gpxContent, processedTrack, uploadProfile, format !== 'gpx' ? file : undefined);
+                    }
 
-                    if (dbError) throw dbError;
                     successCount++;
                 } catch (err) {
+                    if (isAnalysisCancelled(err)) break;
                     console.error(`Error processing ${name}:`, err);
                     errorMessages.push(`Failed ${name}`);
                 }
@@ -350,7 +562,9 @@ const Dashboard = () => {
             // 4. Refresh List & UI
             await fetchActivities();
 
-            if (successCount === files.length) {
+            if (abortController.signal.aborted) {
+                setError(`Upload cancelled after ${successCount}/${files.length} files.${errorMessages.length > 0 ? ` ${errorMessages.join(', ')}` : ''}`);
+            } else if (successCount === files.length) {
                 // All success
                 setShowUpload(false);
             } else {
@@ -363,6 +577,8 @@ const Dashboard = () => {
             console.error(err);
         } finally {
             setIsLoading(false);
+            setUploadProgress(null);
+            uploadAbortRef.current = null;
         }
     };
 
@@ -380,7 +596,7 @@ const Dashboard = () => {
                         <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                         <input
                             type="text"
-                            placeholder="Search drives..."
+                            placeholder="Search drives or places..."
                             value={searchQuery}
                             onChange={(e) => setSearchQuery(e.target.value)}
                             className="w-full bg-muted/50 border border-border rounded-full pl-10 pr-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
@@ -463,6 +679,34 @@ const Dashboard = () => {
                                         </span>
                                     )}
                                 </Button>
+
+                                {isSelecting ? (
+                                    <>
+                                        <Button
+                                            size="sm"
+                                            onClick={() => setShowMerge(true)}
+                                            disabled={selectedIds.length < 2}
+                                            className="gap-2"
+                                        >
+                                            <Combine className="w-4 h-4" />
+                                            Merge {selectedIds.length > 0 && `(${selectedIds.length})`}
+                                        </Button>
+                                        <Button variant="ghost" size="sm" onClick={stopSelecting}>
+                                            Cancel
+                                        </Button>
+                                    </>
+                                ) : (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => setIsSelecting(true)}
+                                        className="gap-2"
+                                        disabled={activities.length < 2}
+                                    >
+                                        <ListChecks className="w-4 h-4" />
+                                        Select
+                                    </Button>
+                                )}
                             </div>
 
                             <Button
@@ -477,6 +721,31 @@ const Dashboard = () => {
                         <p className="text-sm text-muted-foreground">Your personal driving history and statistics</p>
                     </div>
 
+                    {/* Totals of the listed activities */}
+                    {cumulativeStats.count > 0 && (
+                        <div className={cn("grid grid-cols-2 gap-4", cumulativeStats.totalFuel > 0 ? "md:grid-cols-4" : "md:grid-cols-3")}>
+                            <div className="p-4 rounded-xl bg-muted/40 border border-border">
+                                <span className="text-xs text-muted-foreground font-semibold uppercase tracking-wider">Total Distance</span>
+                                <div className="text-2xl font-bold mt-1 text-primary">{formatDistance(cumulativeStats.totalDist)}</div>
+                            </div>
+                            <div className="p-4 rounded-xl bg-foreground/5 border border-foreground/10">
+                                <span className="text-xs text-muted-foreground font-semibold uppercase tracking-wider">Total Time</span>
+                                <div className="text-2xl font-bold mt-1 text-foreground">{formatDuration(cumulativeStats.totalTime)}</div>
+                            </div>
+                            <div className="p-4 rounded-xl bg-foreground/5 border border-foreground/10">
+                                <span className="text-xs text-muted-foreground font-semibold uppercase tracking-wider">Activities</span>
+                                <div className="text-2xl font-bold mt-1 text-foreground">{cumulativeStats.count}</div>
+                            </div>
+                            {cumulativeStats.totalFuel > 0 && (
+                                <div className="p-4 rounded-xl bg-foreground/5 border border-foreground/10" title="Estimated from each drive's vehicle">
+                                    <span className="text-xs text-muted-foreground font-semibold uppercase tracking-wider">Fuel (est.)</span>
+                                    <div className="text-2xl font-bold mt-1 text-foreground">{cumulativeStats.totalFuel.toFixed(1)} <span className="text-sm">L</span></div>
+                                    <span className="text-xs text-muted-foreground">{cumulativeStats.totalIdleFuel.toFixed(1)} L idling</span>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Collapsible Filter Panel */}
                     {showFilters && (
                         <div className="bg-card border border-border rounded-2xl p-6 animate-in slide-in-from-top-2">
@@ -551,9 +820,53 @@ const Dashboard = () => {
                                     <div>
                                         <h4 className="text-sm font-bold mb-3 flex items-center gap-2 text-foreground">
                                             <Upload className="w-4 h-4 text-primary" />
-                                            Upload GPX File
+                                            Upload Track File
                                         </h4>
+                                        <div className="mb-4 max-w-sm space-y-1.5">
+                                            <span className="text-xs font-medium text-muted-foreground">Analysis profile</span>
+                                            <AnalysisProfileSelect
+                                                value={uploadProfile}
+                                                onChange={(selected) => {
+                                                    setUploadProfile(selected);
+                                                    saveDefaultProfile(selected.id);
+                                                }}
+                                                disabled={isLoading}
+                                            />
+                                        </div>
                                         <FileUploader onFilesLoad={handleFilesLoad} isLoading={isLoading} />
+                                        {uploadProgress && (
+                                            <div className="mt-4 space-y-2">
+                                                <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+                                                    <span className="truncate">
+                                                        {uploadProgress.stage === 'parsing' ? 'Reading' : 'Analysing'} {uploadProgress.name}
+                                                        {uploadProgress.total > 1 && ` (${uploadProgress.index + 1}/${uploadProgress.total})`}
+                                                    </span>
+                                                    <Button variant="ghost" size="sm" onClick={() => uploadAbortRef.current?.abort()}>
+                                                        Cancel
+                                                    </Button>
+                                                </div>
+                                                <Progress value={((uploadProgress.index + uploadProgress.fraction) / uploadProgress.total) * 100} />
+                                            </div>
+                                        )}
+                                        {pendingTripSplit && (
+                                            <TripSplitPreview
+                                                open
+                                                fileName={pendingTripSplit.fileName}
+                                                points={pendingTripSplit.points}
+                                                splits={pendingTripSplit.splits}
+                                                onSplit={handleTripSplitDecision}
+                                                onKeepWhole={() => handleTripSplitDecision(null)}
+                                            />
+                                        )}
+                                        {pendingCSVUpload && (
+                                            <CSVColumnMapper
+                                                open
+                                                fileName={pendingCSVUpload.fileName}
+                                                table={pendingCSVUpload.table}
+                                                onConfirm={handleCSVMappingConfirm}
+                                                onCancel={() => setPendingCSVUpload(null)}
+                                            />
+                                        )}
                                     </div>
                                 </div>
 
@@ -598,12 +911,20 @@ const Dashboard = () => {
                                 {filteredActivities.map((activity) => (
                                     <div
                                         key={activity.id}
-                                        onClick={() => navigate(`/activity/${activity.slug || activity.id}`)}
-                                        className="group bg-card border border-border rounded-2xl overflow-hidden hover:shadow-xl hover:shadow-primary/5 transition-all cursor-pointer hover:-translate-y-1 flex flex-col relative"
+                                        onClick={() => isSelecting ? toggleSelected(activity.id) : navigate(`/activity/${activity.slug || activity.id}`)}
+                                        className={cn(
+                                            "group bg-card border border-border rounded-2xl overflow-hidden hover:shadow-xl hover:shadow-primary/5 transition-all cursor-pointer hover:-translate-y-1 flex flex-col relative",
+                                            isSelecting && selectedIds.includes(activity.id) && "ring-2 ring-primary"
+                                        )}
                                     >
                                         {/* Mini Map */}
                                         <div className="h-40 w-full relative bg-muted/30">
                                             <ActivityMiniMap coordinates={activity.stats?.previewCoordinates} />
+                                            {isSelecting && (
+                                                <div className="absolute top-3 left-3 z-[500] bg-background/90 rounded p-1 pointer-events-none">
+                                                    <Checkbox checked={selectedIds.includes(activity.id)} />
+                                                </div>
+                                            )}
                                         </div>
 
                                         {/* Details */}
@@ -681,6 +1002,14 @@ const Dashboard = () => {
                 </div>
             </main>
 
+            <MergeActivitiesDialog
+                open={showMerge}
+                activities={mergeDialogItems}
+                isMerging={isMerging}
+                onConfirm={handleMerge}
+                onCancel={() => setShowMerge(false)}
+            />
+
             {/* Floating Theme Toggle */}
             <div className="fixed bottom-6 left-6 z-[1050]">
                 <ThemeToggle />
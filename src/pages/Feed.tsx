@@ -2,8 +2,9 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
-import { MapPin, LogOut, Clock, Activity, Search, LayoutDashboard, Globe, Car, User, BarChart3 } from "lucide-react";
+import { MapPin, LogOut, Clock, Activity, Search, LayoutDashboard, Globe, Car, User, BarChart3, Route } from "lucide-react";
 import { formatDistance, formatDuration } from "@/utils/gpxParser";
+import { formatRoute } from "@/utils/reverseGeocoding";
 import { supabase } from "@/lib/supabase";
 import ActivityMiniMap from "@/components/ActivityMiniMap";
 import { ThemeToggle } from "@/components/ThemeToggle";
@@ -24,6 +25,7 @@ interface ActivityRecord {
     created_at: string;
     stats: any;
     user_id: string;
+    hide_radius: number | null;
     profiles?: {
         display_name: string | null;
         car: string | null;
@@ -90,9 +92,17 @@ const Feed = () => {
         }
     };
 
+    // Start and end towns, and towns passed near them, are left out unless the ends of the track are shown (hide_radius as on the activity page)
+    const routeLabel = (activity: ActivityRecord) => {
+        if (!activity.stats?.places) return null;
+        const hideRadius = activity.user_id !== user?.id ? activity.hide_radius ?? 5 : 0;
+        return formatRoute(activity.stats.places, hideRadius);
+    };
+
     // Filter locally by search
     const filteredActivities = activities.filter(a =>
         a.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        routeLabel(a)?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         a.profiles?.display_name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         a.profiles?.car?.toLowerCase().includes(searchQuery.toLowerCase())
     );
@@ -232,9 +242,17 @@ const Feed = () => {
 
                                     {/* Details */}
                                     <div className="p-4 flex-1">
-                                        <h3 className="font-bold text-foreground mb-4 truncate" title={activity.title}>
+                                        <h3 className="font-bold text-foreground mb-1 truncate" title={activity.title}>
                                             {activity.title}
                                         </h3>
+                                        {(() => {
+                                            const route = routeLabel(activity);
+                                            return (
+                                                <p className="text-xs text-muted-foreground mb-4 h-4 truncate flex items-center gap-1" title={route ?? undefined}>
+                                                    {route && <><Route className="w-3 h-3 shrink-0" /><span className="truncate">{route}</span></>}
+                                                </p>
+                                            );
+                                        })()}
 
                                         <div className="grid grid-cols-3 gap-2 border-t border-border/50 pt-4">
                                             <div>
@@ -49,7 +49,8 @@ const HowTo = () => {
                         <ol className="list-decimal list-inside space-y-3 marker:font-bold marker:text-primary">
                             <li className="pl-2">Open the activity in Garmin Connect Web.</li>
                             <li className="pl-2">Click the <span className="font-bold">Gear icon</span> in the top right.</li>
-                            <li className="pl-2">Select <span className="font-bold">Export to GPX</span>.</li>
+                            <li className="pl-2">Select <span className="font-bold">Export to GPX</span> (or <span className="font-bold">Export to TCX</span>).</li>
+                            <li className="pl-2">Alternatively, <span className="font-bold">Export Original</span> gives you the device's .fit file, which can be uploaded directly.</li>
                         </ol>
                     </div>
                 </section>
@@ -70,6 +71,38 @@ const HowTo = () => {
                     </div>
                 </section>
 
+                <section className="space-y-4">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-lg bg-amber-500 text-white flex items-center justify-center font-bold">
+                            E
+                        </div>
+                        <h2 className="text-2xl font-bold">Google Earth &amp; My Maps</h2>
+                    </div>
+                    <div className="bg-card border border-border rounded-xl p-6 space-y-4">
+                        <ol className="list-decimal list-inside space-y-3 marker:font-bold marker:text-primary">
+                            <li className="pl-2">Right-click the track (Earth) or open the map menu (My Maps).</li>
+                            <li className="pl-2">Choose <span className="font-bold">Save Place As</span> / <span className="font-bold">Export to KML/KMZ</span>.</li>
+                            <li className="pl-2">Upload the .kml or .kmz file here. GeoJSON exports from other mapping tools work too.</li>
+                        </ol>
+                    </div>
+                </section>
+
+                <section className="space-y-4">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-lg bg-sky-600 text-white flex items-center justify-center font-bold">
+                            T
+                        </div>
+                        <h2 className="text-2xl font-bold">Torque Pro &amp; OBD Loggers</h2>
+                    </div>
+                    <div className="bg-card border border-border rounded-xl p-6 space-y-4">
+                        <ol className="list-decimal list-inside space-y-3 marker:font-bold marker:text-primary">
+                            <li className="pl-2">Enable <span className="font-bold">Log GPS data</span> in the logging settings and record your drive.</li>
+                            <li className="pl-2">Export or share the trip log as a <span className="font-bold">.csv</span> file.</li>
+                            <li className="pl-2">Upload it here and check the column mapping. Give the mapping a name and it is picked for files with the same columns next time, so the step is a single click.</li>
+                        </ol>
+                    </div>
+                </section>
+
                 <div className="flex justify-center pt-8">
                     <Button size="lg" onClick={() => navigate('/dashboard')}>
                         Back to Dashboard
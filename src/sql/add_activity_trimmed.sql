@@ -0,0 +1,5 @@
+-- COLUMN: Whether the activity's GPX was trimmed in the editor
+-- The GPX from before the trim is kept in storage at `<file_path without .gpx>.untrimmed.gpx` so it can be reverted.
+
+alter table public.activities
+add column if not exists trimmed boolean not null default false;
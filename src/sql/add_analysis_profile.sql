@@ -0,0 +1,6 @@
+-- COLUMN: Analysis profile (vehicle thresholds) each activity was analysed with
+-- Stored as a full snapshot so re-analysis gives the same result even if the user's custom profile changes.
+-- NULL means the default "Car" profile (activities uploaded before profiles existed).
+
+alter table public.activities
+add column if not exists analysis_profile jsonb;
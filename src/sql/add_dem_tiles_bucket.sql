@@ -0,0 +1,11 @@
+-- BUCKET: Digital elevation model tiles for elevation correction (src/lib/elevation.ts)
+-- One tile per degree cell, named after its south-west corner: N47E008.hgt (SRTM) or N47E008.tif (GeoTIFF).
+-- Tiles are uploaded by an admin; anyone can read them.
+
+insert into storage.buckets (id, name, public)
+values ('dem-tiles', 'dem-tiles', true)
+on conflict (id) do nothing;
+
+create policy "Public Read DEM Tiles"
+on storage.objects for select
+using (bucket_id = 'dem-tiles');
@@ -0,0 +1,12 @@
+-- BUCKET: Gazetteer for offline reverse geocoding (src/lib/geocoding.ts)
+-- Rows of a GeoNames dump (e.g. cities5000.txt, tab-separated as downloaded), split into one file
+-- per degree cell named after its south-west corner: 47_8.txt holds the towns at 47-48°N, 8-9°E.
+-- Tiles are uploaded by an admin; anyone can read them.
+
+insert into storage.buckets (id, name, public)
+values ('gazetteer', 'gazetteer', true)
+on conflict (id) do nothing;
+
+create policy "Public Read Gazetteer"
+on storage.objects for select
+using (bucket_id = 'gazetteer');
@@ -0,0 +1,5 @@
+-- COLUMN: Vehicle used for fuel estimates (mass, drag, frontal area, efficiency, ...)
+-- NULL means the default vehicle. Each activity's stats keep a copy of the vehicle its estimate was made with.
+
+alter table public.profiles
+add column if not exists vehicle jsonb;
@@ -0,0 +1,12 @@
+-- BUCKET: Road network tiles for map matching (src/lib/roadNetwork.ts)
+-- Drivable ways and their nodes from our OSM extract, as Overpass JSON ({"elements": [...]}),
+-- one file per 0.1° cell named after its south-west corner in tenths of a degree: 473_85.json.
+-- Tiles are uploaded by an admin; anyone can read them.
+
+insert into storage.buckets (id, name, public)
+values ('road-network', 'road-network', true)
+on conflict (id) do nothing;
+
+create policy "Public Read Road Network"
+on storage.objects for select
+using (bucket_id = 'road-network');
@@ -0,0 +1,179 @@
+/**
+ * Vehicle analysis profiles: the thresholds used by calculateStats / analyzeSegments /
+ * generateProcessedTrack. A van brakes "hard" long before a track car does, so these are
+ * chosen per activity and stored with it (activities.analysis_profile) as a full snapshot.
+ */
+
+// 'moving-average': separate SMAs for coordinates, speed and acceleration.
+// 'kalman': one constant-acceleration Kalman/RTS estimate of position, speed and acceleration.
+export type SmoothingMethod = 'moving-average' | 'kalman';
+
+// 'device': the altitude the GPS recorded. 'dem': sampled from a digital elevation model (src/lib/elevation.ts).
+export type ElevationSource = 'device' | 'dem';
+
+export interface AnalysisProfile {
+  id: string;
+  name: string;
+  smoothing: SmoothingMethod;
+  elevation: ElevationSource;
+  stopSpeedThreshold: number; // km/h - smoothed speed below this counts as stopped
+  hardAccelThreshold: number; // m/s²
+  hardBrakeThreshold: number; // m/s² (negative)
+  harshCorneringThreshold: number; // m/s² lateral, either direction
+  tightTurnAngle: number;     // degrees
+  hairpinAngle: number;       // degrees
+  // Plausible acceleration limit used to reject GPS jitter: launchAccelLimit at standstill,
+  // falling by accelLimitDecay per 100 km/h down to minAccelLimit
+  launchAccelLimit: number;   // m/s²
+  accelLimitDecay: number;    // m/s² per 100 km/h
+  minAccelLimit: number;      // m/s²
+  maxSpeed: number;           // km/h - faster smoothed speeds are treated as GPS errors
+}
+
+export type AnalysisProfileThreshold = Exclude<keyof AnalysisProfile, 'id' | 'name' | 'smoothing' | 'elevation'>;
+
+const CAR: AnalysisProfile = {
+  id: 'car',
+  name: 'Car',
+  smoothing: 'moving-average',
+  elevation: 'device',
+  stopSpeedThreshold: 3.0,
+  hardAccelThreshold: 2.5,
+  hardBrakeThreshold: -3.0,
+  harshCorneringThreshold: 4.0,
+  tightTurnAngle: 60,
+  hairpinAngle: 135,
+  launchAccelLimit: 9.0,
+  accelLimitDecay: 4.0,
+  minAccelLimit: 2.0,
+  maxSpeed: 200,
+};
+
+export const BUILT_IN_PROFILES: AnalysisProfile[] = [
+  CAR,
+  {
+    ...CAR,
+    id: 'motorcycle',
+    name: 'Motorcycle',
+    hardAccelThreshold: 3.5,
+    hardBrakeThreshold: -4.5,
+    harshCorneringThreshold: 6.0,
+    launchAccelLimit: 11.0,
+    minAccelLimit: 2.5,
+    maxSpeed: 300,
+  },
+  {
+    ...CAR,
+    id: 'van',
+    name: 'Van',
+    hardAccelThreshold: 2.0,
+    hardBrakeThreshold: -2.5,
+    harshCorneringThreshold: 3.0,
+    launchAccelLimit: 6.0,
+    accelLimitDecay: 3.5,
+    minAccelLimit: 1.5,
+    maxSpeed: 180,
+  },
+  {
+    ...CAR,
+    id: 'truck',
+    name: 'Truck',
+    stopSpeedThreshold: 2.0,
+    hardAccelThreshold: 1.2,
+    hardBrakeThreshold: -2.0,
+    harshCorneringThreshold: 2.0,
+    launchAccelLimit: 3.0,
+    accelLimitDecay: 2.0,
+    minAccelLimit: 0.8,
+    maxSpeed: 130,
+  },
+  {
+    ...CAR,
+    id: 'track',
+    name: 'Track car',
+    stopSpeedThreshold: 5.0,
+    hardAccelThreshold: 4.0,
+    hardBrakeThreshold: -8.0,
+    harshCorneringThreshold: 10.0,
+    launchAccelLimit: 12.0,
+    accelLimitDecay: 3.0,
+    minAccelLimit: 4.0,
+    maxSpeed: 320,
+  },
+];
+
+export const DEFAULT_ANALYSIS_PROFILE = CAR;
+
+// Editable fields, in display order
+export const PROFILE_SETTINGS: { key: AnalysisProfileThreshold; label: string; unit: string; step: number }[] = [
+  { key: 'stopSpeedThreshold', label: 'Stopped below', unit: 'km/h', step: 0.5 },
+  { key: 'hardAccelThreshold', label: 'Hard acceleration', unit: 'm/s²', step: 0.1 },
+  { key: 'hardBrakeThreshold', label: 'Hard braking', unit: 'm/s²', step: 0.1 },
+  { key: 'harshCorneringThreshold', label: 'Harsh cornering', unit: 'm/s²', step: 0.1 },
+  { key: 'tightTurnAngle', label: 'Tight turn', unit: '°', step: 5 },
+  { key: 'hairpinAngle', label: 'Hairpin', unit: '°', step: 5 },
+  { key: 'launchAccelLimit', label: 'Max launch accel', unit: 'm/s²', step: 0.5 },
+  { key: 'accelLimitDecay', label: 'Accel limit drop', unit: 'm/s² per 100 km/h', step: 0.5 },
+  { key: 'minAccelLimit', label: 'Min accel limit', unit: 'm/s²', step: 0.1 },
+  { key: 'maxSpeed', label: 'Max plausible speed', unit: 'km/h', step: 10 },
+];
+
+const CUSTOM_PROFILES_KEY = 'analysis_profiles';
+const DEFAULT_PROFILE_KEY = 'default_analysis_profile';
+
+// Acceleration limit at a given speed (the jitter filter in calculateRobustSpeeds)
+export function maxAccelForSpeed(profile: AnalysisProfile, speedKmh: number): number {
+  return Math.max(profile.minAccelLimit, profile.launchAccelLimit - (speedKmh / 100) * profile.accelLimitDecay);
+}
+
+/**
+ * Profile stored on an activity. Rows from before profiles existed have none and get the
+ * default; missing fields (older snapshots) are filled from it too.
+ */
+export function resolveAnalysisProfile(stored?: Partial<AnalysisProfile> | null): AnalysisProfile {
+  return stored ? { ...DEFAULT_ANALYSIS_PROFILE, ...stored } : DEFAULT_ANALYSIS_PROFILE;
+}
+
+export function sameThresholds(a: AnalysisProfile, b: AnalysisProfile): boolean {
+  return PROFILE_SETTINGS.every(({ key }) => a[key] === b[key]);
+}
+
+// Same thresholds, smoothing and elevation source (the name may differ) - decides whether cached analysis is still valid
+export function sameAnalysisSettings(a: AnalysisProfile, b: AnalysisProfile): boolean {
+  return sameThresholds(a, b) && a.smoothing === b.smoothing && a.elevation === b.elevation;
+}
+
+// --- Custom profiles and the upload default (per browser) ---
+
+export function loadCustomProfiles(): AnalysisProfile[] {
+  try {
+    return JSON.parse(localStorage.getItem(CUSTOM_PROFILES_KEY) || '[]').map(resolveAnalysisProfile);
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomProfile(profile: AnalysisProfile): AnalysisProfile[] {
+  const profiles = [...loadCustomProfiles().filter(p => p.id !== profile.id), profile];
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+export function deleteCustomProfile(id: string): AnalysisProfile[] {
+  const profiles = loadCustomProfiles().filter(p => p.id !== id);
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+export const getAnalysisProfiles = () => [...BUILT_IN_PROFILES, ...loadCustomProfiles()];
+
+export const isBuiltInProfile = (id: string) => BUILT_IN_PROFILES.some(p => p.id === id);
+
+export function loadDefaultProfile(): AnalysisProfile {
+  const id = localStorage.getItem(DEFAULT_PROFILE_KEY);
+  return getAnalysisProfiles().find(p => p.id === id) || DEFAULT_ANALYSIS_PROFILE;
+}
+
+export function saveDefaultProfile(id: string) {
+  localStorage.setItem(DEFAULT_PROFILE_KEY, id);
+}
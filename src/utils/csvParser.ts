@@ -0,0 +1,260 @@
+import { GPXPoint } from "./gpxParser";
+
+export type CSVSpeedUnit = 'mps' | 'kmh' | 'mph';
+
+// Which CSV column feeds which point field. Columns are referenced by header name.
+export interface CSVColumnMapping {
+  lat: string;
+  lon: string;
+  time?: string;
+  ele?: string;
+  speed?: string; // GPS speed, stored on GPXPoint.speed
+  speedUnit: CSVSpeedUnit;
+  channels: Record<string, string>; // channel key -> column, kept on GPXPoint.channels
+}
+
+export interface SavedCSVMapping {
+  name: string;
+  headers: string[]; // headers of the file the mapping was created from
+  mapping: CSVColumnMapping;
+}
+
+export interface CSVTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Well-known OBD channels, recognised by header so Torque-style logs map themselves
+export const CSV_CHANNELS: { key: string; label: string; pattern: RegExp }[] = [
+  { key: 'rpm', label: 'Engine RPM', pattern: /\brpm\b/i },
+  { key: 'throttle', label: 'Throttle position', pattern: /throttle/i },
+  { key: 'coolantTemp', label: 'Coolant temperature', pattern: /coolant/i },
+  { key: 'obdSpeed', label: 'OBD speed (km/h)', pattern: /speed\s*\(obd\)|obd.*speed/i },
+];
+
+const SAVED_MAPPINGS_KEY = 'csv_column_mappings';
+
+const SPEED_TO_MPS: Record<CSVSpeedUnit, number> = {
+  mps: 1,
+  kmh: 1 / 3.6,
+  mph: 0.44704,
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) =>
+    headerLine.split(d).length > headerLine.split(best).length ? d : best
+  );
+}
+
+// Splits one CSV line, honouring double-quoted fields ("a ""quoted"" value")
+function splitLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (inQuotes) {
+      if (c === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else field += c;
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Splits CSV text into a header row and data rows.
+ * Torque repeats the header whenever logging restarts, so repeated header rows are dropped.
+ */
+export function readCSVTable(content: string): CSVTable {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim() !== '');
+  if (lines.length === 0) return { headers: [], rows: [] };
+
+  const delimiter = detectDelimiter(lines[0]);
+  const headers = splitLine(lines[0], delimiter);
+  const headerLine = headers.join('\u0000');
+
+  const rows = lines
+    .slice(1)
+    .map(l => splitLine(l, delimiter))
+    .filter(r => r.join('\u0000') !== headerLine);
+
+  return { headers, rows };
+}
+
+function findColumn(headers: string[], pattern: RegExp, exclude: string[] = []): string | undefined {
+  return headers.find(h => pattern.test(h) && !exclude.includes(h));
+}
+
+/**
+ * Guesses a mapping from header names. Handles Torque Pro exports ("Latitude", "GPS Time",
+ * "GPS Speed (Meters/second)", "Engine RPM(rpm)", ...) and most generic loggers.
+ * lat/lon are empty strings when no column looks like a coordinate.
+ */
+export function guessCSVMapping(headers: string[]): CSVColumnMapping {
+  const lat = findColumn(headers, /^lat(itude)?\b/i) || '';
+  const lon = findColumn(headers, /^(lon|lng|long)(gitude)?\b/i) || '';
+  const time =
+    findColumn(headers, /gps\s*time/i) ||
+    findColumn(headers, /device\s*time/i) ||
+    findColumn(headers, /time|date/i);
+  const ele = findColumn(headers, /^(altitude|elevation|alt|ele)\b/i);
+
+  const channels: Record<string, string> = {};
+  for (const channel of CSV_CHANNELS) {
+    const column = findColumn(headers, channel.pattern, Object.values(channels));
+    if (column) channels[channel.key] = column;
+  }
+
+  // GPS speed, as opposed to the OBD speed channel
+  const speed = findColumn(headers, /speed/i, channels.obdSpeed ? [channels.obdSpeed] : []);
+  const speedUnit: CSVSpeedUnit =
+    speed && /m\/s|meters\s*\/\s*second/i.test(speed) ? 'mps' :
+      speed && /mph/i.test(speed) ? 'mph' : 'kmh';
+
+  return { lat, lon, time, ele, speed, speedUnit, channels };
+}
+
+// Channel key for a column kept without a well-known meaning: "Fuel Trim Bank 1(%)" -> "fuel_trim_bank_1"
+export function channelKeyForColumn(column: string): string {
+  const key = column
+    .replace(/\(.*?\)/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^[a-z]/.test(key) ? key : `ch_${key}`;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '' || value === '-') return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+}
+
+/**
+ * Parses the timestamp formats seen in OBD/GPS logger exports:
+ * ISO 8601, Unix seconds/milliseconds, Torque's "GPS Time" ("Sat Mar 23 14:52:01 GMT+01:00 2019")
+ * and Torque's "Device Time" ("23-Mar-2019 14:52:01.123", local time).
+ */
+export function parseCSVTime(value: string | undefined): Date | undefined {
+  if (!value || value === '-') return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const n = parseFloat(value);
+    return new Date(n > 1e11 ? n : n * 1000);
+  }
+
+  const torqueGps = value.match(/^\w{3} (\w{3}) (\d{1,2}) (\d{2}:\d{2}:\d{2}(?:\.\d+)?) (?:GMT|UTC)([+-]\d{2}):?(\d{2}) (\d{4})$/);
+  if (torqueGps) {
+    const [, mon, day, clock, tzH, tzM, year] = torqueGps;
+    const month = String(MONTHS.indexOf(mon.toLowerCase()) + 1).padStart(2, '0');
+    return new Date(`${year}-${month}-${day.padStart(2, '0')}T${clock}${tzH}:${tzM}`);
+  }
+
+  const torqueDevice = value.match(/^(\d{1,2})-(\w{3})-(\d{4}) (\d{1,2}):(\d{2}):(\d{2})(?:\.(\d+))?$/);
+  if (torqueDevice) {
+    const [, day, mon, year, h, m, s, frac] = torqueDevice;
+    const ms = frac ? Math.round(parseFloat(`0.${frac}`) * 1000) : 0;
+    return new Date(+year, MONTHS.indexOf(mon.toLowerCase()), +day, +h, +m, +s, ms);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parses a CSV telemetry log (Torque Pro, Car Scanner, generic GPS loggers) into GPXPoints
+ * using the given column mapping. Mapped channels are kept on `GPXPoint.channels`.
+ * Rows without a usable position (Torque writes "-" before the first fix) are skipped.
+ */
+export function parseCSV(content: string, mapping?: CSVColumnMapping): GPXPoint[] {
+  const { headers, rows } = readCSVTable(content);
+  mapping = mapping || guessCSVMapping(headers);
+
+  const index = (column?: string) => (column ? headers.indexOf(column) : -1);
+  const latIdx = index(mapping.lat);
+  const lonIdx = index(mapping.lon);
+  if (latIdx < 0 || lonIdx < 0) throw new Error('CSV has no latitude/longitude columns');
+
+  const timeIdx = index(mapping.time);
+  const eleIdx = index(mapping.ele);
+  const speedIdx = index(mapping.speed);
+  const speedFactor = SPEED_TO_MPS[mapping.speedUnit];
+  const channelIdx = Object.entries(mapping.channels)
+    .map(([key, column]) => [key, index(column)] as const)
+    .filter(([, i]) => i >= 0);
+
+  const points: GPXPoint[] = [];
+  for (const row of rows) {
+    const lat = parseNumber(row[latIdx]);
+    const lon = parseNumber(row[lonIdx]);
+    if (lat === undefined || lon === undefined || (lat === 0 && lon === 0)) continue;
+
+    const speed = speedIdx >= 0 ? parseNumber(row[speedIdx]) : undefined;
+    const channels: Record<string, number> = {};
+    for (const [key, i] of channelIdx) {
+      const value = parseNumber(row[i]);
+      if (value !== undefined) channels[key] = value;
+    }
+
+    points.push({
+      lat,
+      lon,
+      ele: eleIdx >= 0 ? parseNumber(row[eleIdx]) : undefined,
+      time: timeIdx >= 0 ? parseCSVTime(row[timeIdx]) : undefined,
+      speed: speed !== undefined ? speed * speedFactor : undefined,
+      channels: Object.keys(channels).length > 0 ? channels : undefined,
+    });
+  }
+  return points;
+}
+
+// --- Saved mappings (per browser) ---
+
+export function loadSavedCSVMappings(): SavedCSVMapping[] {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_MAPPINGS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveCSVMapping(saved: SavedCSVMapping): SavedCSVMapping[] {
+  const mappings = [saved, ...loadSavedCSVMappings().filter(m => m.name !== saved.name)];
+  localStorage.setItem(SAVED_MAPPINGS_KEY, JSON.stringify(mappings));
+  return mappings;
+}
+
+export function deleteSavedCSVMapping(name: string): SavedCSVMapping[] {
+  const mappings = loadSavedCSVMappings().filter(m => m.name !== name);
+  localStorage.setItem(SAVED_MAPPINGS_KEY, JSON.stringify(mappings));
+  return mappings;
+}
+
+/**
+ * Picks the saved mapping for a file: an exact header match first, otherwise the most recent
+ * mapping whose columns all exist in the file (Torque adds/removes PIDs between sessions).
+ */
+export function findSavedCSVMapping(headers: string[], mappings = loadSavedCSVMappings()): SavedCSVMapping | undefined {
+  const signature = headers.join('\u0000');
+  const exact = mappings.find(m => m.headers.join('\u0000') === signature);
+  if (exact) return exact;
+
+  return mappings.find(({ mapping }) => {
+    const columns = [mapping.lat, mapping.lon, mapping.time, mapping.ele, mapping.speed, ...Object.values(mapping.channels)];
+    return columns.every(c => !c || headers.includes(c));
+  });
+}
@@ -0,0 +1,294 @@
+import { GPXPoint } from "./gpxParser";
+
+/**
+ * Digital elevation model (DEM) tiles for correcting GPS altitude. Tiles cover one degree of
+ * latitude and longitude and are named after their south-west corner (N47E008, S12W077). Two
+ * formats are read: SRTM-style HGT (a square grid of big-endian 16-bit heights) and single-band
+ * GeoTIFF (e.g. Copernicus DEM), uncompressed or deflate-compressed.
+ */
+
+export interface DEMTile {
+  north: number;   // latitude of the first row of samples
+  west: number;    // longitude of the first column of samples
+  latStep: number; // degrees between rows
+  lonStep: number; // degrees between columns
+  width: number;
+  height: number;
+  data: ArrayLike<number>; // row-major, north to south
+  noData: number | null;   // voids
+}
+
+const HGT_VOID = -32768;
+
+// Name of the tile containing a position
+export function demTileName(lat: number, lon: number): string {
+  const south = Math.floor(lat);
+  const west = Math.floor(lon);
+  const latPart = `${south < 0 ? 'S' : 'N'}${String(Math.abs(south)).padStart(2, '0')}`;
+  const lonPart = `${west < 0 ? 'W' : 'E'}${String(Math.abs(west)).padStart(3, '0')}`;
+  return latPart + lonPart;
+}
+
+// SRTM HGT: 1201² (3 arc-second) or 3601² (1 arc-second) samples, edges shared with neighbouring tiles
+export function parseHGT(buffer: ArrayBuffer, tileName: string): DEMTile {
+  const match = /^([NS])(\d{2})([EW])(\d{3})/i.exec(tileName);
+  if (!match) throw new Error(`Invalid HGT tile name: ${tileName}`);
+  const size = Math.sqrt(buffer.byteLength / 2);
+  if (!Number.isInteger(size)) throw new Error(`Invalid HGT tile size: ${buffer.byteLength} bytes`);
+
+  const south = parseInt(match[2], 10) * (match[1].toUpperCase() === 'S' ? -1 : 1);
+  const west = parseInt(match[4], 10) * (match[3].toUpperCase() === 'W' ? -1 : 1);
+  const view = new DataView(buffer);
+  const data = new Int16Array(size * size);
+  for (let i = 0; i < data.length; i++) data[i] = view.getInt16(i * 2, false);
+
+  return { north: south + 1, west, latStep: 1 / (size - 1), lonStep: 1 / (size - 1), width: size, height: size, data, noData: HGT_VOID };
+}
+
+// --- GeoTIFF ---
+
+const TAG = {
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  Predictor: 317,
+  TileWidth: 322,
+  TileLength: 323,
+  TileOffsets: 324,
+  TileByteCounts: 325,
+  SampleFormat: 339,
+  ModelPixelScale: 33550,
+  ModelTiepoint: 33922,
+  GeoKeyDirectory: 34735,
+  GDALNoData: 42113,
+} as const;
+
+const GEO_KEY_RASTER_TYPE = 1025;
+const RASTER_PIXEL_IS_POINT = 2;
+
+// Bytes per value of the TIFF field types used here
+const FIELD_TYPE_SIZE: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 11: 4, 12: 8 };
+
+type TagValues = Map<number, number[] | string>;
+
+function readTags(view: DataView, little: boolean): TagValues {
+  const tags: TagValues = new Map();
+  const ifdOffset = view.getUint32(4, little);
+  const count = view.getUint16(ifdOffset, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    const size = FIELD_TYPE_SIZE[type];
+    if (!size) continue;
+    // Values that fit in four bytes are stored in the entry itself
+    const offset = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < valueCount - 1; j++) text += String.fromCharCode(view.getUint8(offset + j));
+      tags.set(tag, text);
+      continue;
+    }
+    const values: number[] = [];
+    for (let j = 0; j < valueCount; j++) {
+      const at = offset + j * size;
+      switch (type) {
+        case 1: values.push(view.getUint8(at)); break;
+        case 3: values.push(view.getUint16(at, little)); break;
+        case 4: values.push(view.getUint32(at, little)); break;
+        case 11: values.push(view.getFloat32(at, little)); break;
+        case 12: values.push(view.getFloat64(at, little)); break;
+      }
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Undo the horizontal differencing predictors, per row of a strip or tile
+function unpredict(bytes: Uint8Array, predictor: number, rowWidth: number, bytesPerSample: number, little: boolean) {
+  const rowBytes = rowWidth * bytesPerSample;
+  const rows = Math.floor(bytes.length / rowBytes);
+
+  if (predictor === 2) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 1; c < rowWidth; c++) {
+        const at = r * rowBytes + c * bytesPerSample;
+        if (bytesPerSample === 2) view.setUint16(at, view.getUint16(at - 2, little) + view.getUint16(at, little), little);
+        else view.setUint32(at, view.getUint32(at - 4, little) + view.getUint32(at, little), little);
+      }
+    }
+  } else if (predictor === 3) {
+    // Floating point: bytes are differenced, then stored as planes of most to least significant byte
+    for (let r = 0; r < rows; r++) {
+      const row = bytes.subarray(r * rowBytes, (r + 1) * rowBytes);
+      for (let i = 1; i < rowBytes; i++) row[i] = (row[i] + row[i - 1]) & 0xff;
+      const planes = row.slice();
+      for (let c = 0; c < rowWidth; c++) {
+        for (let b = 0; b < bytesPerSample; b++) {
+          // Planes are big-endian; write back in the file's byte order
+          const target = little ? bytesPerSample - 1 - b : b;
+          row[c * bytesPerSample + target] = planes[b * rowWidth + c];
+        }
+      }
+    }
+  }
+}
+
+export async function parseGeoTIFF(buffer: ArrayBuffer): Promise<DEMTile> {
+  const view = new DataView(buffer);
+  const byteOrder = view.getUint16(0, false);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) throw new Error("Not a TIFF file");
+  const little = byteOrder === 0x4949;
+  if (view.getUint16(2, little) !== 42) throw new Error("BigTIFF is not supported");
+
+  const tags = readTags(view, little);
+  const num = (tag: number, fallback?: number) => (tags.get(tag) as number[] | undefined)?.[0] ?? fallback;
+  const list = (tag: number) => (tags.get(tag) as number[] | undefined) ?? [];
+
+  const width = num(TAG.ImageWidth)!;
+  const height = num(TAG.ImageLength)!;
+  if (num(TAG.SamplesPerPixel, 1) !== 1) throw new Error("Only single-band GeoTIFFs are supported");
+  const bits = num(TAG.BitsPerSample, 16)!;
+  const sampleFormat = num(TAG.SampleFormat, 1)!; // 1 unsigned, 2 signed, 3 float
+  const compression = num(TAG.Compression, 1)!;
+  const predictor = num(TAG.Predictor, 1)!;
+  if (compression !== 1 && compression !== 8 && compression !== 32946) {
+    throw new Error(`Unsupported GeoTIFF compression: ${compression}`);
+  }
+  if (!((bits === 16 && sampleFormat !== 3) || (bits === 32 && sampleFormat === 3))) {
+    throw new Error(`Unsupported GeoTIFF samples: ${bits}-bit format ${sampleFormat}`);
+  }
+
+  // Data is stored in tiles or, failing that, strips (tiles as wide as the image)
+  const tiled = tags.has(TAG.TileOffsets);
+  const blockWidth = tiled ? num(TAG.TileWidth)! : width;
+  const blockHeight = tiled ? num(TAG.TileLength)! : num(TAG.RowsPerStrip, height)!;
+  const offsets = list(tiled ? TAG.TileOffsets : TAG.StripOffsets);
+  const byteCounts = list(tiled ? TAG.TileByteCounts : TAG.StripByteCounts);
+  const blocksAcross = Math.ceil(width / blockWidth);
+  const bytesPerSample = bits / 8;
+
+  const data = new Float32Array(width * height);
+  for (let b = 0; b < offsets.length; b++) {
+    let bytes = new Uint8Array(buffer, offsets[b], byteCounts[b]);
+    bytes = compression === 1 ? bytes.slice() : await inflate(bytes);
+    unpredict(bytes, predictor, blockWidth, bytesPerSample, little);
+
+    const blockView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const left = (b % blocksAcross) * blockWidth;
+    const top = Math.floor(b / blocksAcross) * blockHeight;
+    for (let r = 0; r < blockHeight && top + r < height; r++) {
+      for (let c = 0; c < blockWidth && left + c < width; c++) {
+        const at = (r * blockWidth + c) * bytesPerSample;
+        if (at + bytesPerSample > bytes.length) break;
+        data[(top + r) * width + left + c] = sampleFormat === 3
+          ? blockView.getFloat32(at, little)
+          : sampleFormat === 2 ? blockView.getInt16(at, little) : blockView.getUint16(at, little);
+      }
+    }
+  }
+
+  // Georeference: the tiepoint ties raster (i, j) to model (x, y); the scale is degrees per pixel
+  const [i, j, , x, y] = list(TAG.ModelTiepoint);
+  const [scaleX, scaleY] = list(TAG.ModelPixelScale);
+  if (scaleX === undefined || x === undefined) throw new Error("GeoTIFF has no georeference");
+  const geoKeys = list(TAG.GeoKeyDirectory);
+  let pixelIsPoint = false;
+  for (let k = 4; k + 3 < geoKeys.length; k += 4) {
+    if (geoKeys[k] === GEO_KEY_RASTER_TYPE) pixelIsPoint = geoKeys[k + 3] === RASTER_PIXEL_IS_POINT;
+  }
+  // Samples describe pixel centres unless the raster says the tiepoint is already one
+  const centre = pixelIsPoint ? 0 : 0.5;
+  const noDataText = tags.get(TAG.GDALNoData);
+
+  return {
+    north: y - (j - centre) * scaleY,
+    west: x - (i - centre) * scaleX,
+    latStep: scaleY,
+    lonStep: scaleX,
+    width,
+    height,
+    data,
+    noData: typeof noDataText === 'string' && noDataText.trim() !== '' ? parseFloat(noDataText) : null,
+  };
+}
+
+// --- Sampling ---
+
+// Bilinear interpolation between the four samples around a position; null outside the tile or next to a void
+export function sampleElevation(tile: DEMTile, lat: number, lon: number): number | null {
+  let x = (lon - tile.west) / tile.lonStep;
+  let y = (tile.north - lat) / tile.latStep;
+  // Pixel-centred rasters stop half a pixel short of the tile edge: use the edge samples there
+  if (x < -0.5 || y < -0.5 || x > tile.width - 0.5 || y > tile.height - 0.5) return null;
+  x = Math.min(Math.max(x, 0), tile.width - 1);
+  y = Math.min(Math.max(y, 0), tile.height - 1);
+
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, tile.width - 1);
+  const y1 = Math.min(y0 + 1, tile.height - 1);
+  const corners = [
+    tile.data[y0 * tile.width + x0],
+    tile.data[y0 * tile.width + x1],
+    tile.data[y1 * tile.width + x0],
+    tile.data[y1 * tile.width + x1],
+  ];
+  if (corners.some(value => Number.isNaN(value) || value === tile.noData)) return null;
+
+  const fx = x - x0;
+  const fy = y - y0;
+  const top = corners[0] * (1 - fx) + corners[1] * fx;
+  const bottom = corners[2] * (1 - fx) + corners[3] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/**
+ * Points with `ele` taken from the DEM. Returns null unless every point is covered: mixing device
+ * and model altitude would turn the offset between them into climbs and descents.
+ */
+export function applyElevationModel(points: GPXPoint[], tiles: Map<string, DEMTile | null>): GPXPoint[] | null {
+  const corrected: GPXPoint[] = [];
+  for (const point of points) {
+    const tile = tiles.get(demTileName(point.lat, point.lon));
+    const ele = tile ? sampleElevation(tile, point.lat, point.lon) : null;
+    if (ele === null) return null;
+    corrected.push({ ...point, ele });
+  }
+  return corrected;
+}
+
+// A tile file as downloaded (src/lib/elevation.ts), decoded by correctElevation in the analysis worker
+export interface DEMFile {
+  format: 'hgt' | 'tif';
+  data: Blob;
+}
+
+// applyElevationModel with the tiles decoded from their files; null files are cells without a tile
+export async function correctElevation(points: GPXPoint[], files: Record<string, DEMFile | null>): Promise<GPXPoint[] | null> {
+  const tiles = new Map<string, DEMTile | null>();
+  for (const [name, file] of Object.entries(files)) {
+    if (!file) {
+      tiles.set(name, null);
+      continue;
+    }
+    const buffer = await file.data.arrayBuffer();
+    tiles.set(name, file.format === 'hgt' ? parseHGT(buffer, name) : await parseGeoTIFF(buffer));
+  }
+  return applyElevationModel(points, tiles);
+}
@@ -0,0 +1,171 @@
+import { GPXPoint } from "./gpxParser";
+
+// --- FIT PROTOCOL CONSTANTS ---
+const FIT_EPOCH_OFFSET = 631065600; // seconds between 1970-01-01 and the FIT epoch (1989-12-31)
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+const RECORD_MESSAGE = 20; // global message number of 'record'
+
+// Record message field numbers
+const FIELD_POSITION_LAT = 0;
+const FIELD_POSITION_LONG = 1;
+const FIELD_ALTITUDE = 2;
+const FIELD_SPEED = 6;
+const FIELD_ENHANCED_SPEED = 73;
+const FIELD_ENHANCED_ALTITUDE = 78;
+const FIELD_TIMESTAMP = 253;
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalMessage: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+/**
+ * Reads an integer field. Returns null for the FIT "invalid" sentinel (all bits set,
+ * or 0x7F.. for signed types) and for sizes we don't decode.
+ */
+function readField(view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean): number | null {
+  const signed = (field.baseType & 0x1f) === 0x01 || (field.baseType & 0x1f) === 0x03 || (field.baseType & 0x1f) === 0x05;
+  switch (field.size) {
+    case 1: {
+      const value = signed ? view.getInt8(offset) : view.getUint8(offset);
+      return value === (signed ? 0x7f : 0xff) ? null : value;
+    }
+    case 2: {
+      const value = signed ? view.getInt16(offset, littleEndian) : view.getUint16(offset, littleEndian);
+      return value === (signed ? 0x7fff : 0xffff) ? null : value;
+    }
+    case 4: {
+      const value = signed ? view.getInt32(offset, littleEndian) : view.getUint32(offset, littleEndian);
+      return value === (signed ? 0x7fffffff : 0xffffffff) ? null : value;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decodes an ANT/Garmin FIT activity file into GPXPoints.
+ * Only 'record' messages are used: position (semicircles), altitude, timestamp and the
+ * device-reported speed. Records without a position fix are skipped.
+ */
+export function parseFIT(buffer: ArrayBuffer): GPXPoint[] {
+  const view = new DataView(buffer);
+  const points: GPXPoint[] = [];
+  let fileStart = 0;
+
+  // Chained FIT files are concatenated, each with its own header and CRC
+  while (fileStart + 12 <= buffer.byteLength) {
+    const headerSize = view.getUint8(fileStart);
+    const dataSize = view.getUint32(fileStart + 4, true);
+    const signature = String.fromCharCode(
+      view.getUint8(fileStart + 8), view.getUint8(fileStart + 9),
+      view.getUint8(fileStart + 10), view.getUint8(fileStart + 11)
+    );
+    if (signature !== ".FIT") {
+      if (fileStart === 0) throw new Error("Not a FIT file");
+      break;
+    }
+
+    const definitions = new Map<number, MessageDefinition>();
+    let lastTimestamp = 0;
+    let offset = fileStart + headerSize;
+    const end = Math.min(offset + dataSize, buffer.byteLength);
+
+    while (offset < end) {
+      const recordHeader = view.getUint8(offset++);
+      let localMessage: number;
+      let timeOffset: number | null = null;
+
+      if (recordHeader & 0x80) {
+        // Compressed timestamp header (always a data message)
+        localMessage = (recordHeader >> 5) & 0x03;
+        timeOffset = recordHeader & 0x1f;
+      } else {
+        localMessage = recordHeader & 0x0f;
+
+        if (recordHeader & 0x40) {
+          // Definition message
+          const hasDeveloperData = (recordHeader & 0x20) !== 0;
+          const littleEndian = view.getUint8(offset + 1) === 0;
+          const globalMessage = view.getUint16(offset + 2, littleEndian);
+          const fieldCount = view.getUint8(offset + 4);
+          offset += 5;
+
+          const fields: FieldDefinition[] = [];
+          for (let i = 0; i < fieldCount; i++) {
+            fields.push({
+              num: view.getUint8(offset),
+              size: view.getUint8(offset + 1),
+              baseType: view.getUint8(offset + 2),
+            });
+            offset += 3;
+          }
+
+          let developerDataSize = 0;
+          if (hasDeveloperData) {
+            const developerFieldCount = view.getUint8(offset++);
+            for (let i = 0; i < developerFieldCount; i++) {
+              developerDataSize += view.getUint8(offset + 1);
+              offset += 3;
+            }
+          }
+
+          definitions.set(localMessage, { globalMessage, littleEndian, fields, developerDataSize });
+          continue;
+        }
+      }
+
+      // Data message
+      const definition = definitions.get(localMessage);
+      if (!definition) throw new Error(`FIT data message without definition (local type ${localMessage})`);
+
+      const values = new Map<number, number | null>();
+      for (const field of definition.fields) {
+        if (definition.globalMessage === RECORD_MESSAGE || field.num === FIELD_TIMESTAMP) {
+          values.set(field.num, readField(view, offset, field, definition.littleEndian));
+        }
+        offset += field.size;
+      }
+      offset += definition.developerDataSize;
+
+      let timestamp = values.get(FIELD_TIMESTAMP) ?? null;
+      if (timestamp !== null) {
+        lastTimestamp = timestamp;
+      } else if (timeOffset !== null) {
+        // Rebuild the full timestamp from the 5-bit rolling offset
+        timestamp = (lastTimestamp & ~0x1f) + timeOffset;
+        if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20;
+        lastTimestamp = timestamp;
+      }
+
+      if (definition.globalMessage !== RECORD_MESSAGE) continue;
+
+      const latSemicircles = values.get(FIELD_POSITION_LAT);
+      const lonSemicircles = values.get(FIELD_POSITION_LONG);
+      if (latSemicircles == null || lonSemicircles == null) continue;
+
+      const altitude = values.get(FIELD_ENHANCED_ALTITUDE) ?? values.get(FIELD_ALTITUDE) ?? null;
+      const speed = values.get(FIELD_ENHANCED_SPEED) ?? values.get(FIELD_SPEED) ?? null;
+
+      points.push({
+        lat: latSemicircles * SEMICIRCLES_TO_DEGREES,
+        lon: lonSemicircles * SEMICIRCLES_TO_DEGREES,
+        ele: altitude !== null ? altitude / 5 - 500 : undefined, // scale 5, offset 500 m
+        time: timestamp !== null ? new Date((timestamp + FIT_EPOCH_OFFSET) * 1000) : undefined,
+        speed: speed !== null ? speed / 1000 : undefined, // scale 1000 -> m/s
+      });
+    }
+
+    fileStart = end + 2; // skip file CRC
+  }
+
+  return points;
+}
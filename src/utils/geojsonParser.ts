@@ -0,0 +1,63 @@
+import { GPXPoint } from "./gpxParser";
+
+type Position = number[]; // [lon, lat, ele?]
+
+interface GeoJSONGeometry {
+  type: string;
+  coordinates?: Position[] | Position[][];
+  geometries?: GeoJSONGeometry[];
+}
+
+interface GeoJSONFeature {
+  type: "Feature";
+  geometry: GeoJSONGeometry | null;
+  properties?: { coordTimes?: string[] | string[][] } | null;
+}
+
+function linePoints(coordinates: Position[], times?: string[]): GPXPoint[] {
+  return coordinates
+    .map((c, i) => ({
+      lon: c[0],
+      lat: c[1],
+      ele: c.length > 2 ? c[2] : undefined,
+      time: times?.[i] ? new Date(times[i]) : undefined,
+    }))
+    .filter(p => typeof p.lat === "number" && typeof p.lon === "number");
+}
+
+// LineStrings pair with a flat coordTimes array, MultiLineStrings with one array per line
+function geometryLines(geometry: GeoJSONGeometry | null, coordTimes?: string[] | string[][]): GPXPoint[][] {
+  if (!geometry) return [];
+  switch (geometry.type) {
+    case "LineString":
+      return [linePoints(geometry.coordinates as Position[], coordTimes as string[] | undefined)];
+    case "MultiLineString":
+      return (geometry.coordinates as Position[][]).map((line, i) =>
+        linePoints(line, (coordTimes as string[][] | undefined)?.[i])
+      );
+    case "GeometryCollection":
+      return (geometry.geometries || []).flatMap(g => geometryLines(g));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Parses GeoJSON (FeatureCollection, Feature or bare geometry) into GPXPoints.
+ * Only line geometries are used, one segment per line; timestamps come from the `coordTimes` property
+ * written by togeojson / Mapbox exports.
+ */
+export function parseGeoJSON(content: string): GPXPoint[] {
+  const json = JSON.parse(content);
+
+  const features: GeoJSONFeature[] =
+    json.type === "FeatureCollection" ? json.features :
+      json.type === "Feature" ? [json] :
+        [{ type: "Feature", geometry: json, properties: null }];
+
+  // Each line is its own segment, so separate lines are never joined
+  return features
+    .flatMap(f => geometryLines(f.geometry, f.properties?.coordTimes))
+    .filter(line => line.length > 0)
+    .flatMap((line, segment) => line.map(p => ({ ...p, segment })));
+}
@@ -1,18 +1,29 @@
+import { XmlElement, parseXML } from "./xmlParser";
+import { AnalysisProfile, DEFAULT_ANALYSIS_PROFILE, maxAccelForSpeed } from "./analysisProfiles";
+import { KalmanEstimate, kalmanSmoothTrack } from "./kalmanSmoother";
+import { DEFAULT_VEHICLE, DriveStep, EnergyEstimate, FuelEstimate, VehicleSpec, batteryEnergy, estimateEnergy, estimateFuel, isElectric } from "./vehicleModel";
+import { TrackPlaces } from "./reverseGeocoding";
+import { RoadRun } from "./mapMatching";
+
 export interface GPXPoint {
   lat: number;
   lon: number;
   ele?: number;
   time?: Date;
+  speed?: number; // m/s, as reported by the device (not derived from positions)
+  course?: number; // degrees true, as reported by the device
+  fix?: number; // NMEA GGA fix quality (0 = none, 1 = GPS, 2 = DGPS, ...)
+  hdop?: number;
+  satellites?: number;
+  channels?: Record<string, number>; // extra telemetry from CSV/OBD logs (rpm, throttle, ...)
+  segment?: number; // index of the <trkseg>/track the point came from; segments are never joined
 }
 
 // --- CONFIGURATION CONSTANTS ---
 export const SPEED_SMOOTHING_WINDOW = 5;
 export const ACCEL_SMOOTHING_WINDOW = 3; // Unified from 5/3 to 3 for responsiveness
 
-// Thresholds
-export const STOP_SPEED_THRESHOLD = 3.0; // km/h
-export const HARD_ACCEL_THRESHOLD = 2.5; // m/s^2
-export const HARD_BRAKE_THRESHOLD = -3.0; // m/s^2
+// Thresholds (stop speed, hard accel/brake, turn angles, accel limit and max speed come from the AnalysisProfile)
 export const CRUISING_THRESHOLD = 0.4;   // m/s^2 (±0.4 is cruising)
 
 // Gap Filtering
@@ -21,10 +32,18 @@ export const MIN_GAP_DURATION = 5.0; // Only filter if gap is > 5 seconds
 export const GAP_BUFFER_SECONDS = 10.0; // Ignore events ±10s around large gaps (Reduced from 30s)
 export const CANCELLATION_WINDOW = 30.0; // Cancel Accel/Brake pairs within 30s
 
+// Lateral Acceleration
+export const MAX_LATERAL_ACCEL = 15.0; // m/s² (~1.5 g) - above this the curvature is GPS noise
+export const HARSH_CORNERING_MERGE_WINDOW = 10.0; // s - readings this close together are one event
+
+// Stop Classification
+export const MIN_STOP_DURATION = 10.0; // s - shorter standstills aren't counted as stops
+export const REST_BREAK_DURATION = 300.0; // s - stops this long are rest breaks
+export const CONGESTION_GAP_TIME = 60.0; // s - stops this close together (with a crawl between) are a queue
+export const CONGESTION_CRAWL_SPEED = 20.0; // km/h - max speed between two queued stops
+
 // Turn Detection Thresholds
 export const MIN_TURN_DISTANCE = 0.015; // km (15 meters) - minimum distance for a turn to be considered real
-export const TIGHT_TURN_ANGLE = 60; // degrees - angle threshold for tight turn
-export const HAIRPIN_ANGLE = 135; // degrees - angle threshold for hairpin
 export const TURN_DENSITY_THRESHOLD = 0.6; // deg/meter - minimum sharpness for turn classification
 export const NET_HEADING_CHANGE_MIN = 30; // degrees - minimum net heading change to avoid zig-zag false positives
 export const MICRO_JITTER_THRESHOLD = 1.0; // degrees - ignore bearing changes smaller than this
@@ -33,12 +52,16 @@ export const STRAIGHT_FLUSH_DISTANCE = 0.025; // km - distance of straight trave
 export const MIN_STRAIGHT_SECTION = 0.02; // km - minimum distance to count as straight section
 
 // Speed & Distance Thresholds
-export const MAX_SPEED_CAP = 200; // km/h - sanity cap for max speed
 export const MIN_DISTANCE_FOR_BEARING = 0.002; // km - minimum distance to calculate bearing
 export const MIN_DISTANCE_FOR_GRADIENT = 0.001; // km - minimum distance for gradient calculation
 export const MIN_DISTANCE_FOR_STEEP = 0.005; // km - minimum distance for steep grade calculation
 export const MIN_ELEVATION_FOR_STEEP = 0.5; // meters - minimum elevation change for steep grade
 
+// Fix Quality (for points carrying HDOP / satellite count)
+export const GOOD_FIX_HDOP = 2.0; // HDOP at or below this is trusted fully
+export const POOR_FIX_HDOP = 5.0; // HDOP above this: the position is not used for speed
+export const MIN_FIX_SATELLITES = 4; // fewer satellites than this: the position is not used for speed
+
 // Gradient Classification
 export const CLIMBING_GRADE = 1.0; // % grade threshold for climbing
 export const DESCENDING_GRADE = -1.0; // % grade threshold for descending
@@ -61,6 +84,8 @@ export interface GPXStats {
   elevationGain: number; // in meters
   pointCount: number;
   stopPoints?: [number, number][];
+  stops?: Stop[];
+  breakTime?: number; // seconds stopped in rest breaks
   // Motion Metrics
   hardAccelerationCount: number;
   hardBrakingCount: number;
@@ -74,6 +99,7 @@ export interface GPXStats {
   elevationLoss: number;
   maxElevation: number;
   minElevation: number;
+  elevationFallback?: boolean; // DEM profile, but the terrain model didn't cover the track or couldn't be downloaded: device elevation kept
   steepestClimb: number; // percentage
   steepestDescent: number; // percentage
   timeClimbing: number; // seconds
@@ -93,7 +119,45 @@ export interface GPXStats {
   hairpinPoints?: [number, number][]; // Added hairpin points
   hardAccelPoints?: [number, number, number][]; // [lat, lon, m/s²]
   hardBrakePoints?: [number, number, number][]; // [lat, lon, m/s²]
+  harshCorneringCount?: number;
+  harshCorneringPoints?: [number, number, number][]; // [lat, lon, m/s²] lateral, + = turning right
+  fuel?: FuelEstimate;     // combustion vehicles
+  energy?: EnergyEstimate; // electric vehicles
   speedDistribution?: SpeedBucket[];
+  corners?: Corner[];
+  places?: TrackPlaces; // from the gazetteer; absent when it wasn't reachable
+}
+
+// 'signal': a short, isolated stop (lights, junctions); 'congestion': one of several short
+// stops with only a crawl between them; 'rest': a long break
+export type StopType = 'signal' | 'congestion' | 'rest';
+
+// A standstill of at least MIN_STOP_DURATION
+export interface Stop {
+  startIndex: number; // point where the vehicle stopped
+  endIndex: number;   // point where it moved off (or the last point)
+  lat: number;
+  lon: number;
+  startTime?: string; // ISO string for serialization
+  duration: number;   // s
+  type: StopType;
+  place?: string | null; // nearest town, from the gazetteer
+}
+
+// A detected tight turn or hairpin
+export interface Corner {
+  startIndex: number;  // point where the heading starts to change
+  endIndex: number;    // point where it stops
+  lat: number;         // sharpest part of the turn (marker position)
+  lon: number;
+  type: 'tight' | 'hairpin';
+  direction: 'left' | 'right';
+  angle: number;       // degrees of heading change
+  radius: number;      // m, arc length / angle
+  entrySpeed: number;  // km/h (smoothed)
+  apexSpeed: number;   // km/h, minimum through the turn
+  exitSpeed: number;   // km/h
+  duration: number;    // s
 }
 
 
@@ -105,7 +169,7 @@ export interface SpeedBucket {
 }
 
 // Current version for cache invalidation - increment when parsing logic changes
-export const PROCESSED_TRACK_VERSION = 1;
+export const PROCESSED_TRACK_VERSION = 9; // 2: segment breaks, 3: device speed & fix quality, 4: corner records, 5: lateral acceleration, 6: fuel estimate, 7: stop records, 8: road runs, 9: NMEA fix
 
 // Pre-computed point data for cached tracks
 export interface ProcessedPoint {
@@ -118,8 +182,16 @@ export interface ProcessedPoint {
   smoothedEle?: number;
   speed: number; // km/h
   acceleration: number; // m/s²
+  lateralAcceleration?: number; // m/s², + = turning right
   distance: number; // cumulative km
   elapsedTime: number; // seconds from start
+  channels?: Record<string, number>;
+  segment?: number;
+  deviceSpeed?: number; // m/s, GPXPoint.speed
+  course?: number;
+  hdop?: number;
+  satellites?: number;
+  fix?: number;
 }
 
 // Cached processed track data
@@ -128,6 +200,8 @@ export interface ProcessedTrack {
   points: ProcessedPoint[];
   stats: GPXStats;
   previewCoordinates: [number, number][];
+  profile?: AnalysisProfile; // thresholds the track was analysed with (absent: default profile)
+  roads?: RoadRun[]; // the track matched onto the road network; absent when it wasn't reachable
 }
 
 // Haversine formula to calculate distance between two GPS points
@@ -168,33 +242,32 @@ function getPercentile(values: number[], percentile: number): number {
   return sorted[Math.max(0, Math.min(index, sorted.length - 1))];
 }
 
-export function calculateSpeedDistribution(points: GPXPoint[], bucketSize: number = 10): SpeedBucket[] {
-  if (points.length < 2) return [];
+// True when points[i] starts a new segment, i.e. the step from points[i - 1] is a recording break
+export function isSegmentStart(points: GPXPoint[], i: number): boolean {
+  return i > 0 && (points[i].segment ?? 0) !== (points[i - 1].segment ?? 0);
+}
 
-  // We rely on calculateRobustSpeeds which is defined later in the file
-  // However, for distribution we can do a simplified calculation or call it if hoisted.
-  // Functions are hoisted.
-  const robustSegments = calculateRobustSpeeds(points);
-  const speeds = robustSegments.map(s => s.speed);
+function sameSegment(a: GPXPoint, b: GPXPoint): boolean {
+  return (a.segment ?? 0) === (b.segment ?? 0);
+}
 
-  // Smooth Speeds
-  const WINDOW_SIZE = 5;
-  const smoothedSpeeds: number[] = [];
+// For per-step arrays (entry i = step from point i to i + 1): true if entries a and b
+// are separated by, or are themselves, a break step
+function crossesBreak(breaks: boolean[], a: number, b: number): boolean {
+  for (let k = Math.min(a, b); k <= Math.max(a, b); k++) {
+    if (breaks[k]) return true;
+  }
+  return false;
+}
 
-  for (let i = 0; i < speeds.length; i++) {
-    let sum = 0;
-    let count = 0;
-    const offset = Math.floor(WINDOW_SIZE / 2);
+export function calculateSpeedDistribution(points: GPXPoint[], bucketSize: number = 10, profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE): SpeedBucket[] {
+  if (points.length < 2) return [];
+  return speedBuckets(calculateMotion(points, profile), bucketSize);
+}
 
-    for (let j = -offset; j <= offset; j++) {
-      const idx = i + j;
-      if (idx >= 0 && idx < speeds.length) {
-        sum += speeds[idx];
-        count++;
-      }
-    }
-    smoothedSpeeds.push(count > 0 ? sum / count : 0);
-  }
+// Time and distance per speed bucket from the track's motion (calculateStats passes the one it has)
+function speedBuckets({ segments: robustSegments, kalman }: TrackMotion, bucketSize: number): SpeedBucket[] {
+  const smoothedSpeeds = smoothSpeeds(robustSegments, kalman);
 
   // Bucketize
   const buckets: Record<number, { time: number; distance: number }> = {};
@@ -240,29 +313,68 @@ export function calculateSpeedDistribution(points: GPXPoint[], bucketSize: numbe
   return result;
 }
 
+// Text of the first descendant with this local name in any namespace (GPX 1.0 <speed>, gpxtpx:speed, ...)
+function getLocalText(parent: XmlElement, localName: string): string | null {
+  const el = parent.getElementsByTagNameNS("*", localName)[0];
+  return el ? el.textContent : null;
+}
+
+function parseOptionalFloat(text: string | null): number | undefined {
+  if (text === null) return undefined;
+  const n = parseFloat(text);
+  return isNaN(n) ? undefined : n;
+}
+
+// Plain numeric children of <extensions> (as written by createGPXContent) become channels
+function parseExtensionChannels(point: XmlElement): Record<string, number> | undefined {
+  const extensions = point.getElementsByTagNameNS("*", "extensions")[0];
+  if (!extensions) return undefined;
+
+  const channels: Record<string, number> = {};
+  for (const child of Array.from(extensions.children)) {
+    if (child.children.length > 0 || child.localName === "speed" || child.localName === "course") continue;
+    const value = parseOptionalFloat(child.textContent);
+    if (value !== undefined) channels[child.localName] = value;
+  }
+  return Object.keys(channels).length > 0 ? channels : undefined;
+}
+
 export function parseGPX(gpxContent: string): GPXPoint[] {
-  const parser = new DOMParser();
-  const xmlDoc = parser.parseFromString(gpxContent, "text/xml");
+  const xmlDoc = parseXML(gpxContent);
+
+  // Each <trkseg> (across all <trk>s) is its own segment; routes and waypoints are fallbacks
+  // (empty groups are dropped first, so an empty <trkseg/> doesn't hide the ones after it)
+  const nonEmpty = (groups: XmlElement[][]) => groups.filter(g => g.length > 0);
+  let groups = nonEmpty(Array.from(xmlDoc.getElementsByTagName("trkseg"))
+    .map(seg => Array.from(seg.getElementsByTagName("trkpt"))));
+  if (groups.length === 0) groups = nonEmpty([Array.from(xmlDoc.getElementsByTagName("trkpt"))]);
+  if (groups.length === 0) groups = nonEmpty([Array.from(xmlDoc.getElementsByTagName("wpt"))]);
+  if (groups.length === 0) groups = nonEmpty(Array.from(xmlDoc.getElementsByTagName("rte"))
+    .map(rte => Array.from(rte.getElementsByTagName("rtept"))));
 
   const points: GPXPoint[] = [];
-  let trackpoints = xmlDoc.getElementsByTagName("trkpt");
-  if (trackpoints.length === 0) trackpoints = xmlDoc.getElementsByTagName("wpt");
-  if (trackpoints.length === 0) trackpoints = xmlDoc.getElementsByTagName("rtept");
-
-  for (let i = 0; i < trackpoints.length; i++) {
-    const point = trackpoints[i];
-    const lat = parseFloat(point.getAttribute("lat") || "0");
-    const lon = parseFloat(point.getAttribute("lon") || "0");
-    const eleElement = point.getElementsByTagName("ele")[0];
-    const timeElement = point.getElementsByTagName("time")[0];
-
-    points.push({
-      lat,
-      lon,
-      ele: eleElement ? parseFloat(eleElement.textContent || "0") : undefined,
-      time: timeElement ? new Date(timeElement.textContent || "") : undefined,
-    });
-  }
+  groups.forEach((trackpoints, segment) => {
+    for (const point of trackpoints) {
+      const lat = parseFloat(point.getAttribute("lat") || "0");
+      const lon = parseFloat(point.getAttribute("lon") || "0");
+      const eleElement = point.getElementsByTagName("ele")[0];
+      const timeElement = point.getElementsByTagName("time")[0];
+
+      points.push({
+        lat,
+        lon,
+        ele: eleElement ? parseFloat(eleElement.textContent || "0") : undefined,
+        time: timeElement ? new Date(timeElement.textContent || "") : undefined,
+        // GPX 1.0 children, or 1.1 <extensions> (plain or Garmin TrackPointExtension)
+        speed: parseOptionalFloat(getLocalText(point, "speed")),
+        course: parseOptionalFloat(getLocalText(point, "course")),
+        hdop: parseOptionalFloat(getLocalText(point, "hdop")),
+        satellites: parseOptionalFloat(getLocalText(point, "sat")),
+        channels: parseExtensionChannels(point),
+        segment,
+      });
+    }
+  });
   return points;
 }
 
@@ -279,7 +391,8 @@ function applyAdvancedFiltering(
   smoothedAccelerations: number[],
   timeDeltas: number[],
   points: GPXPoint[],
-  isClampedArray: boolean[]
+  isClampedArray: boolean[],
+  profile: AnalysisProfile
 ): FilterResult {
   const finalAccelerations = [...smoothedAccelerations];
   let hardAccelerationCount = 0;
@@ -334,10 +447,10 @@ function applyAdvancedFiltering(
     const val = finalAccelerations[i];
     const t = timeMap[i].end;
 
-    if (val > HARD_ACCEL_THRESHOLD) {
+    if (val > profile.hardAccelThreshold) {
       const p = points[i + 1];
       if (p) candidateEvents.push({ index: i, type: 'ACCEL', time: t, lat: p.lat, lon: p.lon, magnitude: val });
-    } else if (val < HARD_BRAKE_THRESHOLD) {
+    } else if (val < profile.hardBrakeThreshold) {
       const p = points[i + 1];
       if (p) candidateEvents.push({ index: i, type: 'BRAKE', time: t, lat: p.lat, lon: p.lon, magnitude: Math.abs(val) });
     }
@@ -413,7 +526,12 @@ function applyAdvancedFiltering(
   return { finalAccelerations, hardAccelPoints, hardBrakePoints, hardAccelerationCount, hardBrakingCount };
 }
 
-export function calculateStats(points: GPXPoint[]): GPXStats {
+export function calculateStats(points: GPXPoint[], profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE, vehicle: VehicleSpec = DEFAULT_VEHICLE): GPXStats {
+  return statsFromMotion(points, calculateMotion(points, profile), profile, vehicle);
+}
+
+// calculateStats for a track whose motion is already worked out, so the smoother runs once per track
+function statsFromMotion(points: GPXPoint[], motion: TrackMotion, profile: AnalysisProfile, vehicle: VehicleSpec): GPXStats {
   const emptyStats: GPXStats = {
     totalDistance: 0,
     totalTime: 0,
@@ -481,6 +599,36 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
   let currentTurnSum = 0;
   let currentTurnDistance = 0;
   let currentTurnPeak = { index: -1, delta: 0, lat: 0, lon: 0 };
+  let currentTurnStart = -1; // first and last step that turned
+  let currentTurnEnd = -1;
+  const corners: Corner[] = [];
+
+  // Counts the current turn and keeps it as a corner; speeds are filled in once smoothed (below)
+  const recordTurn = () => {
+    const angle = Math.abs(currentTurnSum);
+    const isHairpin = angle > profile.hairpinAngle;
+    tightTurnsCount++;
+    if (isHairpin) {
+      hairpinCount++;
+      hairpinPoints.push([currentTurnPeak.lat, currentTurnPeak.lon]);
+    } else {
+      tightTurnPoints.push([currentTurnPeak.lat, currentTurnPeak.lon]);
+    }
+    corners.push({
+      startIndex: currentTurnStart,
+      endIndex: currentTurnEnd + 1,
+      lat: currentTurnPeak.lat,
+      lon: currentTurnPeak.lon,
+      type: isHairpin ? 'hairpin' : 'tight',
+      direction: currentTurnSum > 0 ? 'right' : 'left',
+      angle,
+      radius: (currentTurnDistance * 1000) / (angle * Math.PI / 180),
+      entrySpeed: 0,
+      apexSpeed: 0,
+      exitSpeed: 0,
+      duration: 0,
+    });
+  };
 
   if (points[0].ele !== undefined) {
     maxElevation = points[0].ele;
@@ -489,48 +637,18 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
 
   let currentTurnStartBearing: number | null = null;
 
-  // Coordinate Smoothing (5-point SMA)
-  // To reduce "stray points" that cause fake turns and flatten wiggles
-  const smoothedPoints = points.map((p, i) => {
-    const window = COORDINATE_SMOOTHING_WINDOW;
-    const offset = Math.floor(window / 2);
-    let latSum = 0, lonSum = 0, count = 0;
+  const { segments: robustSegments, kalman } = motion; // Speeds use raw points for safety? Or should use smoothed?
+  // Let's keep speeds on raw points to capture acceleration physics, but use smoothed for BEARING.
 
-    for (let j = -offset; j <= offset; j++) {
-      const idx = i + j;
-      if (idx >= 0 && idx < points.length) {
-        latSum += points[idx].lat;
-        lonSum += points[idx].lon;
-        count++;
-      }
-    }
+  // Coordinate Smoothing (5-point SMA, or the Kalman positions)
+  // To reduce "stray points" that cause fake turns and flatten wiggles
+  const smoothedPoints = smoothCoordinates(points, kalman);
 
-    return {
-      ...p,
-      lat: count > 0 ? latSum / count : p.lat,
-      lon: count > 0 ? lonSum / count : p.lon
-    };
-  });
+  // Break steps are excluded from acceleration events the same way clamped steps are.
+  const isClampedArray = robustSegments.map(s => s.isClamped || s.isBreak);
+  const breaks = robustSegments.map(s => s.isBreak);
 
-  const robustSegments = calculateRobustSpeeds(points); // Speeds use raw points for safety? Or should use smoothed?
-  // Let's keep speeds on raw points to capture acceleration physics, but use smoothed for BEARING.
-  const isClampedArray = robustSegments.map(s => s.isClamped);
-
-  const elevationWindow = ELEVATION_SMOOTHING_WINDOW;
-  const smoothedElevations: (number | undefined)[] = [];
-  for (let i = 0; i < points.length; i++) {
-    if (points[i].ele === undefined) { smoothedElevations.push(undefined); continue; }
-    let sum = 0, count = 0;
-    const offset = Math.floor(elevationWindow / 2);
-    for (let j = -offset; j <= offset; j++) {
-      const idx = i + j;
-      if (idx >= 0 && idx < points.length && points[idx].ele !== undefined) {
-        sum += points[idx].ele!;
-        count++;
-      }
-    }
-    smoothedElevations.push(count > 0 ? sum / count : points[i].ele);
-  }
+  const smoothedElevations = smoothElevations(points);
 
   const rawGradients: number[] = [];
   for (let i = 0; i < robustSegments.length; i++) {
@@ -543,6 +661,22 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
     speeds.push(speed);
     timeDeltas.push(timeDiff);
 
+    // Segment break: no gradient, and bearings/turns/straights don't carry over the gap
+    if (breaks[i]) {
+      rawGradients.push(0);
+      if (currentStraightDist > MIN_STRAIGHT_SECTION) {
+        straightSections.push(currentStraightDist);
+        totalStraightDistance += currentStraightDist;
+      }
+      currentStraightDist = 0;
+      lastBearing = null;
+      currentTurnSum = 0;
+      currentTurnStartBearing = null;
+      currentTurnDistance = 0;
+      currentTurnPeak = { index: -1, delta: 0, lat: 0, lon: 0 };
+      continue;
+    }
+
     const prevEle = smoothedElevations[i];
     const currEle = smoothedElevations[i + 1];
     if (prevEle !== undefined && currEle !== undefined) {
@@ -568,20 +702,20 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
     }
 
     // Geometry Calculation (Rotation)
-    // Updated Logic: Check Moving Average Speed > STOP_SPEED_THRESHOLD (Hysteresis)
+    // Updated Logic: Check Moving Average Speed > profile.stopSpeedThreshold (Hysteresis)
     let isMoving = false;
     if (speeds.length > 0) {
       const window = SPEED_MOVING_AVG_WINDOW;
       let sum = 0;
       let count = 0;
       for (let k = 0; k < window; k++) {
-        if (speeds.length - 1 - k >= 0) {
+        if (speeds.length - 1 - k >= 0 && !crossesBreak(breaks, i, speeds.length - 1 - k)) {
           sum += speeds[speeds.length - 1 - k];
           count++;
         }
       }
       const avgSpeed = count > 0 ? sum / count : 0;
-      isMoving = avgSpeed > STOP_SPEED_THRESHOLD;
+      isMoving = avgSpeed > profile.stopSpeedThreshold;
     }
 
     if (distance > MIN_DISTANCE_FOR_BEARING && isMoving) {
@@ -603,8 +737,12 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
 
         if (Math.abs(delta) > MICRO_JITTER_THRESHOLD) { // Ignore micro-jitters
           if (isTurnContinuation) {
-            if (currentTurnSum === 0) currentTurnStartBearing = lastBearing; // Capture start bearing
+            if (currentTurnSum === 0) {
+              currentTurnStartBearing = lastBearing; // Capture start bearing
+              currentTurnStart = i;
+            }
             currentTurnSum += delta;
+            currentTurnEnd = i;
             currentTurnDistance += distance;
             // Update Peak for Marker Placement (Center of the action)
             if (Math.abs(delta) > Math.abs(currentTurnPeak.delta)) {
@@ -615,7 +753,7 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
 
             if (currentTurnDistance > MIN_TURN_DISTANCE) {
               // SHARPNESS CHECK:
-              // 1. Angle Threshold: Reverted to TIGHT_TURN_ANGLE degrees (User Request)
+              // 1. Angle Threshold: profile.tightTurnAngle degrees
               // 2. Density Threshold: Turn must be sharp (e.g. > TURN_DENSITY_THRESHOLD deg/meter)
               // 3. Zig-Zag Filter: Net Heading Change must be > NET_HEADING_CHANGE_MIN degrees
               const turnDensity = Math.abs(currentTurnSum) / (currentTurnDistance * 1000 || 1);
@@ -628,19 +766,15 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
                 netHeadingChange = Math.abs(rawChange);
               }
 
-              if (Math.abs(currentTurnSum) > TIGHT_TURN_ANGLE && turnDensity > TURN_DENSITY_THRESHOLD && netHeadingChange > NET_HEADING_CHANGE_MIN) {
-                tightTurnsCount++;
-                if (Math.abs(currentTurnSum) > HAIRPIN_ANGLE) {
-                  hairpinCount++;
-                  hairpinPoints.push([currentTurnPeak.lat, currentTurnPeak.lon]);
-                } else {
-                  tightTurnPoints.push([currentTurnPeak.lat, currentTurnPeak.lon]);
-                }
+              if (Math.abs(currentTurnSum) > profile.tightTurnAngle && turnDensity > TURN_DENSITY_THRESHOLD && netHeadingChange > NET_HEADING_CHANGE_MIN) {
+                recordTurn();
               }
             }
 
             currentTurnSum = delta;
             currentTurnStartBearing = lastBearing; // Start new turn
+            currentTurnStart = i;
+            currentTurnEnd = i;
             currentTurnDistance = distance;
             currentTurnPeak = { index: i, delta: delta, lat: curr.lat, lon: curr.lon };
           }
@@ -668,14 +802,8 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
                 netHeadingChange = Math.abs(rawChange);
               }
 
-              if (Math.abs(currentTurnSum) > TIGHT_TURN_ANGLE && turnDensity > TURN_DENSITY_THRESHOLD && netHeadingChange > NET_HEADING_CHANGE_MIN) {
-                tightTurnsCount++;
-                if (Math.abs(currentTurnSum) > HAIRPIN_ANGLE) {
-                  hairpinCount++;
-                  hairpinPoints.push([currentTurnPeak.lat, currentTurnPeak.lon]);
-                } else {
-                  tightTurnPoints.push([currentTurnPeak.lat, currentTurnPeak.lon]);
-                }
+              if (Math.abs(currentTurnSum) > profile.tightTurnAngle && turnDensity > TURN_DENSITY_THRESHOLD && netHeadingChange > NET_HEADING_CHANGE_MIN) {
+                recordTurn();
               }
             }
             // Reset Turn State
@@ -715,14 +843,8 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
       netHeadingChange = Math.abs(rawChange);
     }
 
-    if (Math.abs(currentTurnSum) > TIGHT_TURN_ANGLE && finalTurnDensity > TURN_DENSITY_THRESHOLD && netHeadingChange > NET_HEADING_CHANGE_MIN) {
-      tightTurnsCount++;
-      if (Math.abs(currentTurnSum) > HAIRPIN_ANGLE) {
-        hairpinCount++;
-        hairpinPoints.push([currentTurnPeak.lat, currentTurnPeak.lon]);
-      } else {
-        tightTurnPoints.push([currentTurnPeak.lat, currentTurnPeak.lon]);
-      }
+    if (Math.abs(currentTurnSum) > profile.tightTurnAngle && finalTurnDensity > TURN_DENSITY_THRESHOLD && netHeadingChange > NET_HEADING_CHANGE_MIN) {
+      recordTurn();
     }
   }
 
@@ -734,7 +856,7 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
     const offset = Math.floor(gradientWindow / 2);
     for (let j = -offset; j <= offset; j++) {
       const idx = i + j;
-      if (idx >= 0 && idx < rawGradients.length) { sum += rawGradients[idx]; count++; }
+      if (idx >= 0 && idx < rawGradients.length && !crossesBreak(breaks, i, idx)) { sum += rawGradients[idx]; count++; }
     }
     smoothedGradients.push(count > 0 ? sum / count : 0);
   }
@@ -752,61 +874,87 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
     totalStraightDistance += currentStraightDist;
   }
 
-  // Motion Profile (Accel)
-  const smoothedSpeeds: number[] = [];
-  const speedWin = SPEED_SMOOTHING_WINDOW;
-  for (let i = 0; i < speeds.length; i++) {
-    let sum = 0, count = 0;
-    const offset = Math.floor(speedWin / 2);
-    for (let j = -offset; j <= offset; j++) {
-      const idx = i + j;
-      if (idx >= 0 && idx < speeds.length) { sum += speeds[idx]; count++; }
-    }
-    const avg = count > 0 ? sum / count : 0;
-    smoothedSpeeds.push(avg);
-    if (avg > maxSpeed && avg < MAX_SPEED_CAP) maxSpeed = avg;
+  // Motion Profile (Accel) - Kalman speeds and accelerations are already smooth
+  const smoothedSpeeds = smoothSpeeds(robustSegments, kalman);
+  for (const avg of smoothedSpeeds) {
+    if (avg > maxSpeed && avg < profile.maxSpeed) maxSpeed = avg;
   }
 
+  // Corner speeds and time over the turning steps
+  corners.forEach(corner => {
+    const cornerSpeeds = smoothedSpeeds.slice(corner.startIndex, corner.endIndex);
+    corner.entrySpeed = cornerSpeeds[0] ?? 0;
+    corner.exitSpeed = cornerSpeeds[cornerSpeeds.length - 1] ?? 0;
+    corner.apexSpeed = cornerSpeeds.length > 0 ? Math.min(...cornerSpeeds) : 0;
+    corner.duration = timeDeltas.slice(corner.startIndex, corner.endIndex).reduce((sum, t) => sum + t, 0);
+  });
+
   const rawAccelerations: number[] = [];
   for (let i = 0; i < speeds.length; i++) {
     const t = timeDeltas[i];
-    if (i > 0 && t > 0) rawAccelerations.push((speeds[i] / 3.6 - speeds[i - 1] / 3.6) / t);
+    if (kalman) rawAccelerations.push(robustSegments[i].acceleration ?? 0);
+    else if (i > 0 && t > 0 && !breaks[i - 1]) rawAccelerations.push((speeds[i] / 3.6 - speeds[i - 1] / 3.6) / t);
     else rawAccelerations.push(0);
   }
 
-  const accelWin = ACCEL_SMOOTHING_WINDOW;
+  const accelWin = kalman ? 1 : ACCEL_SMOOTHING_WINDOW;
   const smoothedAccelerations: number[] = [];
   for (let i = 0; i < rawAccelerations.length; i++) {
     let sum = 0, count = 0;
     const offset = Math.floor(accelWin / 2);
     for (let j = -offset; j <= offset; j++) {
       const idx = i + j;
-      if (idx >= 0 && idx < rawAccelerations.length) { sum += rawAccelerations[idx]; count++; }
+      if (idx >= 0 && idx < rawAccelerations.length && !crossesBreak(breaks, i, idx)) { sum += rawAccelerations[idx]; count++; }
     }
     smoothedAccelerations.push(count > 0 ? sum / count : 0);
   }
 
-  const { finalAccelerations, hardAccelPoints, hardBrakePoints, hardAccelerationCount, hardBrakingCount } = applyAdvancedFiltering(smoothedAccelerations, timeDeltas, points, isClampedArray);
+  const { finalAccelerations, hardAccelPoints, hardBrakePoints, hardAccelerationCount, hardBrakingCount } = applyAdvancedFiltering(smoothedAccelerations, timeDeltas, points, isClampedArray, profile);
+
+  const lateralAccelerations = calculateLateralAccelerations(points, smoothedPoints, robustSegments, kalman, profile);
+  const harshCorneringPoints = detectHarshCornering(points, lateralAccelerations, profile);
 
   // Motion Buckets
   let stoppedTime = 0;
-  let stopCount = 0;
   let isStopped = false;
   let stopDur = 0;
   let stopStart = -1;
-  const stopPoints: [number, number][] = [];
+  const stops: Stop[] = [];
   let turbulenceSum = 0;
   let timeAccelerating = 0;
   let timeBraking = 0;
   let timeCruising = 0;
+
+  // Keeps the current standstill as a stop if it lasted long enough; classified once all are known (below)
+  const recordStop = (endIndex: number) => {
+    if (stopDur >= MIN_STOP_DURATION && stopStart >= 0) {
+      stops.push({
+        startIndex: stopStart,
+        endIndex,
+        lat: points[stopStart].lat,
+        lon: points[stopStart].lon,
+        startTime: points[stopStart].time?.toISOString(),
+        duration: stopDur,
+        type: 'signal',
+      });
+    }
+    stopDur = 0; isStopped = false; stopStart = -1;
+  };
+
   for (let i = 0; i < smoothedSpeeds.length; i++) {
     const s = smoothedSpeeds[i];
     const t = timeDeltas[i];
     const a = finalAccelerations[i];
 
+    // A stop never continues across a segment break
+    if (breaks[i]) {
+      if (isStopped) recordStop(i);
+      continue;
+    }
+
     if (i > 0) turbulenceSum += Math.abs(a - finalAccelerations[i - 1]);
 
-    if (s < STOP_SPEED_THRESHOLD) {
+    if (s < profile.stopSpeedThreshold) {
       stoppedTime += t;
       stopDur += t;
       if (!isStopped) { isStopped = true; stopStart = i; }
@@ -815,22 +963,27 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
       else if (a < -CRUISING_THRESHOLD) timeBraking += t;
       else timeCruising += t;
 
-      if (isStopped) {
-        if (stopDur >= 10) {
-          stopCount++;
-          if (stopStart >= 0) stopPoints.push([points[stopStart].lat, points[stopStart].lon]);
-        }
-        stopDur = 0; isStopped = false; stopStart = -1;
-      }
+      if (isStopped) recordStop(i);
     }
   }
-  if (isStopped && stopDur >= 10) {
-    stopCount++;
-    if (stopStart >= 0) stopPoints.push([points[stopStart].lat, points[stopStart].lon]);
-  }
+  if (isStopped) recordStop(points.length - 1);
+  classifyStops(stops, smoothedSpeeds, timeDeltas, breaks);
+  const stopPoints: [number, number][] = stops.map(stop => [stop.lat, stop.lon]);
+  const breakTime = stops.filter(stop => stop.type === 'rest').reduce((sum, stop) => sum + stop.duration, 0);
+
+  // Fuel or battery energy: physics over the smoothed speeds and elevations (steps across a segment break are skipped)
+  const driveSteps = buildDriveSteps(smoothedSpeeds, smoothedElevations, robustSegments, profile).filter((step): step is DriveStep => step !== null);
+  const fuel = isElectric(vehicle) ? undefined : estimateFuel(driveSteps, vehicle);
+  const energy = isElectric(vehicle) ? estimateEnergy(driveSteps, vehicle) : undefined;
 
+  // Elapsed time, minus the time spent in gaps between segments
   let totalTime = 0;
   if (points[0].time && points[points.length - 1].time) totalTime = (points[points.length - 1].time!.getTime() - points[0].time!.getTime()) / 1000;
+  for (let i = 1; i < points.length; i++) {
+    if (isSegmentStart(points, i) && points[i].time && points[i - 1].time) {
+      totalTime -= Math.max(0, (points[i].time!.getTime() - points[i - 1].time!.getTime()) / 1000);
+    }
+  }
 
   const twistinessScore = totalDistance > 0 ? totalHeadingChange / totalDistance : 0;
   const percentStraight = totalDistance > 0 ? (totalStraightDistance / totalDistance) * 100 : 0;
@@ -838,11 +991,11 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
   const medianStraightLength = straightSections.length > 0 ? straightSections.sort((a, b) => a - b)[Math.floor(straightSections.length / 2)] : 0;
 
   return {
-    totalDistance, totalTime, movingTime: Math.max(0, totalTime - stoppedTime), stoppedTime, stopCount,
+    totalDistance, totalTime, movingTime: Math.max(0, totalTime - stoppedTime), stoppedTime, stopCount: stops.length,
     avgSpeed: totalTime > 0 ? totalDistance / (totalTime / 3600) : 0,
     movingAvgSpeed: (totalTime - stoppedTime) > 0 ? totalDistance / ((totalTime - stoppedTime) / 3600) : 0,
     maxSpeed, elevationGain, pointCount: points.length,
-    stopPoints, hardAccelerationCount, hardBrakingCount,
+    stopPoints, stops, breakTime, hardAccelerationCount, hardBrakingCount,
     timeAccelerating, timeBraking, timeCruising,
     accelBrakeRatio: timeBraking > 0 ? timeAccelerating / timeBraking : timeAccelerating,
     turbulenceScore: smoothedSpeeds.length > 0 ? (turbulenceSum / smoothedSpeeds.length) * 10 : 0,
@@ -853,8 +1006,11 @@ export function calculateStats(points: GPXPoint[]): GPXStats {
     climbDistance,
     totalHeadingChange, tightTurnsCount, hairpinCount, twistinessScore,
     longestStraightSection, medianStraightLength, percentStraight,
-    tightTurnPoints, hairpinPoints, hardAccelPoints, hardBrakePoints,
-    speedDistribution: calculateSpeedDistribution(points)
+    tightTurnPoints, hairpinPoints, hardAccelPoints, hardBrakePoints, corners,
+    harshCorneringCount: harshCorneringPoints.length, harshCorneringPoints,
+    fuel,
+    energy,
+    speedDistribution: speedBuckets(motion, 10)
   };
 }
 
@@ -864,40 +1020,27 @@ export interface TrackSegment {
   acceleration: number; // m/s^2
 }
 
-export function analyzeSegments(points: GPXPoint[]): TrackSegment[] {
+export function analyzeSegments(points: GPXPoint[], profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE): TrackSegment[] {
   if (points.length < 2) return [];
 
   const segments: TrackSegment[] = [];
-  const robustSegments = calculateRobustSpeeds(points);
+  const { segments: robustSegments, kalman } = calculateMotion(points, profile);
   const speeds = robustSegments.map(s => s.speed);
   const timeDeltas = robustSegments.map(s => s.time);
-  const isClampedArray = robustSegments.map(s => s.isClamped);
+  const isClampedArray = robustSegments.map(s => s.isClamped || s.isBreak);
+  const breaks = robustSegments.map(s => s.isBreak);
 
-  // 1. Smooth Speeds (Moving Average)
-  const smoothedSpeeds: number[] = [];
-  const WINDOW_SIZE = SPEED_SMOOTHING_WINDOW;
-
-  for (let i = 0; i < speeds.length; i++) {
-    let sum = 0;
-    let count = 0;
-    const offset = Math.floor(WINDOW_SIZE / 2);
-
-    for (let j = -offset; j <= offset; j++) {
-      const idx = i + j;
-      if (idx >= 0 && idx < speeds.length) {
-        sum += speeds[idx];
-        count++;
-      }
-    }
-    smoothedSpeeds.push(count > 0 ? sum / count : 0);
-  }
+  // 1. Smooth Speeds (Moving Average; Kalman speeds are already smooth)
+  const smoothedSpeeds = smoothSpeeds(robustSegments, kalman);
 
   // 2. Calculate Raw Accelerations (From Smoothed Speeds)
   // This ensures the acceleration map matches the visual timeline chart (which is smoothed)
   const rawAccelerations: number[] = [];
   for (let i = 0; i < smoothedSpeeds.length; i++) {
     const time = timeDeltas[i];
-    if (i > 0 && time > 0) {
+    if (kalman) {
+      rawAccelerations.push(robustSegments[i].acceleration ?? 0);
+    } else if (i > 0 && time > 0 && !breaks[i - 1]) {
       const v1 = smoothedSpeeds[i - 1] / 3.6; // m/s (Smoothed)
       const v2 = smoothedSpeeds[i] / 3.6;   // m/s (Smoothed)
       rawAccelerations.push((v2 - v1) / time);
@@ -907,7 +1050,7 @@ export function analyzeSegments(points: GPXPoint[]): TrackSegment[] {
   }
 
   // 3. Smooth Accelerations (Light Moving Average)
-  const ACCEL_WINDOW = ACCEL_SMOOTHING_WINDOW;
+  const ACCEL_WINDOW = kalman ? 1 : ACCEL_SMOOTHING_WINDOW;
   const smoothedAccelerations: number[] = [];
 
   for (let i = 0; i < rawAccelerations.length; i++) {
@@ -917,7 +1060,7 @@ export function analyzeSegments(points: GPXPoint[]): TrackSegment[] {
 
     for (let j = -offset; j <= offset; j++) {
       const idx = i + j;
-      if (idx >= 0 && idx < rawAccelerations.length) {
+      if (idx >= 0 && idx < rawAccelerations.length && !crossesBreak(breaks, i, idx)) {
         sum += rawAccelerations[idx];
         count++;
       }
@@ -926,7 +1069,7 @@ export function analyzeSegments(points: GPXPoint[]): TrackSegment[] {
   }
 
   // GAP & ADVANCED FILTERING
-  const { finalAccelerations } = applyAdvancedFiltering(smoothedAccelerations, timeDeltas, points, isClampedArray);
+  const { finalAccelerations } = applyAdvancedFiltering(smoothedAccelerations, timeDeltas, points, isClampedArray, profile);
 
   // 4. Build Segments with Smoothed Data (Acceleration) but Raw/Robust Speed
   for (let i = 0; i < smoothedSpeeds.length; i++) {
@@ -1009,7 +1152,7 @@ export interface LimitedStatsResult {
   totalSegments: number;   // total segments
 }
 
-export function calculateLimitedStats(points: GPXPoint[], speedLimitKmh: number): LimitedStatsResult | null {
+export function calculateLimitedStats(points: GPXPoint[], speedLimitKmh: number, profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE): LimitedStatsResult | null {
   if (points.length < 2 || speedLimitKmh <= 0) return null;
 
   let totalDistance = 0;    // km
@@ -1019,6 +1162,7 @@ export function calculateLimitedStats(points: GPXPoint[], speedLimitKmh: number)
   let totalSegments = 0;
 
   for (let i = 1; i < points.length; i++) {
+    if (isSegmentStart(points, i)) continue;
     const prev = points[i - 1];
     const curr = points[i];
 
@@ -1034,7 +1178,7 @@ export function calculateLimitedStats(points: GPXPoint[], speedLimitKmh: number)
 
         const segmentSpeedKmh = dist / (segmentTimeSeconds / 3600);
 
-        if (segmentSpeedKmh > speedLimitKmh && segmentSpeedKmh < MAX_SPEED_CAP) { // Sanity cap
+        if (segmentSpeedKmh > speedLimitKmh && segmentSpeedKmh < profile.maxSpeed) { // Sanity cap
           // Time if we traveled at speed limit instead
           const newTimeSeconds = (dist / speedLimitKmh) * 3600;
           simulatedTime += newTimeSeconds;
@@ -1065,21 +1209,47 @@ export function calculateLimitedStats(points: GPXPoint[], speedLimitKmh: number)
   };
 }
 
+/**
+ * Confidence in a point's position from its HDOP / satellite count: 1 = trusted, 0 = unusable.
+ * Points without quality data are trusted.
+ */
+export function fixQuality(p: GPXPoint): number {
+  if (p.satellites !== undefined && p.satellites < MIN_FIX_SATELLITES) return 0;
+  if (p.hdop === undefined || p.hdop <= GOOD_FIX_HDOP) return 1;
+  if (p.hdop > POOR_FIX_HDOP) return 0;
+  return 1 - (p.hdop - GOOD_FIX_HDOP) / (POOR_FIX_HDOP - GOOD_FIX_HDOP);
+}
+
+interface RobustSegment {
+  speed: number;      // km/h
+  time: number;       // seconds
+  distance: number;   // km
+  isClamped: boolean;
+  isBreak: boolean;   // step across a segment break: zero time/distance/speed
+  acceleration?: number; // m/s², Kalman steps only
+}
+
+// Per-step speeds and the Kalman estimate (null when not used) of one track
+interface TrackMotion {
+  segments: RobustSegment[];
+  kalman: KalmanEstimate[] | null;
+}
+
 /**
  * Calculates robust speeds by clamping physically impossible acceleration.
  * This filters out GPS jitter spikes.
+ * Steps across segment breaks count as zero and restart the acceleration limit from standstill.
+ * When both points carry a device (Doppler) speed it is used instead of the position-derived one.
+ * Otherwise positional speed is blended towards the previous speed by fix quality, so steps
+ * touching a poor fix (high HDOP / few satellites) hold the previous speed.
  */
-function calculateRobustSpeeds(points: GPXPoint[]): { speed: number; time: number; distance: number; isClamped: boolean }[] {
+function calculateRobustSpeeds(points: GPXPoint[], profile: AnalysisProfile): RobustSegment[] {
   if (points.length < 2) return [];
 
-  const results: { speed: number; time: number; distance: number; isClamped: boolean }[] = [];
-  // Dynamic Acceleration Limit
-  // 9.0 m/s^2 at 0 km/h (launch)
-  // Decays by 1 m/s^2 every 25 km/h
-  // Min 2.0 m/s^2 at high speeds (>175 km/h)
-  const getMaxAccel = (speedKmh: number) => {
-    return Math.max(2.0, 9.0 - (speedKmh / 25.0));
-  };
+  const results: RobustSegment[] = [];
+  // Dynamic Acceleration Limit from the profile
+  // (Car: 9.0 m/s^2 at launch, 1 m/s^2 less every 25 km/h, min 2.0 m/s^2)
+  const getMaxAccel = (speedKmh: number) => maxAccelForSpeed(profile, speedKmh);
 
   let prevSpeedMps = 0;
 
@@ -1087,6 +1257,12 @@ function calculateRobustSpeeds(points: GPXPoint[]): { speed: number; time: numbe
     const prev = points[i - 1];
     const curr = points[i];
 
+    if (isSegmentStart(points, i)) {
+      results.push({ speed: 0, time: 0, distance: 0, isClamped: false, isBreak: true });
+      prevSpeedMps = 0;
+      continue;
+    }
+
     const distKm = haversineDistance(prev.lat, prev.lon, curr.lat, curr.lon);
     let timeSec = 0;
 
@@ -1097,10 +1273,20 @@ function calculateRobustSpeeds(points: GPXPoint[]): { speed: number; time: numbe
     let speedKmh = 0;
     let speedMps = 0;
     let isClamped = false;
+    const quality = Math.min(fixQuality(prev), fixQuality(curr));
 
-    if (timeSec > 0) {
-      const rawSpeedKmh = distKm / (timeSec / 3600);
+    if (timeSec > 0 && prev.speed !== undefined && curr.speed !== undefined) {
+      // Device speed: already filtered by the receiver, only sanity-checked
+      speedMps = (prev.speed + curr.speed) / 2;
+      speedKmh = speedMps * 3.6;
+      if (speedKmh > 350) {
+        speedKmh = prevSpeedMps * 3.6;
+        isClamped = true;
+      }
+    } else if (timeSec > 0) {
+      const rawSpeedKmh = (distKm / (timeSec / 3600)) * quality + prevSpeedMps * 3.6 * (1 - quality);
       const rawSpeedMps = rawSpeedKmh / 3.6;
+      if (quality === 0) isClamped = true; // keep poor fixes out of accel/brake events
 
       // Check Accel against Dynamic Limit based on CURRENT Speed (or prev speed)
       // Using Prev Speed is safer for causality
@@ -1126,7 +1312,10 @@ function calculateRobustSpeeds(points: GPXPoint[]): { speed: number; time: numbe
       }
     }
 
-    results.push({ speed: speedKmh, time: timeSec, distance: distKm, isClamped });
+    // Distance across an untrusted fix follows the (held) speed rather than the position jump
+    const distance = quality < 1 && timeSec > 0 ? distKm * quality + (speedKmh * timeSec / 3600) * (1 - quality) : distKm;
+
+    results.push({ speed: speedKmh, time: timeSec, distance, isClamped, isBreak: false });
     prevSpeedMps = speedKmh / 3.6;
   }
 
@@ -1134,84 +1323,245 @@ function calculateRobustSpeeds(points: GPXPoint[]): { speed: number; time: numbe
 }
 
 /**
- * Generates a complete ProcessedTrack for caching.
- * This pre-computes all smoothed data so it doesn't need to be recalculated on every view.
+ * Per-step speeds for the profile's smoothing method. With 'kalman' they come from the RTS
+ * estimates (mean of the two endpoints) and carry an acceleration, so callers skip their own
+ * speed/acceleration moving averages. Falls back to robust speeds when the filter can't run
+ * (no timestamps).
  */
-export function generateProcessedTrack(points: GPXPoint[]): ProcessedTrack {
-  const stats = calculateStats(points);
-  const previewCoordinates = generatePreviewPolyline(points);
+function calculateMotion(points: GPXPoint[], profile: AnalysisProfile): TrackMotion {
+  const kalman = profile.smoothing === 'kalman' && points.length >= 2 ? kalmanSmoothTrack(points) : null;
+  if (!kalman) return { segments: calculateRobustSpeeds(points, profile), kalman: null };
 
-  if (points.length < 2) {
-    return {
-      version: PROCESSED_TRACK_VERSION,
-      points: points.map(p => ({
-        lat: p.lat,
-        lon: p.lon,
-        ele: p.ele,
-        time: p.time?.toISOString(),
-        smoothedLat: p.lat,
-        smoothedLon: p.lon,
-        smoothedEle: p.ele,
-        speed: 0,
-        acceleration: 0,
-        distance: 0,
-        elapsedTime: 0
-      })),
-      stats,
-      previewCoordinates
-    };
+  const segments: RobustSegment[] = [];
+  for (let i = 1; i < points.length; i++) {
+    if (isSegmentStart(points, i)) {
+      segments.push({ speed: 0, time: 0, distance: 0, isClamped: false, isBreak: true, acceleration: 0 });
+      continue;
+    }
+    const prev = kalman[i - 1];
+    const curr = kalman[i];
+    const timeSec = points[i - 1].time && points[i].time ? (points[i].time!.getTime() - points[i - 1].time!.getTime()) / 1000 : 0;
+    const speed = ((prev.speed + curr.speed) / 2) * 3.6;
+    segments.push({
+      speed,
+      time: timeSec,
+      distance: haversineDistance(prev.lat, prev.lon, curr.lat, curr.lon),
+      // Estimates across a missing fix are pure prediction - keep them out of accel/brake events
+      isClamped: fixQuality(points[i - 1]) === 0 || fixQuality(points[i]) === 0 || speed > profile.maxSpeed,
+      isBreak: false,
+      acceleration: (prev.acceleration + curr.acceleration) / 2,
+    });
   }
+  return { segments, kalman };
+}
 
-  // Compute smoothed coordinates (same logic as calculateStats)
-  const smoothedPoints = points.map((p, i) => {
-    const window = COORDINATE_SMOOTHING_WINDOW;
-    const offset = Math.floor(window / 2);
-    let latSum = 0, lonSum = 0, count = 0;
+/**
+ * Lateral (centripetal) acceleration per point in m/s², positive when turning right.
+ * With the Kalman estimate it is the part of the acceleration vector perpendicular to the
+ * velocity. Otherwise it is speed × yaw rate, the yaw rate being the heading change between the
+ * smoothed steps either side of the point, then averaged like the longitudinal acceleration.
+ * Stopped, clamped and implausible readings are 0.
+ */
+function calculateLateralAccelerations(
+  points: GPXPoint[],
+  smoothedPoints: { lat: number; lon: number }[],
+  segments: RobustSegment[],
+  kalman: KalmanEstimate[] | null,
+  profile: AnalysisProfile
+): number[] {
+  if (kalman) {
+    return kalman.map((k, i) => {
+      if (k.speed * 3.6 < profile.stopSpeedThreshold || fixQuality(points[i]) === 0) return 0;
+      // Cross product of velocity and acceleration over |v| ([east, north], bearings run clockwise)
+      const lateral = (k.velocity[1] * k.accelVector[0] - k.velocity[0] * k.accelVector[1]) / k.speed;
+      return Math.abs(lateral) > MAX_LATERAL_ACCEL ? 0 : lateral;
+    });
+  }
+
+  const raw: number[] = new Array(points.length).fill(0);
+  for (let i = 1; i < points.length - 1; i++) {
+    const before = segments[i - 1];
+    const after = segments[i];
+    if (before.isBreak || after.isBreak || before.isClamped || after.isClamped) continue;
+    if (before.distance < MIN_DISTANCE_FOR_BEARING || after.distance < MIN_DISTANCE_FOR_BEARING) continue;
+
+    const speed = (before.speed + after.speed) / 2; // km/h
+    const dt = (before.time + after.time) / 2;
+    if (dt <= 0 || speed < profile.stopSpeedThreshold) continue;
 
+    const prev = smoothedPoints[i - 1], curr = smoothedPoints[i], next = smoothedPoints[i + 1];
+    let headingChange = calculateBearing(curr.lat, curr.lon, next.lat, next.lon) - calculateBearing(prev.lat, prev.lon, curr.lat, curr.lon);
+    if (headingChange > 180) headingChange -= 360;
+    if (headingChange < -180) headingChange += 360;
+
+    const lateral = (speed / 3.6) * ((headingChange * Math.PI) / 180) / dt;
+    raw[i] = Math.abs(lateral) > MAX_LATERAL_ACCEL ? 0 : lateral;
+  }
+
+  const offset = Math.floor(ACCEL_SMOOTHING_WINDOW / 2);
+  return raw.map((_, i) => {
+    let sum = 0, count = 0;
     for (let j = -offset; j <= offset; j++) {
       const idx = i + j;
-      if (idx >= 0 && idx < points.length) {
-        latSum += points[idx].lat;
-        lonSum += points[idx].lon;
+      if (idx >= 0 && idx < raw.length && sameSegment(points[idx], points[i])) { sum += raw[idx]; count++; }
+    }
+    return count > 0 ? sum / count : 0;
+  });
+}
+
+// Peaks of lateral acceleration above the profile's threshold; readings within
+// HARSH_CORNERING_MERGE_WINDOW of each other are one event, marked where it peaks.
+function detectHarshCornering(points: GPXPoint[], lateralAccelerations: number[], profile: AnalysisProfile): [number, number, number][] {
+  const events: [number, number, number][] = [];
+  let peak = -1;
+  let lastTime = -Infinity;
+
+  const flush = () => {
+    if (peak >= 0) events.push([points[peak].lat, points[peak].lon, lateralAccelerations[peak]]);
+  };
+
+  for (let i = 0; i < points.length; i++) {
+    const lateral = lateralAccelerations[i];
+    if (Math.abs(lateral) < profile.harshCorneringThreshold) continue;
+
+    const time = points[i].time ? points[i].time!.getTime() / 1000 : i;
+    if (peak >= 0 && time - lastTime <= HARSH_CORNERING_MERGE_WINDOW && sameSegment(points[peak], points[i])) {
+      if (Math.abs(lateral) > Math.abs(lateralAccelerations[peak])) peak = i;
+    } else {
+      flush();
+      peak = i;
+    }
+    lastTime = time;
+  }
+  flush();
+
+  return events;
+}
+
+/**
+ * Stop types by duration and pattern: long stops are rest breaks; short stops with only a short
+ * crawl to the next (or from the previous) one are congestion; any other short stop is a signal stop.
+ */
+function classifyStops(stops: Stop[], smoothedSpeeds: number[], timeDeltas: number[], breaks: boolean[]) {
+  const queued = stops.map(() => false);
+  for (let k = 1; k < stops.length; k++) {
+    // A rest break doesn't join a queue (e.g. pulling out of a car park)
+    if (stops[k - 1].duration >= REST_BREAK_DURATION || stops[k].duration >= REST_BREAK_DURATION) continue;
+    const from = stops[k - 1].endIndex;
+    const to = stops[k].startIndex;
+    let gap = 0;
+    let crawl = true;
+    for (let i = from; i < to; i++) {
+      gap += timeDeltas[i];
+      if (breaks[i] || smoothedSpeeds[i] > CONGESTION_CRAWL_SPEED || gap > CONGESTION_GAP_TIME) { crawl = false; break; }
+    }
+    if (crawl) queued[k - 1] = queued[k] = true;
+  }
+
+  stops.forEach((stop, k) => {
+    if (stop.duration >= REST_BREAK_DURATION) stop.type = 'rest';
+    else stop.type = queued[k] ? 'congestion' : 'signal';
+  });
+}
+
+// Smoothed elevation per point: a moving average within the segment (undefined where the point has none)
+function smoothElevations(points: GPXPoint[]): (number | undefined)[] {
+  const offset = Math.floor(ELEVATION_SMOOTHING_WINDOW / 2);
+  return points.map((p, i) => {
+    if (p.ele === undefined) return undefined;
+    let sum = 0, count = 0;
+    for (let j = -offset; j <= offset; j++) {
+      const idx = i + j;
+      if (idx >= 0 && idx < points.length && points[idx].ele !== undefined && sameSegment(points[idx], p)) {
+        sum += points[idx].ele!;
         count++;
       }
     }
+    return count > 0 ? sum / count : p.ele;
+  });
+}
 
+// Smoothed speed per step (km/h): a moving average within the segment; Kalman speeds are already smooth
+function smoothSpeeds(segments: RobustSegment[], kalman: KalmanEstimate[] | null): number[] {
+  const breaks = segments.map(s => s.isBreak);
+  const offset = Math.floor((kalman ? 1 : SPEED_SMOOTHING_WINDOW) / 2);
+  return segments.map((_, i) => {
+    let sum = 0, count = 0;
+    for (let j = -offset; j <= offset; j++) {
+      const idx = i + j;
+      if (idx >= 0 && idx < segments.length && !crossesBreak(breaks, i, idx)) { sum += segments[idx].speed; count++; }
+    }
+    return count > 0 ? sum / count : 0;
+  });
+}
+
+// Smoothed speed per step (km/h, step k = points[k] -> points[k + 1]), as used for max speed and stops
+export function smoothedStepSpeeds(points: GPXPoint[], profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE): number[] {
+  if (points.length < 2) return [];
+  const { segments, kalman } = calculateMotion(points, profile);
+  return smoothSpeeds(segments, kalman);
+}
+
+// Vehicle-model steps, one per segment; null across a segment break
+function buildDriveSteps(
+  smoothedSpeeds: number[],
+  smoothedElevations: (number | undefined)[],
+  segments: RobustSegment[],
+  profile: AnalysisProfile
+): (DriveStep | null)[] {
+  return smoothedSpeeds.map((speed, i) => {
+    if (segments[i].isBreak) return null;
+    const prevEle = smoothedElevations[i];
+    const nextEle = smoothedElevations[i + 1];
     return {
-      lat: count > 0 ? latSum / count : p.lat,
-      lon: count > 0 ? lonSum / count : p.lon
+      distance: segments[i].distance * 1000,
+      time: segments[i].time,
+      speed: speed / 3.6,
+      prevSpeed: i > 0 && !segments[i - 1].isBreak ? smoothedSpeeds[i - 1] / 3.6 : 0,
+      climb: prevEle !== undefined && nextEle !== undefined ? nextEle - prevEle : 0,
+      stopped: speed < profile.stopSpeedThreshold,
     };
   });
+}
+
+// Smoothed coordinates per point: a moving average within the segment, or the Kalman positions
+function smoothCoordinates(points: GPXPoint[], kalman: KalmanEstimate[] | null): { lat: number; lon: number }[] {
+  if (kalman) return kalman.map(k => ({ lat: k.lat, lon: k.lon }));
+
+  const offset = Math.floor(COORDINATE_SMOOTHING_WINDOW / 2);
+  return points.map((p, i) => {
+    let latSum = 0, lonSum = 0, count = 0;
 
-  // Compute smoothed elevations
-  const smoothedElevations: (number | undefined)[] = [];
-  for (let i = 0; i < points.length; i++) {
-    if (points[i].ele === undefined) {
-      smoothedElevations.push(undefined);
-      continue;
-    }
-    let sum = 0, count = 0;
-    const offset = Math.floor(ELEVATION_SMOOTHING_WINDOW / 2);
     for (let j = -offset; j <= offset; j++) {
       const idx = i + j;
-      if (idx >= 0 && idx < points.length && points[idx].ele !== undefined) {
-        sum += points[idx].ele!;
+      if (idx >= 0 && idx < points.length && sameSegment(points[idx], p)) {
+        latSum += points[idx].lat;
+        lonSum += points[idx].lon;
         count++;
       }
     }
-    smoothedElevations.push(count > 0 ? sum / count : points[i].ele);
-  }
 
-  // Compute speeds using robust calculation
-  const robustSegments = calculateRobustSpeeds(points);
+    return {
+      lat: count > 0 ? latSum / count : p.lat,
+      lon: count > 0 ? lonSum / count : p.lon
+    };
+  });
+}
+
+/**
+ * Longitudinal acceleration per point (m/s²). The Kalman estimate is per point; the
+ * moving-average value belongs to the step ending at the point (0 for the first point).
+ */
+function pointAccelerations(segments: RobustSegment[], kalman: KalmanEstimate[] | null): number[] {
+  if (kalman) return kalman.map(k => k.acceleration);
 
-  // Compute accelerations
+  const breaks = segments.map(s => s.isBreak);
   const accelerations: number[] = [0];
-  for (let i = 1; i < robustSegments.length; i++) {
-    const prevSpeed = robustSegments[i - 1].speed / 3.6; // m/s
-    const currSpeed = robustSegments[i].speed / 3.6;
-    const timeDiff = robustSegments[i].time;
-    if (timeDiff > 0) {
+  for (let i = 1; i < segments.length; i++) {
+    const prevSpeed = segments[i - 1].speed / 3.6; // m/s
+    const currSpeed = segments[i].speed / 3.6;
+    const timeDiff = segments[i].time;
+    if (timeDiff > 0 && !breaks[i - 1]) {
       accelerations.push((currSpeed - prevSpeed) / timeDiff);
     } else {
       accelerations.push(0);
@@ -1220,12 +1570,12 @@ export function generateProcessedTrack(points: GPXPoint[]): ProcessedTrack {
 
   // Smooth accelerations
   const smoothedAccelerations: number[] = [];
+  const offset = Math.floor(ACCEL_SMOOTHING_WINDOW / 2);
   for (let i = 0; i < accelerations.length; i++) {
     let sum = 0, count = 0;
-    const offset = Math.floor(ACCEL_SMOOTHING_WINDOW / 2);
     for (let j = -offset; j <= offset; j++) {
       const idx = i + j;
-      if (idx >= 0 && idx < accelerations.length) {
+      if (idx >= 0 && idx < accelerations.length && !crossesBreak(breaks, i, idx)) {
         sum += accelerations[idx];
         count++;
       }
@@ -1233,6 +1583,103 @@ export function generateProcessedTrack(points: GPXPoint[]): ProcessedTrack {
     smoothedAccelerations.push(count > 0 ? sum / count : 0);
   }
 
+  return [0, ...smoothedAccelerations];
+}
+
+export interface GForceSeries {
+  longitudinal: number[]; // m/s² per point, + = accelerating
+  lateral: number[];      // m/s² per point, + = turning right
+}
+
+/**
+ * Per-point longitudinal and lateral acceleration for the friction-circle (g-g) diagram -
+ * the same values generateProcessedTrack stores, without building the whole track.
+ */
+export function calculateGForces(points: GPXPoint[], profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE): GForceSeries {
+  if (points.length < 2) return { longitudinal: points.map(() => 0), lateral: points.map(() => 0) };
+
+  const { segments, kalman } = calculateMotion(points, profile);
+  const smoothedPoints = smoothCoordinates(points, kalman);
+  return {
+    longitudinal: pointAccelerations(segments, kalman),
+    lateral: calculateLateralAccelerations(points, smoothedPoints, segments, kalman, profile),
+  };
+}
+
+export interface BatterySeries {
+  distance: number[]; // cumulative km per point
+  energy: number[];   // cumulative kWh drawn from the battery per point, net of regen
+}
+
+/**
+ * Battery energy along the drive for the state-of-charge chart - the same steps calculateStats
+ * estimates the drive's energy from.
+ */
+export function calculateBatteryUse(points: GPXPoint[], profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE, vehicle: VehicleSpec = DEFAULT_VEHICLE): BatterySeries {
+  if (points.length < 2) return { distance: points.map(() => 0), energy: points.map(() => 0) };
+
+  const { segments, kalman } = calculateMotion(points, profile);
+  const steps = buildDriveSteps(smoothSpeeds(segments, kalman), smoothElevations(points), segments, profile);
+  const distance = [0];
+  const energy = [0];
+  steps.forEach((step, i) => {
+    distance.push(distance[i] + segments[i].distance);
+    energy.push(energy[i] + (step ? batteryEnergy(step, vehicle) : 0));
+  });
+  return { distance, energy };
+}
+
+/**
+ * Generates a complete ProcessedTrack for caching.
+ * This pre-computes all smoothed data so it doesn't need to be recalculated on every view.
+ */
+export function generateProcessedTrack(points: GPXPoint[], profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE, vehicle: VehicleSpec = DEFAULT_VEHICLE): ProcessedTrack {
+  // Worked out once for the stats and the per-point data
+  const motion = calculateMotion(points, profile);
+  const stats = statsFromMotion(points, motion, profile, vehicle);
+  const previewCoordinates = generatePreviewPolyline(points);
+
+  if (points.length < 2) {
+    return {
+      version: PROCESSED_TRACK_VERSION,
+      points: points.map(p => ({
+        lat: p.lat,
+        lon: p.lon,
+        ele: p.ele,
+        time: p.time?.toISOString(),
+        smoothedLat: p.lat,
+        smoothedLon: p.lon,
+        smoothedEle: p.ele,
+        speed: 0,
+        acceleration: 0,
+        distance: 0,
+        elapsedTime: 0,
+        channels: p.channels,
+        segment: p.segment,
+        deviceSpeed: p.speed,
+        course: p.course,
+        hdop: p.hdop,
+        satellites: p.satellites,
+        fix: p.fix
+      })),
+      stats,
+      previewCoordinates,
+      profile
+    };
+  }
+
+  // Speeds from the robust calculation (or the Kalman estimate)
+  const { segments: robustSegments, kalman } = motion;
+
+  // Compute smoothed coordinates (same logic as calculateStats)
+  const smoothedPoints = smoothCoordinates(points, kalman);
+
+  // Compute smoothed elevations
+  const smoothedElevations = smoothElevations(points);
+
+  const accelerations = pointAccelerations(robustSegments, kalman);
+  const lateralAccelerations = calculateLateralAccelerations(points, smoothedPoints, robustSegments, kalman, profile);
+
   // Build cumulative distances and elapsed times
   let cumulativeDistance = 0;
   const startTime = points[0]?.time?.getTime() || 0;
@@ -1252,10 +1699,19 @@ export function generateProcessedTrack(points: GPXPoint[]): ProcessedTrack {
       smoothedLat: smoothedPoints[i].lat,
       smoothedLon: smoothedPoints[i].lon,
       smoothedEle: smoothedElevations[i],
-      speed: i > 0 ? robustSegments[i - 1]?.speed || 0 : 0,
-      acceleration: i > 0 ? smoothedAccelerations[i - 1] || 0 : 0,
+      // The Kalman estimate is per point; moving-average values belong to the step ending here
+      speed: kalman ? kalman[i].speed * 3.6 : i > 0 ? robustSegments[i - 1]?.speed || 0 : 0,
+      acceleration: accelerations[i],
+      lateralAcceleration: lateralAccelerations[i],
       distance: cumulativeDistance,
-      elapsedTime
+      elapsedTime,
+      channels: p.channels,
+      segment: p.segment,
+      deviceSpeed: p.speed,
+      course: p.course,
+      hdop: p.hdop,
+      satellites: p.satellites,
+      fix: p.fix
     };
   });
 
@@ -1263,6 +1719,7 @@ export function generateProcessedTrack(points: GPXPoint[]): ProcessedTrack {
     version: PROCESSED_TRACK_VERSION,
     points: processedPoints,
     stats,
-    previewCoordinates
+    previewCoordinates,
+    profile
   };
 }
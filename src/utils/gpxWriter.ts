@@ -0,0 +1,62 @@
+import { GPXPoint } from "./gpxParser";
+
+const escapeXML = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Device speed/course and any logged channels (keys are XML-safe, see channelKeyForColumn)
+const writeExtensions = (p: GPXPoint) => {
+  const values: [string, number][] = [
+    ...(p.speed !== undefined ? [['speed', p.speed] as [string, number]] : []),
+    ...(p.course !== undefined ? [['course', p.course] as [string, number]] : []),
+    ...Object.entries(p.channels || {}),
+  ];
+  if (values.length === 0) return '';
+  return `<extensions>${values.map(([key, value]) => `<${key}>${value}</${key}>`).join('')}</extensions>`;
+};
+
+const writeTrackpoint = (p: GPXPoint) => `
+      <trkpt lat="${p.lat}" lon="${p.lon}">
+        ${p.ele !== undefined ? `<ele>${p.ele}</ele>` : ''}
+        ${p.time ? `<time>${p.time.toISOString()}</time>` : ''}
+        ${p.satellites !== undefined ? `<sat>${p.satellites}</sat>` : ''}
+        ${p.hdop !== undefined ? `<hdop>${p.hdop}</hdop>` : ''}
+        ${writeExtensions(p)}
+      </trkpt>`;
+
+/**
+ * Serialises points into a GPX 1.1 document.
+ * Used wherever we store a track that didn't arrive as GPX (Strava streams, TCX imports, ...).
+ * Each point `segment` becomes its own <trkseg>.
+ */
+export const createGPXContent = (points: GPXPoint[], activityName: string, startTime?: string, description?: string) => {
+  const name = escapeXML(activityName);
+  const desc = description ? escapeXML(description) : undefined;
+  const metadataTime = startTime || points[0]?.time?.toISOString();
+
+  const segments: GPXPoint[][] = [];
+  points.forEach((p, i) => {
+    if (i === 0 || (p.segment ?? 0) !== (points[i - 1].segment ?? 0)) segments.push([]);
+    segments[segments.length - 1].push(p);
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="DrivenStat">
+  <metadata>
+    <name>${name}</name>
+    ${desc ? `<desc>${desc}</desc>` : ''}
+    ${metadataTime ? `<time>${metadataTime}</time>` : ''}
+  </metadata>
+  <trk>
+    <name>${name}</name>
+    ${desc ? `<desc>${desc}</desc>` : ''}
+    ${segments.map(segment => `
+    <trkseg>
+      ${segment.map(writeTrackpoint).join('')}
+    </trkseg>`).join('')}
+  </trk>
+</gpx>`;
+};
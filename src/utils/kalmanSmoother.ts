@@ -0,0 +1,224 @@
+import { GPXPoint, fixQuality, isSegmentStart } from "./gpxParser";
+
+/**
+ * Constant-acceleration Kalman filter with a Rauch-Tung-Striebel (RTS) smoother.
+ *
+ * Each segment is projected onto a local east/north plane (metres) and each axis is filtered
+ * independently with state [position, velocity, acceleration] driven by white jerk noise.
+ * GPS positions are measurements (noise scaled by HDOP); device speeds, when present, are
+ * velocity measurements along the course (or along the current heading estimate).
+ * The backward RTS pass makes every estimate use the whole track, so there is no lag at
+ * corners and braking events keep their shape.
+ */
+
+export interface KalmanEstimate {
+  lat: number;
+  lon: number;
+  speed: number;        // m/s
+  acceleration: number; // m/s², along the direction of travel
+  velocity: [number, number];     // m/s, [east, north]
+  accelVector: [number, number];  // m/s², [east, north]
+}
+
+// Row-major 3x3 matrix
+type Matrix3 = number[];
+type Vector3 = [number, number, number];
+
+export const KALMAN_JERK_NOISE = 5.0;       // (m/s³)² per Hz - how quickly acceleration may change
+export const KALMAN_POSITION_SIGMA = 4.0;   // m - GPS position noise without HDOP
+export const KALMAN_HDOP_SIGMA = 2.5;       // m per unit of HDOP
+export const KALMAN_VELOCITY_SIGMA = 0.5;   // m/s - device (Doppler) speed noise
+const MIN_HEADING_SPEED = 1.0;              // m/s - below this the heading estimate is too noisy to project a speed on
+
+const EARTH_RADIUS_M = 6371000;
+const DEG = Math.PI / 180;
+
+// --- 3x3 helpers (called per point on long tracks, so no generic matrix code) ---
+
+function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+  const r: Matrix3 = new Array(9);
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) r[i * 3 + j] = a[i * 3] * b[j] + a[i * 3 + 1] * b[3 + j] + a[i * 3 + 2] * b[6 + j];
+  }
+  return r;
+}
+
+const transpose = (a: Matrix3): Matrix3 => [a[0], a[3], a[6], a[1], a[4], a[7], a[2], a[5], a[8]];
+
+const apply = (a: Matrix3, v: Vector3): Vector3 => [
+  a[0] * v[0] + a[1] * v[1] + a[2] * v[2],
+  a[3] * v[0] + a[4] * v[1] + a[5] * v[2],
+  a[6] * v[0] + a[7] * v[1] + a[8] * v[2],
+];
+
+// Cofactor inverse; the matrices here are covariances, so they are invertible in practice
+function invert(m: Matrix3): Matrix3 {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h, B = -(d * i - f * g), C = d * h - e * g;
+  const det = a * A + b * B + c * C || 1e-12;
+  return [
+    A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * h - b * g) / det, (a * e - b * d) / det,
+  ];
+}
+
+const transition = (dt: number): Matrix3 => [1, dt, (dt * dt) / 2, 0, 1, dt, 0, 0, 1];
+
+// F P Fᵀ + Q, with Q the discretised white-jerk process noise
+function predictCovariance(P: Matrix3, F: Matrix3, dt: number, q: number): Matrix3 {
+  const dt2 = dt * dt, dt3 = dt2 * dt, dt4 = dt3 * dt, dt5 = dt4 * dt;
+  const Q = [
+    (q * dt5) / 20, (q * dt4) / 8, (q * dt3) / 6,
+    (q * dt4) / 8, (q * dt3) / 3, (q * dt2) / 2,
+    (q * dt3) / 6, (q * dt2) / 2, q * dt,
+  ];
+  return multiply(multiply(F, P), transpose(F)).map((v, k) => v + Q[k]);
+}
+
+// Scalar measurement of one state component (0 = position, 1 = velocity); independent
+// measurements can be applied one after the other
+function update(x: Vector3, P: Matrix3, component: number, z: number, variance: number): [Vector3, Matrix3] {
+  const S = P[component * 4] + variance;
+  const K = [P[component] / S, P[3 + component] / S, P[6 + component] / S];
+  const innovation = z - x[component];
+  const row = [P[component * 3], P[component * 3 + 1], P[component * 3 + 2]];
+  return [
+    [x[0] + K[0] * innovation, x[1] + K[1] * innovation, x[2] + K[2] * innovation],
+    P.map((v, k) => v - K[Math.floor(k / 3)] * row[k % 3]),
+  ];
+}
+
+interface AxisMeasurement {
+  position?: number;       // m
+  positionVariance: number;
+  velocity?: number;       // m/s
+}
+
+/**
+ * Filters then RTS-smooths one axis. Returns the smoothed [pos, vel, acc] state per epoch.
+ * `dts[k]` is the time from epoch k-1 to k (dts[0] is ignored).
+ */
+function smoothAxis(measurements: AxisMeasurement[], dts: number[], q: number): Vector3[] {
+  const n = measurements.length;
+  const first = measurements.find(m => m.position !== undefined)?.position ?? 0;
+
+  let x: Vector3 = [first, 0, 0];
+  let P: Matrix3 = [100, 0, 0, 0, 900, 0, 0, 0, 100];
+
+  const filteredX: Vector3[] = [];
+  const filteredP: Matrix3[] = [];
+  const predictedX: Vector3[] = [];
+  const predictedP: Matrix3[] = [];
+
+  for (let k = 0; k < n; k++) {
+    // Predict
+    if (k > 0) {
+      const F = transition(dts[k]);
+      x = apply(F, x);
+      P = predictCovariance(P, F, dts[k], q);
+    }
+    predictedX.push(x);
+    predictedP.push(P);
+
+    // Update with whatever this epoch measured
+    const m = measurements[k];
+    if (m.position !== undefined) [x, P] = update(x, P, 0, m.position, m.positionVariance);
+    if (m.velocity !== undefined) [x, P] = update(x, P, 1, m.velocity, KALMAN_VELOCITY_SIGMA ** 2);
+    filteredX.push(x);
+    filteredP.push(P);
+  }
+
+  // RTS backward pass
+  const smoothed: Vector3[] = new Array(n);
+  smoothed[n - 1] = filteredX[n - 1];
+  for (let k = n - 2; k >= 0; k--) {
+    const F = transition(dts[k + 1]);
+    const C = multiply(multiply(filteredP[k], transpose(F)), invert(predictedP[k + 1]));
+    const correction = apply(C, [
+      smoothed[k + 1][0] - predictedX[k + 1][0],
+      smoothed[k + 1][1] - predictedX[k + 1][1],
+      smoothed[k + 1][2] - predictedX[k + 1][2],
+    ]);
+    smoothed[k] = [filteredX[k][0] + correction[0], filteredX[k][1] + correction[1], filteredX[k][2] + correction[2]];
+  }
+
+  return smoothed;
+}
+
+function smoothSegment(points: GPXPoint[], q: number): KalmanEstimate[] {
+  const lat0 = points[0].lat;
+  const lon0 = points[0].lon;
+  const eastScale = EARTH_RADIUS_M * DEG * Math.cos(lat0 * DEG);
+  const northScale = EARTH_RADIUS_M * DEG;
+
+  const dts = points.map((p, i) =>
+    i > 0 && p.time && points[i - 1].time ? Math.max(0, (p.time.getTime() - points[i - 1].time!.getTime()) / 1000) : 0
+  );
+
+  const east: AxisMeasurement[] = [];
+  const north: AxisMeasurement[] = [];
+  // Rough forward pass for the heading used by speed-only (no course) device measurements
+  let heading: [number, number] | null = null;
+
+  points.forEach((p, i) => {
+    const usable = fixQuality(p) > 0;
+    const sigma = p.hdop !== undefined ? Math.max(KALMAN_POSITION_SIGMA / 2, p.hdop * KALMAN_HDOP_SIGMA) : KALMAN_POSITION_SIGMA;
+    const e = (p.lon - lon0) * eastScale;
+    const n = (p.lat - lat0) * northScale;
+
+    if (i > 0 && dts[i] > 0) {
+      const prevE = (points[i - 1].lon - lon0) * eastScale;
+      const prevN = (points[i - 1].lat - lat0) * northScale;
+      const ve = (e - prevE) / dts[i];
+      const vn = (n - prevN) / dts[i];
+      const v = Math.hypot(ve, vn);
+      if (v > MIN_HEADING_SPEED) heading = [ve / v, vn / v];
+    }
+
+    let velocity: [number, number] | undefined;
+    if (p.speed !== undefined && p.course !== undefined) {
+      velocity = [p.speed * Math.sin(p.course * DEG), p.speed * Math.cos(p.course * DEG)];
+    } else if (p.speed !== undefined && (p.speed < 0.2 || heading)) {
+      velocity = p.speed < 0.2 ? [0, 0] : [p.speed * heading![0], p.speed * heading![1]];
+    }
+
+    east.push({ position: usable ? e : undefined, positionVariance: sigma * sigma, velocity: velocity?.[0] });
+    north.push({ position: usable ? n : undefined, positionVariance: sigma * sigma, velocity: velocity?.[1] });
+  });
+
+  const e = smoothAxis(east, dts, q);
+  const n = smoothAxis(north, dts, q);
+
+  return points.map((_, i) => {
+    const velocity: [number, number] = [e[i][1], n[i][1]];
+    const accelVector: [number, number] = [e[i][2], n[i][2]];
+    const speed = Math.hypot(velocity[0], velocity[1]);
+    return {
+      lat: lat0 + n[i][0] / northScale,
+      lon: lon0 + e[i][0] / eastScale,
+      speed,
+      acceleration: speed > 0.1 ? (velocity[0] * accelVector[0] + velocity[1] * accelVector[1]) / speed : 0,
+      velocity,
+      accelVector,
+    };
+  });
+}
+
+/**
+ * Kalman/RTS estimate for every point, one independent run per segment.
+ * Returns null when the track has no timestamps (the motion model needs time).
+ */
+export function kalmanSmoothTrack(points: GPXPoint[], jerkNoise = KALMAN_JERK_NOISE): KalmanEstimate[] | null {
+  if (points.length === 0 || !points.some(p => p.time)) return null;
+
+  const estimates: KalmanEstimate[] = [];
+  let start = 0;
+  for (let i = 1; i <= points.length; i++) {
+    if (i === points.length || isSegmentStart(points, i)) {
+      estimates.push(...smoothSegment(points.slice(start, i), jerkNoise));
+      start = i;
+    }
+  }
+  return estimates;
+}
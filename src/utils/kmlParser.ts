@@ -0,0 +1,65 @@
+import { unzipSync, strFromU8 } from "fflate";
+import { GPXPoint } from "./gpxParser";
+import { XmlElement, parseXML } from "./xmlParser";
+
+// Google's gx: extension elements may use any prefix, so match on local name
+function getElementsByLocalName(parent: XmlElement, localName: string): XmlElement[] {
+  return Array.from(parent.getElementsByTagNameNS("*", localName));
+}
+
+function parseCoordinateTuple(tuple: string, separator: RegExp): { lon: number; lat: number; ele?: number } | null {
+  const [lon, lat, alt] = tuple.trim().split(separator).map(parseFloat);
+  if (isNaN(lat) || isNaN(lon)) return null;
+  return { lon, lat, ele: alt !== undefined && !isNaN(alt) ? alt : undefined };
+}
+
+/**
+ * Parses a KML document (Google Earth / My Maps) into GPXPoints.
+ * Timed `gx:Track`s (<when> + <gx:coord> pairs) are preferred; if there are none we fall back
+ * to plain <LineString> coordinates, which carry no timestamps.
+ */
+export function parseKML(kmlContent: string): GPXPoint[] {
+  const xmlDoc = parseXML(kmlContent);
+
+  const points: GPXPoint[] = [];
+
+  // Every gx:Track / LineString is a separate segment
+  let segment = 0;
+  for (const track of getElementsByLocalName(xmlDoc, "Track")) {
+    const whens = getElementsByLocalName(track, "when");
+    const coords = getElementsByLocalName(track, "coord");
+
+    for (let i = 0; i < coords.length; i++) {
+      // gx:coord is space separated: "lon lat alt"
+      const coord = parseCoordinateTuple(coords[i].textContent || "", /\s+/);
+      if (!coord) continue;
+      const when = whens[i]?.textContent;
+      points.push({ ...coord, time: when ? new Date(when) : undefined, segment });
+    }
+    segment++;
+  }
+  if (points.length > 0) return points;
+
+  for (const lineString of getElementsByLocalName(xmlDoc, "LineString")) {
+    const coordinates = getElementsByLocalName(lineString, "coordinates")[0]?.textContent || "";
+    // <coordinates> is a whitespace separated list of "lon,lat[,alt]" tuples
+    for (const tuple of coordinates.trim().split(/\s+/)) {
+      const coord = parseCoordinateTuple(tuple, /,/);
+      if (coord) points.push({ ...coord, segment });
+    }
+    segment++;
+  }
+  return points;
+}
+
+/**
+ * Unpacks a KMZ archive and parses its main KML document (doc.kml, or the first .kml entry).
+ */
+export function parseKMZ(buffer: ArrayBuffer): GPXPoint[] {
+  const entries = unzipSync(new Uint8Array(buffer));
+  const names = Object.keys(entries);
+  const kmlName = names.find(n => n.toLowerCase() === "doc.kml") || names.find(n => n.toLowerCase().endsWith(".kml"));
+  if (!kmlName) throw new Error("KMZ archive does not contain a KML document");
+
+  return parseKML(strFromU8(entries[kmlName]));
+}
@@ -0,0 +1,296 @@
+import {
+  GPXPoint,
+  calculateBearing,
+  haversineDistance,
+  isSegmentStart,
+  smoothedStepSpeeds,
+} from "./gpxParser";
+import { AnalysisProfile, DEFAULT_ANALYSIS_PROFILE } from "./analysisProfiles";
+
+/**
+ * Lap timing for circuit sessions: a start/finish line across the track (detected or placed by
+ * the user) splits the session into laps, and sector lines at thirds of the fastest lap split
+ * each lap into sectors. Crossing times are interpolated between the two points either side of
+ * a line, so lap times are not limited to the logging interval.
+ */
+
+// A gate across the track; a crossing only counts when travelling roughly along `heading`
+export interface TimingLine {
+  start: [number, number]; // [lat, lon]
+  end: [number, number];
+  heading: number;         // degrees, direction of travel at the line
+}
+
+export interface Lap {
+  number: number;
+  startIndex: number;  // last point before the start crossing
+  endIndex: number;    // first point after the finish crossing
+  startTime: number;   // ms, interpolated crossing time
+  lapTime: number;     // s
+  distance: number;    // km
+  maxSpeed: number;    // km/h
+  minSpeed: number;    // km/h
+  sectors: (number | null)[]; // s; null when a sector line wasn't crossed cleanly
+}
+
+export interface LapAnalysis {
+  line: TimingLine;
+  detected: boolean;         // line found automatically rather than placed by the user
+  sectorLines: TimingLine[];
+  laps: Lap[];
+  bestLap: number | null;    // index into laps
+  bestSectors: (number | null)[];
+  theoreticalBest: number | null; // s, sum of the best sectors (null if a sector was never timed)
+}
+
+export const TIMING_LINE_HALF_WIDTH = 20; // m either side of the track
+export const SECTOR_COUNT = 3;
+const MIN_LAP_TIME = 20;                  // s - crossings closer than this are GPS jitter at the line
+const MAX_HEADING_DIFF = 90;              // degrees
+const PASS_RADIUS = 15;                   // m - auto-detection: a pass must come this close to a candidate
+const MIN_DETECTED_PASSES = 3;            // two complete laps
+const MAX_CANDIDATES = 500;
+
+const METRES_PER_DEGREE = 111320;
+
+const headingDiff = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+// Local planar projection (metres) around a reference latitude; fine over a circuit
+const projector = (refLat: number) => {
+  const lonScale = METRES_PER_DEGREE * Math.cos((refLat * Math.PI) / 180);
+  return (lat: number, lon: number): [number, number] => [lon * lonScale, lat * METRES_PER_DEGREE];
+};
+
+// Direction of travel at a point, from its neighbours in the same segment
+function headingAt(points: GPXPoint[], index: number): number {
+  let from = index;
+  let to = index;
+  while (from > 0 && index - from < 2 && !isSegmentStart(points, from)) from--;
+  while (to < points.length - 1 && to - index < 2 && !isSegmentStart(points, to + 1)) to++;
+  if (from === to) return 0;
+  return calculateBearing(points[from].lat, points[from].lon, points[to].lat, points[to].lon);
+}
+
+// A line through points[index], perpendicular to the direction of travel there
+export function timingLineAt(points: GPXPoint[], index: number): TimingLine {
+  const p = points[index];
+  const heading = headingAt(points, index);
+  const offset = (bearing: number): [number, number] => {
+    const rad = (bearing * Math.PI) / 180;
+    return [
+      p.lat + (TIMING_LINE_HALF_WIDTH * Math.cos(rad)) / METRES_PER_DEGREE,
+      p.lon + (TIMING_LINE_HALF_WIDTH * Math.sin(rad)) / (METRES_PER_DEGREE * Math.cos((p.lat * Math.PI) / 180)),
+    ];
+  };
+  return { start: offset(heading - 90), end: offset(heading + 90), heading };
+}
+
+// Line at the track point closest to a map click
+export function timingLineNear(points: GPXPoint[], lat: number, lon: number): TimingLine | null {
+  if (points.length < 2) return null;
+  let best = 0;
+  let bestDist = Infinity;
+  points.forEach((p, i) => {
+    const d = haversineDistance(lat, lon, p.lat, p.lon);
+    if (d < bestDist) { bestDist = d; best = i; }
+  });
+  return timingLineAt(points, best);
+}
+
+interface Crossing {
+  index: number; // points[index - 1] -> points[index] crosses the line
+  time: number;  // ms
+}
+
+/**
+ * Crossings of `line` between points[from] and points[to], in the line's direction of travel.
+ * Crossings within MIN_LAP_TIME of the previous one are dropped.
+ */
+function findCrossings(points: GPXPoint[], line: TimingLine, from = 0, to = points.length - 1): Crossing[] {
+  const project = projector(line.start[0]);
+  const [ax, ay] = project(line.start[0], line.start[1]);
+  const [bx, by] = project(line.end[0], line.end[1]);
+  const crossings: Crossing[] = [];
+
+  for (let i = Math.max(1, from + 1); i <= to; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+    if (!prev.time || !curr.time || isSegmentStart(points, i)) continue;
+
+    const [px, py] = project(prev.lat, prev.lon);
+    const [qx, qy] = project(curr.lat, curr.lon);
+    const rx = qx - px, ry = qy - py;
+    const sx = bx - ax, sy = by - ay;
+    const denom = rx * sy - ry * sx;
+    if (denom === 0) continue;
+
+    // prev + t * r = a + u * s
+    const t = ((ax - px) * sy - (ay - py) * sx) / denom;
+    const u = ((ax - px) * ry - (ay - py) * rx) / denom;
+    if (t < 0 || t > 1 || u < 0 || u > 1) continue;
+    if (headingDiff(calculateBearing(prev.lat, prev.lon, curr.lat, curr.lon), line.heading) > MAX_HEADING_DIFF) continue;
+
+    const time = prev.time.getTime() + t * (curr.time.getTime() - prev.time.getTime());
+    const last = crossings[crossings.length - 1];
+    if (last && (time - last.time) / 1000 < MIN_LAP_TIME) continue;
+    crossings.push({ index: i, time });
+  }
+  return crossings;
+}
+
+/**
+ * Start/finish line for a session of laps: the place along the track that is passed most often
+ * in the same direction (ties go to the faster spot, usually the main straight).
+ * Returns null when no place is passed at least MIN_DETECTED_PASSES times.
+ */
+export function detectStartFinishLine(points: GPXPoint[]): TimingLine | null {
+  const timed = points.filter(p => p.time).length;
+  if (timed < 10) return null;
+
+  const project = projector(points[0].lat);
+  const xy = points.map(p => project(p.lat, p.lon));
+  const headings = points.map((_, i) => headingAt(points, i));
+  const times = points.map(p => p.time?.getTime());
+
+  let totalDistance = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (!isSegmentStart(points, i)) totalDistance += haversineDistance(points[i - 1].lat, points[i - 1].lon, points[i].lat, points[i].lon);
+  }
+  const spacing = Math.max(0.025, totalDistance / MAX_CANDIDATES); // km
+
+  const candidates: number[] = [];
+  let sinceLast = Infinity;
+  for (let i = 1; i < points.length - 1; i++) {
+    if (!isSegmentStart(points, i)) sinceLast += haversineDistance(points[i - 1].lat, points[i - 1].lon, points[i].lat, points[i].lon);
+    if (sinceLast >= spacing && times[i] !== undefined) {
+      candidates.push(i);
+      sinceLast = 0;
+    }
+  }
+
+  const speedAt = (i: number) => {
+    const a = points[i - 1], b = points[i + 1];
+    const dt = ((times[i + 1] ?? 0) - (times[i - 1] ?? 0)) / 1000;
+    return dt > 0 ? haversineDistance(a.lat, a.lon, b.lat, b.lon) / dt : 0;
+  };
+
+  let best = -1;
+  let bestPasses = 0;
+  let bestSpeed = 0;
+  for (const c of candidates) {
+    const [cx, cy] = xy[c];
+    let passes = 0;
+    let lastPass = -Infinity;
+    for (let j = 0; j < points.length; j++) {
+      const t = times[j];
+      if (t === undefined || (t - lastPass) / 1000 < MIN_LAP_TIME) continue;
+      const dx = xy[j][0] - cx, dy = xy[j][1] - cy;
+      if (dx * dx + dy * dy > PASS_RADIUS * PASS_RADIUS) continue;
+      if (headingDiff(headings[j], headings[c]) > MAX_HEADING_DIFF) continue;
+      passes++;
+      lastPass = t;
+    }
+    if (passes > bestPasses || (passes === bestPasses && passes > 0 && speedAt(c) > bestSpeed)) {
+      best = c;
+      bestPasses = passes;
+      bestSpeed = speedAt(c);
+    }
+  }
+
+  return best >= 0 && bestPasses >= MIN_DETECTED_PASSES ? timingLineAt(points, best) : null;
+}
+
+/**
+ * Splits a session into laps at `line` (detected automatically when omitted).
+ * Speeds are the analysis speeds for the profile, smoothed like the stats unless they already are (Kalman).
+ * Returns null when there is no line.
+ */
+export function analyzeLaps(points: GPXPoint[], profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE, userLine?: TimingLine | null): LapAnalysis | null {
+  const line = userLine ?? detectStartFinishLine(points);
+  if (!line) return null;
+
+  const empty: LapAnalysis = { line, detected: !userLine, sectorLines: [], laps: [], bestLap: null, bestSectors: [], theoreticalBest: null };
+  const crossings = findCrossings(points, line);
+  if (crossings.length < 2) return empty;
+
+  // Per-step speeds (step k = points[k] -> points[k + 1])
+  const speeds = smoothedStepSpeeds(points, profile);
+  const isBreak = (k: number) => isSegmentStart(points, k + 1);
+
+  const laps: Lap[] = [];
+  for (let n = 1; n < crossings.length; n++) {
+    const start = crossings[n - 1];
+    const end = crossings[n];
+    let distance = 0;
+    let maxSpeed = 0;
+    let minSpeed = Infinity;
+    // The two steps across the line are each partly in the lap; counting one of them evens out
+    for (let k = start.index - 1; k < end.index - 1; k++) {
+      if (isBreak(k)) continue;
+      distance += haversineDistance(points[k].lat, points[k].lon, points[k + 1].lat, points[k + 1].lon);
+      maxSpeed = Math.max(maxSpeed, speeds[k]);
+      minSpeed = Math.min(minSpeed, speeds[k]);
+    }
+    laps.push({
+      number: n,
+      startIndex: start.index - 1,
+      endIndex: end.index,
+      startTime: start.time,
+      lapTime: (end.time - start.time) / 1000,
+      distance,
+      maxSpeed,
+      minSpeed: minSpeed === Infinity ? 0 : minSpeed,
+      sectors: [],
+    });
+  }
+
+  const bestLap = laps.reduce((best, lap, i) => (lap.lapTime < laps[best].lapTime ? i : best), 0);
+
+  // Sector lines at equal distances around the fastest lap
+  const reference = laps[bestLap];
+  const sectorLines: TimingLine[] = [];
+  let covered = 0;
+  let nextSector = 1;
+  for (let k = reference.startIndex; k < reference.endIndex && nextSector < SECTOR_COUNT; k++) {
+    if (!isBreak(k)) covered += haversineDistance(points[k].lat, points[k].lon, points[k + 1].lat, points[k + 1].lon);
+    if (covered >= (reference.distance * nextSector) / SECTOR_COUNT) {
+      sectorLines.push(timingLineAt(points, k + 1));
+      nextSector++;
+    }
+  }
+
+  if (sectorLines.length === SECTOR_COUNT - 1) {
+    for (const lap of laps) {
+      const splits: (number | null)[] = [lap.startTime];
+      for (const sectorLine of sectorLines) {
+        const crossing = findCrossings(points, sectorLine, lap.startIndex, lap.endIndex)[0];
+        splits.push(crossing ? crossing.time : null);
+      }
+      splits.push(lap.startTime + lap.lapTime * 1000);
+      lap.sectors = splits.slice(1).map((split, s) => {
+        const previous = splits[s];
+        return split !== null && previous !== null && split > previous ? (split - previous) / 1000 : null;
+      });
+    }
+  }
+
+  const bestSectors = Array.from({ length: sectorLines.length ? SECTOR_COUNT : 0 }, (_, s) => {
+    const times = laps.map(l => l.sectors[s]).filter((t): t is number => t !== null && t !== undefined);
+    return times.length > 0 ? Math.min(...times) : null;
+  });
+  const theoreticalBest = bestSectors.length > 0 && bestSectors.every(t => t !== null)
+    ? bestSectors.reduce((sum, t) => sum + t!, 0)
+    : null;
+
+  return { ...empty, sectorLines, laps, bestLap, bestSectors, theoreticalBest };
+}
+
+// 102.345 -> "1:42.35"
+export function formatLapTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(2).padStart(5, "0")}`;
+}
@@ -0,0 +1,454 @@
+import { GPXPoint, haversineDistance, isSegmentStart } from "./gpxParser";
+
+/**
+ * Map matching: snaps a track onto a road network so we know which roads were driven. A hidden
+ * Markov model over candidate road positions near each fix is solved with Viterbi: a fix is
+ * likely on roads close to it (emission), and consecutive fixes are likely on positions whose
+ * distance along the road network is close to the straight-line distance between them
+ * (transition). See Newson & Krumm, "Hidden Markov Map Matching Through Noise and Sparseness".
+ *
+ * The network comes from OSM extracts in Overpass JSON (nodes with lat/lon, ways with node ids
+ * and tags), cut into ROAD_TILE_SIZE° tiles. Roads are treated as two-way.
+ */
+
+export type RoadClass = 'motorway' | 'trunk' | 'primary' | 'secondary' | 'tertiary' | 'residential' | 'service' | 'track';
+
+export const ROAD_CLASSES: RoadClass[] = ['motorway', 'trunk', 'primary', 'secondary', 'tertiary', 'residential', 'service', 'track'];
+
+// OSM highway=* values that are driven on
+const HIGHWAY_CLASSES: Record<string, RoadClass> = {
+  motorway: 'motorway',
+  motorway_link: 'motorway',
+  trunk: 'trunk',
+  trunk_link: 'trunk',
+  primary: 'primary',
+  primary_link: 'primary',
+  secondary: 'secondary',
+  secondary_link: 'secondary',
+  tertiary: 'tertiary',
+  tertiary_link: 'tertiary',
+  unclassified: 'residential',
+  residential: 'residential',
+  living_street: 'residential',
+  road: 'residential',
+  service: 'service',
+  track: 'track',
+};
+
+export const ROAD_TILE_SIZE = 0.1; // degrees
+const SEARCH_RADIUS = 50;          // m - roads further from a fix are not candidates
+const MAX_CANDIDATES = 6;          // per fix, closest first
+const GPS_SIGMA = 10;              // m - standard deviation of GPS error (emission)
+const ROUTE_BETA = 20;             // m - tolerance of route vs straight-line distance (transition)
+const MIN_SAMPLE_SPACING = 15;     // m - closer fixes add no information and are matched afterwards
+const ROUTE_SLACK = 200;           // m - routes longer than twice the straight line plus this are not searched
+const GRID_CELL = 0.002;           // degrees - spatial index cell (~200 m)
+
+const METRES_PER_DEGREE = 111320;
+
+export interface OSMElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  tags?: Record<string, string>;
+}
+
+interface RoadEdge {
+  wayId: number;
+  name: string | null;
+  roadClass: RoadClass;
+  maxSpeed: number | null; // km/h
+  from: number;   // node index
+  to: number;
+  length: number; // m
+}
+
+export interface RoadGraph {
+  nodes: { lat: number; lon: number }[];
+  edges: RoadEdge[];
+  nodeEdges: number[][];       // edges touching each node
+  grid: Map<string, number[]>; // edges by spatial index cell
+}
+
+export interface MatchedPoint {
+  lat: number; // snapped onto the road
+  lon: number;
+  wayId: number;
+  name: string | null;
+  roadClass: RoadClass;
+  maxSpeed: number | null; // km/h, the way's posted limit; null when untagged or unrestricted
+}
+
+// A continuous stretch along one road
+export interface RoadRun {
+  wayId: number;
+  name: string | null;
+  roadClass: RoadClass;
+  startIndex: number;
+  endIndex: number;
+  line: [number, number][]; // snapped [lat, lon], one per point from startIndex to endIndex
+  distance: number;         // km
+  maxSpeed: number | null;  // km/h, the way's posted limit
+}
+
+interface Candidate {
+  edge: number;
+  t: number;        // 0..1 from the edge's `from` node
+  distance: number; // m from the fix
+}
+
+// Name of the road tile containing a position, e.g. "473_85" for 47.3°N 8.5°E
+export function roadTileName(lat: number, lon: number): string {
+  return `${Math.floor(lat / ROAD_TILE_SIZE)}_${Math.floor(lon / ROAD_TILE_SIZE)}`;
+}
+
+// Posted limit from an OSM maxspeed tag ("50", "30 mph", "10 knots"); null for "none", "walk",
+// zone codes like "DE:urban" and anything else that isn't a number
+export function parseMaxSpeed(tag: string | undefined): number | null {
+  const match = tag?.trim().match(/^(\d+(?:\.\d+)?)\s*(mph|knots)?$/);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  if (match[2] === 'mph') return value * 1.609344;
+  if (match[2] === 'knots') return value * 1.852;
+  return value;
+}
+
+export function buildRoadGraph(elements: OSMElement[]): RoadGraph {
+  const nodeIndex = new Map<number, number>();
+  const nodes: RoadGraph['nodes'] = [];
+  for (const element of elements) {
+    if (element.type !== 'node' || element.lat === undefined || element.lon === undefined || nodeIndex.has(element.id)) continue;
+    nodeIndex.set(element.id, nodes.length);
+    nodes.push({ lat: element.lat, lon: element.lon });
+  }
+
+  const edges: RoadEdge[] = [];
+  const nodeEdges: number[][] = nodes.map(() => []);
+  const grid = new Map<string, number[]>();
+  const seenWays = new Set<number>();
+
+  for (const element of elements) {
+    const roadClass = HIGHWAY_CLASSES[element.tags?.highway ?? ''];
+    if (element.type !== 'way' || !roadClass || !element.nodes || seenWays.has(element.id)) continue;
+    seenWays.add(element.id);
+    const name = element.tags?.name ?? element.tags?.ref ?? null;
+    const maxSpeed = parseMaxSpeed(element.tags?.maxspeed);
+
+    for (let i = 1; i < element.nodes.length; i++) {
+      const from = nodeIndex.get(element.nodes[i - 1]);
+      const to = nodeIndex.get(element.nodes[i]);
+      if (from === undefined || to === undefined || from === to) continue;
+      const a = nodes[from];
+      const b = nodes[to];
+      const id = edges.length;
+      edges.push({ wayId: element.id, name, roadClass, maxSpeed, from, to, length: haversineDistance(a.lat, a.lon, b.lat, b.lon) * 1000 });
+      nodeEdges[from].push(id);
+      nodeEdges[to].push(id);
+
+      // Index the edge in every cell its bounding box touches
+      for (let lat = Math.floor(Math.min(a.lat, b.lat) / GRID_CELL); lat <= Math.floor(Math.max(a.lat, b.lat) / GRID_CELL); lat++) {
+        for (let lon = Math.floor(Math.min(a.lon, b.lon) / GRID_CELL); lon <= Math.floor(Math.max(a.lon, b.lon) / GRID_CELL); lon++) {
+          const key = `${lat}_${lon}`;
+          const cell = grid.get(key);
+          if (cell) cell.push(id);
+          else grid.set(key, [id]);
+        }
+      }
+    }
+  }
+  return { nodes, edges, nodeEdges, grid };
+}
+
+// Closest position on an edge to a point, in a local planar projection around the point
+function projectOntoEdge(graph: RoadGraph, edgeId: number, lat: number, lon: number): Candidate {
+  const edge = graph.edges[edgeId];
+  const a = graph.nodes[edge.from];
+  const b = graph.nodes[edge.to];
+  const lonScale = Math.cos((lat * Math.PI) / 180);
+  const ax = (a.lon - lon) * lonScale;
+  const ay = a.lat - lat;
+  const dx = (b.lon - a.lon) * lonScale;
+  const dy = b.lat - a.lat;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSq)) : 0;
+  const px = ax + t * dx;
+  const py = ay + t * dy;
+  return { edge: edgeId, t, distance: Math.sqrt(px * px + py * py) * METRES_PER_DEGREE };
+}
+
+const positionOf = (graph: RoadGraph, candidate: Candidate): [number, number] => {
+  const edge = graph.edges[candidate.edge];
+  const a = graph.nodes[edge.from];
+  const b = graph.nodes[edge.to];
+  return [a.lat + candidate.t * (b.lat - a.lat), a.lon + candidate.t * (b.lon - a.lon)];
+};
+
+function findCandidates(graph: RoadGraph, lat: number, lon: number): Candidate[] {
+  const edgeIds = new Set<number>();
+  const latSpan = SEARCH_RADIUS / METRES_PER_DEGREE;
+  const lonSpan = latSpan / Math.max(0.01, Math.cos((lat * Math.PI) / 180));
+  for (let cellLat = Math.floor((lat - latSpan) / GRID_CELL); cellLat <= Math.floor((lat + latSpan) / GRID_CELL); cellLat++) {
+    for (let cellLon = Math.floor((lon - lonSpan) / GRID_CELL); cellLon <= Math.floor((lon + lonSpan) / GRID_CELL); cellLon++) {
+      graph.grid.get(`${cellLat}_${cellLon}`)?.forEach(id => edgeIds.add(id));
+    }
+  }
+  return [...edgeIds]
+    .map(id => projectOntoEdge(graph, id, lat, lon))
+    .filter(candidate => candidate.distance <= SEARCH_RADIUS)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Shortest network distances (m) from a position on an edge to each of the targets, searching no
+ * further than maxDistance; also the edges along each route. Unreachable targets are Infinity.
+ */
+function routeDistances(graph: RoadGraph, source: Candidate, targets: Candidate[], maxDistance: number): { distance: number; edges: number[] }[] {
+  const sourceEdge = graph.edges[source.edge];
+  const dist = new Map<number, number>([[sourceEdge.from, source.t * sourceEdge.length], [sourceEdge.to, (1 - source.t) * sourceEdge.length]]);
+  const via = new Map<number, number>(); // node -> edge it was reached through
+  const done = new Set<number>();
+  // Binary heap of [distance, node]
+  const heap: [number, number][] = [];
+  const push = (item: [number, number]) => {
+    heap.push(item);
+    for (let i = heap.length - 1; i > 0;) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      for (let i = 0; ;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+  dist.forEach((d, node) => push([d, node]));
+
+  while (heap.length > 0) {
+    const [d, node] = pop();
+    if (done.has(node) || d > maxDistance) continue;
+    done.add(node);
+    for (const edgeId of graph.nodeEdges[node]) {
+      const edge = graph.edges[edgeId];
+      const next = edge.from === node ? edge.to : edge.from;
+      const nextDistance = d + edge.length;
+      if (nextDistance < (dist.get(next) ?? Infinity)) {
+        dist.set(next, nextDistance);
+        via.set(next, edgeId);
+        push([nextDistance, next]);
+      }
+    }
+  }
+
+  const pathTo = (node: number) => {
+    const edges: number[] = [];
+    for (let current = node; via.has(current);) {
+      const edgeId = via.get(current)!;
+      edges.push(edgeId);
+      const edge = graph.edges[edgeId];
+      current = edge.from === current ? edge.to : edge.from;
+    }
+    return edges.reverse();
+  };
+
+  return targets.map(target => {
+    if (target.edge === source.edge) {
+      return { distance: Math.abs(target.t - source.t) * sourceEdge.length, edges: [] };
+    }
+    const edge = graph.edges[target.edge];
+    const viaFrom = (dist.get(edge.from) ?? Infinity) + target.t * edge.length;
+    const viaTo = (dist.get(edge.to) ?? Infinity) + (1 - target.t) * edge.length;
+    const distance = Math.min(viaFrom, viaTo);
+    if (distance > maxDistance) return { distance: Infinity, edges: [] };
+    return { distance, edges: pathTo(viaFrom <= viaTo ? edge.from : edge.to) };
+  });
+}
+
+const emissionScore = (candidate: Candidate) => -0.5 * (candidate.distance / GPS_SIGMA) ** 2;
+
+/**
+ * The road position of every point, or null where no road is near enough (off-road, car parks,
+ * areas outside the network) or the fixes cannot be joined along the network.
+ */
+export function matchTrack(points: GPXPoint[], graph: RoadGraph): (MatchedPoint | null)[] {
+  const matches: (MatchedPoint | null)[] = points.map(() => null);
+  if (graph.edges.length === 0) return matches;
+
+  // Fixes the HMM runs on: the first of each segment, then every MIN_SAMPLE_SPACING
+  const samples: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const last = samples[samples.length - 1];
+    const isLastPoint = i === points.length - 1 || isSegmentStart(points, i + 1);
+    if (last === undefined || isSegmentStart(points, i) || isLastPoint ||
+      haversineDistance(points[last].lat, points[last].lon, points[i].lat, points[i].lon) * 1000 >= MIN_SAMPLE_SPACING) {
+      samples.push(i);
+    }
+  }
+
+  // Viterbi over one chain of samples that can be joined along the network
+  type Step = { index: number; candidates: Candidate[]; scores: number[]; back: number[]; routes: number[][] };
+  let chain: Step[] = [];
+
+  const assign = (index: number, candidate: Candidate) => {
+    const edge = graph.edges[candidate.edge];
+    const [lat, lon] = positionOf(graph, candidate);
+    matches[index] = { lat, lon, wayId: edge.wayId, name: edge.name, roadClass: edge.roadClass, maxSpeed: edge.maxSpeed };
+  };
+
+  // Backtrack the best path through the chain, then snap the fixes skipped between samples and
+  // those after the last sample, up to `until`, that are still near its road
+  const finishChain = (until: number) => {
+    if (chain.length === 0) return;
+    const last = chain[chain.length - 1];
+    let best = last.scores.indexOf(Math.max(...last.scores));
+    for (let i = last.index + 1; i < until; i++) {
+      const position = projectOntoEdge(graph, last.candidates[best].edge, points[i].lat, points[i].lon);
+      if (position.distance <= SEARCH_RADIUS) assign(i, position);
+    }
+    for (let s = chain.length - 1; s >= 0; s--) {
+      const step = chain[s];
+      const candidate = step.candidates[best];
+      assign(step.index, candidate);
+
+      if (s > 0) {
+        const previous = chain[s - 1];
+        const previousBest = step.back[best];
+        const allowed = new Set([candidate.edge, previous.candidates[previousBest].edge, ...step.routes[best]]);
+        for (let i = previous.index + 1; i < step.index; i++) {
+          const closest = [...allowed]
+            .map(edgeId => projectOntoEdge(graph, edgeId, points[i].lat, points[i].lon))
+            .sort((a, b) => a.distance - b.distance)[0];
+          assign(i, closest);
+        }
+        best = previousBest;
+      }
+    }
+    chain = [];
+  };
+
+  for (const index of samples) {
+    const point = points[index];
+    const candidates = findCandidates(graph, point.lat, point.lon);
+    if (candidates.length === 0) {
+      finishChain(index);
+      continue;
+    }
+    const previous = chain[chain.length - 1];
+    if (!previous || isSegmentStart(points, index)) {
+      finishChain(index);
+      chain.push({ index, candidates, scores: candidates.map(emissionScore), back: candidates.map(() => -1), routes: candidates.map(() => []) });
+      continue;
+    }
+
+    const prevPoint = points[previous.index];
+    const straight = haversineDistance(prevPoint.lat, prevPoint.lon, point.lat, point.lon) * 1000;
+    const scores = candidates.map(() => -Infinity);
+    const back = candidates.map(() => -1);
+    const routes: number[][] = candidates.map(() => []);
+
+    previous.candidates.forEach((from, i) => {
+      if (previous.scores[i] === -Infinity) return;
+      routeDistances(graph, from, candidates, straight * 2 + ROUTE_SLACK).forEach((route, j) => {
+        if (route.distance === Infinity) return;
+        const score = previous.scores[i] - Math.abs(route.distance - straight) / ROUTE_BETA + emissionScore(candidates[j]);
+        if (score > scores[j]) {
+          scores[j] = score;
+          back[j] = i;
+          routes[j] = route.edges;
+        }
+      });
+    });
+
+    if (scores.every(score => score === -Infinity)) {
+      // No way along the network from the last fix (missing road, tunnel): start a new chain
+      finishChain(index);
+      chain.push({ index, candidates, scores: candidates.map(emissionScore), back: candidates.map(() => -1), routes: candidates.map(() => []) });
+    } else {
+      // Keep the log scores near zero over long chains
+      const top = Math.max(...scores);
+      chain.push({ index, candidates, scores: scores.map(score => score - top), back, routes });
+    }
+  }
+  finishChain(points.length);
+
+  return matches;
+}
+
+// Matched points grouped into stretches along one road; unmatched points and segment breaks end a stretch
+export function roadRuns(points: GPXPoint[], matches: (MatchedPoint | null)[]): RoadRun[] {
+  const runs: RoadRun[] = [];
+  let run: RoadRun | null = null;
+  matches.forEach((match, i) => {
+    if (!match) {
+      run = null;
+      return;
+    }
+    const continues = run && !isSegmentStart(points, i) && matches[i - 1];
+    if (continues) {
+      const previous = matches[i - 1]!;
+      run.line.push([match.lat, match.lon]);
+      run.distance += haversineDistance(previous.lat, previous.lon, match.lat, match.lon);
+      run.endIndex = i;
+      if (match.wayId === run.wayId) return;
+      // Another road: the new run starts where this one ended, so the line stays connected
+      run = { wayId: match.wayId, name: match.name, roadClass: match.roadClass, startIndex: i, endIndex: i, line: [[match.lat, match.lon]], distance: 0, maxSpeed: match.maxSpeed };
+      runs.push(run);
+      return;
+    }
+    run = { wayId: match.wayId, name: match.name, roadClass: match.roadClass, startIndex: i, endIndex: i, line: [[match.lat, match.lon]], distance: 0, maxSpeed: match.maxSpeed };
+    runs.push(run);
+  });
+  return runs;
+}
+
+// The runs cut to points first..last (inclusive), for views that hide the ends of the track
+export function clipRoadRuns(runs: RoadRun[], first: number, last: number): RoadRun[] {
+  const clipped: RoadRun[] = [];
+  for (const run of runs) {
+    const start = Math.max(run.startIndex, first);
+    const end = Math.min(run.endIndex, last);
+    if (start > end) continue;
+    if (start === run.startIndex && end === run.endIndex) {
+      clipped.push(run);
+      continue;
+    }
+    const line = run.line.slice(start - run.startIndex, end - run.startIndex + 1);
+    let distance = 0;
+    for (let k = 1; k < line.length; k++) distance += haversineDistance(line[k - 1][0], line[k - 1][1], line[k][0], line[k][1]);
+    clipped.push({ ...run, startIndex: start, endIndex: end, line, distance });
+  }
+  return clipped;
+}
+
+// Posted limit per point, null where unknown; a point shared by two runs takes the later road's
+export function runSpeedLimits(runs: RoadRun[], pointCount: number): (number | null)[] {
+  const limits: (number | null)[] = new Array(pointCount).fill(null);
+  for (const run of runs) {
+    for (let i = run.startIndex; i <= run.endIndex && i < pointCount; i++) limits[i] = run.maxSpeed;
+  }
+  return limits;
+}
+
+// km driven per road class
+export function distanceByRoadClass(runs: RoadRun[]): Record<RoadClass, number> {
+  const totals = Object.fromEntries(ROAD_CLASSES.map(roadClass => [roadClass, 0])) as Record<RoadClass, number>;
+  runs.forEach(run => { totals[run.roadClass] += run.distance; });
+  return totals;
+}
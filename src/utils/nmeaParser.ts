@@ -0,0 +1,144 @@
+import { GPXPoint } from "./gpxParser";
+
+const KNOTS_TO_MPS = 0.514444;
+const DAY_MS = 24 * 3600 * 1000;
+
+// All sentences sharing one time-of-day (an RMC + GGA pair from the same fix)
+interface NMEAEpoch {
+  timeOfDay: string;
+  seconds: number; // seconds since midnight UTC
+  date?: number;   // UTC midnight in ms, from RMC
+  lat?: number;
+  lon?: number;
+  ele?: number;
+  speed?: number;  // m/s
+  course?: number; // degrees true
+  fix?: number;
+  hdop?: number;
+  satellites?: number;
+  noFix: boolean;
+}
+
+/**
+ * Verifies the `*HH` checksum: XOR of every character between '$' and '*'.
+ * Sentences without a checksum are rejected too.
+ */
+function hasValidChecksum(sentence: string): boolean {
+  const star = sentence.lastIndexOf("*");
+  if (!sentence.startsWith("$") || star < 0) return false;
+
+  let checksum = 0;
+  for (let i = 1; i < star; i++) checksum ^= sentence.charCodeAt(i);
+  return checksum === parseInt(sentence.slice(star + 1, star + 3), 16);
+}
+
+// NMEA coordinates are (d)ddmm.mmmm with a hemisphere letter
+function parseCoordinate(value: string, hemisphere: string): number | undefined {
+  if (!value) return undefined;
+  const dot = value.indexOf(".");
+  const degreeDigits = (dot < 0 ? value.length : dot) - 2;
+  const degrees = parseInt(value.slice(0, degreeDigits), 10);
+  const minutes = parseFloat(value.slice(degreeDigits));
+  if (isNaN(degrees) || isNaN(minutes)) return undefined;
+
+  const decimal = degrees + minutes / 60;
+  return hemisphere === "S" || hemisphere === "W" ? -decimal : decimal;
+}
+
+function parseTimeOfDay(value: string): number {
+  const h = parseInt(value.slice(0, 2), 10);
+  const m = parseInt(value.slice(2, 4), 10);
+  const s = parseFloat(value.slice(4));
+  return h * 3600 + m * 60 + s;
+}
+
+// ddmmyy -> UTC midnight (ms)
+function parseDate(value: string): number | undefined {
+  if (value.length !== 6) return undefined;
+  const day = parseInt(value.slice(0, 2), 10);
+  const month = parseInt(value.slice(2, 4), 10);
+  const yy = parseInt(value.slice(4, 6), 10);
+  const year = yy < 80 ? 2000 + yy : 1900 + yy; // GPS dates start in 1980
+  if (isNaN(day) || isNaN(month) || isNaN(year)) return undefined;
+  return Date.UTC(year, month - 1, day);
+}
+
+/**
+ * Parses an NMEA 0183 log ($GPRMC / $GPGGA, any talker ID) into GPXPoints.
+ * RMC provides the date, speed, course and fix status; GGA provides altitude, fix quality, HDOP
+ * and satellite count. Sentences with bad checksums and epochs without a fix are dropped.
+ */
+export function parseNMEA(content: string): GPXPoint[] {
+  const epochs: NMEAEpoch[] = [];
+  let current: NMEAEpoch | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const sentence = rawLine.trim();
+    if (!hasValidChecksum(sentence)) continue;
+
+    const fields = sentence.slice(0, sentence.lastIndexOf("*")).split(",");
+    const type = fields[0].slice(3); // strip "$" + talker ID (GP, GN, GL, ...)
+    if (type !== "RMC" && type !== "GGA") continue;
+
+    const timeOfDay = fields[1];
+    if (!timeOfDay) continue;
+
+    if (!current || current.timeOfDay !== timeOfDay) {
+      current = { timeOfDay, seconds: parseTimeOfDay(timeOfDay), noFix: false };
+      epochs.push(current);
+    }
+
+    if (type === "RMC") {
+      // $xxRMC,time,status,lat,N/S,lon,E/W,knots,course,ddmmyy,...
+      if (fields[2] !== "A") current.noFix = true;
+      current.lat = parseCoordinate(fields[3], fields[4]) ?? current.lat;
+      current.lon = parseCoordinate(fields[5], fields[6]) ?? current.lon;
+      if (fields[7]) current.speed = parseFloat(fields[7]) * KNOTS_TO_MPS;
+      if (fields[8]) current.course = parseFloat(fields[8]);
+      current.date = parseDate(fields[9]);
+    } else {
+      // $xxGGA,time,lat,N/S,lon,E/W,quality,sats,hdop,alt,M,...
+      const quality = parseInt(fields[6], 10);
+      if (!quality) current.noFix = true;
+      current.fix = isNaN(quality) ? undefined : quality;
+      current.lat = current.lat ?? parseCoordinate(fields[2], fields[3]);
+      current.lon = current.lon ?? parseCoordinate(fields[4], fields[5]);
+      if (fields[7]) current.satellites = parseInt(fields[7], 10);
+      if (fields[8]) current.hdop = parseFloat(fields[8]);
+      if (fields[9]) current.ele = parseFloat(fields[9]);
+    }
+  }
+
+  // Carry the RMC date onto epochs that only had GGA, rolling over at midnight
+  const firstDated = epochs.findIndex(e => e.date !== undefined);
+  if (firstDated >= 0) {
+    let date = epochs[firstDated].date!;
+    for (let i = firstDated - 1; i >= 0; i--) {
+      if (epochs[i].seconds > epochs[i + 1].seconds) date -= DAY_MS;
+      epochs[i].date = date;
+    }
+    date = epochs[firstDated].date!;
+    for (let i = firstDated + 1; i < epochs.length; i++) {
+      if (epochs[i].date !== undefined) date = epochs[i].date!;
+      else if (epochs[i].seconds < epochs[i - 1].seconds) date += DAY_MS;
+      epochs[i].date = date;
+    }
+  }
+
+  const points: GPXPoint[] = [];
+  for (const epoch of epochs) {
+    if (epoch.noFix || epoch.lat === undefined || epoch.lon === undefined) continue;
+    points.push({
+      lat: epoch.lat,
+      lon: epoch.lon,
+      ele: epoch.ele,
+      time: epoch.date !== undefined ? new Date(epoch.date + epoch.seconds * 1000) : undefined,
+      speed: epoch.speed,
+      course: epoch.course,
+      fix: epoch.fix,
+      hdop: epoch.hdop,
+      satellites: epoch.satellites,
+    });
+  }
+  return points;
+}
@@ -0,0 +1,156 @@
+import { GPXPoint, Stop, haversineDistance, isSegmentStart } from "./gpxParser";
+
+/**
+ * Offline reverse geocoding against a GeoNames gazetteer (e.g. cities5000: every town of 5000+
+ * people). Places are plain points, so "in a town" means within a radius that grows with its
+ * population, and a start, end or stop is labelled with the nearest town.
+ */
+
+export interface Place {
+  name: string;
+  country: string; // ISO 3166 code
+  lat: number;
+  lon: number;
+  population: number;
+}
+
+export interface TrackPlaces {
+  start: string | null;
+  end: string | null;
+  via: string[]; // towns passed through in order, without the start and end towns
+  // Per via town, km along the track between the nearer end and the point it was seen at (the
+  // furthest in where seen more than once), to leave out towns passed within hidden ends
+  viaEndDistance?: number[];
+}
+
+export const GAZETTEER_TILE_SIZE = 1; // degrees
+const MAX_PLACE_DISTANCE = 20;        // km - further from every town a position gets no name
+const VIA_SAMPLE_SPACING = 0.5;       // km along the track between checks for towns passed
+const MAX_VIA = 8;                    // the largest towns passed, kept in driving order
+
+// Name of the gazetteer tile containing a position, e.g. "47_8" for 47.3°N 8.5°E
+export function gazetteerTileName(lat: number, lon: number): string {
+  return `${Math.floor(lat / GAZETTEER_TILE_SIZE)}_${Math.floor(lon / GAZETTEER_TILE_SIZE)}`;
+}
+
+// Rows of a GeoNames dump (tab-separated: id, name, asciiname, alternatenames, lat, lon, ..., country at 8, population at 14)
+export function parseGeoNames(text: string): Place[] {
+  const places: Place[] = [];
+  for (const line of text.split('\n')) {
+    const fields = line.split('\t');
+    if (fields.length < 15) continue;
+    const lat = parseFloat(fields[4]);
+    const lon = parseFloat(fields[5]);
+    if (!fields[1] || isNaN(lat) || isNaN(lon)) continue;
+    places.push({ name: fields[1], country: fields[8], lat, lon, population: parseInt(fields[14], 10) || 0 });
+  }
+  return places;
+}
+
+// km from a town's centre that still counts as being in it
+const townRadius = (population: number) => {
+  if (population >= 1000000) return 10;
+  if (population >= 200000) return 5;
+  if (population >= 50000) return 3;
+  return 1.5;
+};
+
+export function nearestPlace(places: Place[], lat: number, lon: number, maxDistance = MAX_PLACE_DISTANCE): Place | null {
+  let nearest: Place | null = null;
+  let nearestDistance = maxDistance;
+  for (const place of places) {
+    // Cheap reject before the great-circle distance (1° of latitude is ~111 km)
+    if (Math.abs(place.lat - lat) * 111 > nearestDistance) continue;
+    const distance = haversineDistance(lat, lon, place.lat, place.lon);
+    if (distance <= nearestDistance) {
+      nearest = place;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+// The town a position is inside, preferring the largest where towns overlap
+function townAt(places: Place[], lat: number, lon: number): Place | null {
+  let town: Place | null = null;
+  for (const place of places) {
+    const radius = townRadius(place.population);
+    if (Math.abs(place.lat - lat) * 111 > radius) continue;
+    if (haversineDistance(lat, lon, place.lat, place.lon) > radius) continue;
+    if (!town || place.population > town.population) town = place;
+  }
+  return town;
+}
+
+export function trackPlaces(points: GPXPoint[], places: Place[]): TrackPlaces {
+  if (points.length === 0) return { start: null, end: null, via: [], viaEndDistance: [] };
+  const first = points[0];
+  const last = points[points.length - 1];
+  const start = nearestPlace(places, first.lat, first.lon);
+  const end = nearestPlace(places, last.lat, last.lon);
+
+  // km from the start, measured like getPrivacyTrimRange (straight across segment breaks)
+  const along = [0];
+  for (let i = 1; i < points.length; i++) {
+    along.push(along[i - 1] + haversineDistance(points[i - 1].lat, points[i - 1].lon, points[i].lat, points[i].lon));
+  }
+  const total = along[points.length - 1];
+
+  // Towns entered along the way, checked every VIA_SAMPLE_SPACING km
+  const passed: Place[] = [];
+  const endDistance = new Map<Place, number>();
+  let sinceCheck = VIA_SAMPLE_SPACING;
+  for (let i = 0; i < points.length; i++) {
+    if (i > 0 && !isSegmentStart(points, i)) {
+      sinceCheck += haversineDistance(points[i - 1].lat, points[i - 1].lon, points[i].lat, points[i].lon);
+    }
+    if (sinceCheck < VIA_SAMPLE_SPACING) continue;
+    sinceCheck = 0;
+    const town = townAt(places, points[i].lat, points[i].lon);
+    if (!town || town === start || town === end) continue;
+    if (!passed.includes(town)) passed.push(town);
+    endDistance.set(town, Math.max(endDistance.get(town) ?? 0, Math.min(along[i], total - along[i])));
+  }
+
+  const largest = [...passed].sort((a, b) => b.population - a.population).slice(0, MAX_VIA);
+  const via = passed.filter(town => largest.includes(town));
+  return {
+    start: start?.name ?? null,
+    end: end?.name ?? null,
+    via: via.map(town => town.name),
+    viaEndDistance: via.map(town => endDistance.get(town)!),
+  };
+}
+
+// Each stop's nearest town
+export function stopPlaces(stops: Stop[], places: Place[]): Stop[] {
+  return stops.map(stop => ({ ...stop, place: nearestPlace(places, stop.lat, stop.lon)?.name ?? null }));
+}
+
+// Towns passed outside the first and last `hideRadius` km; none for older records that don't say where
+function visibleVia(places: TrackPlaces, hideRadius = 0): string[] {
+  if (hideRadius <= 0) return places.via;
+  if (!places.viaEndDistance) return [];
+  return places.via.filter((_, k) => places.viaEndDistance![k] >= hideRadius);
+}
+
+// "Zürich → Basel", "Zürich → Baden → Basel" or "Round trip from Zürich". With a `hideRadius` (public
+// views that hide the ends of the track) the start and end are left out, as are towns passed within it.
+export function formatRoute(places: TrackPlaces, hideRadius = 0): string | null {
+  const passed = visibleVia(places, hideRadius);
+  const via = passed.length > 3 ? [...passed.slice(0, 2), '…', passed[passed.length - 1]] : passed;
+  if (hideRadius > 0) return via.length > 0 ? `Via ${via.join(', ')}` : null;
+  if (places.start && places.start === places.end && via.length === 0) return `Round trip from ${places.start}`;
+  const route = [places.start, ...via, places.end].filter((name): name is string => !!name);
+  return route.length > 0 ? route.join(' → ') : null;
+}
+
+// Every place name of an activity, for search
+export function placeNames(places: TrackPlaces | undefined, stops: Stop[] | undefined): string[] {
+  return [
+    places?.start,
+    places?.end,
+    ...(places?.via ?? []),
+    ...(stops ?? []).map(stop => stop.place),
+  ].filter((name): name is string => !!name);
+}
@@ -0,0 +1,123 @@
+import { GPXPoint, haversineDistance, isSegmentStart, smoothedStepSpeeds } from "./gpxParser";
+import { AnalysisProfile, DEFAULT_ANALYSIS_PROFILE } from "./analysisProfiles";
+
+/**
+ * Speed against the posted limit of the road each step was matched to (see mapMatching.ts).
+ * Only steps with a known limit at both ends are checked; where the limit changes between the
+ * two points the higher one applies, since the sign sits somewhere along the step.
+ */
+
+export type OverLimitBand = 'up to 10%' | '10-20%' | 'over 20%';
+
+export const OVER_LIMIT_BANDS: OverLimitBand[] = ['up to 10%', '10-20%', 'over 20%'];
+
+// A step's band, 'within' when not over the limit, null when no limit is known
+export type StepLimitBand = OverLimitBand | 'within' | null;
+
+const MIN_STRETCH_DURATION = 10; // s - shorter excursions over the limit are not listed
+const MAX_STRETCHES = 5;
+
+export interface OverLimitStretch {
+  startIndex: number;
+  endIndex: number;
+  duration: number;  // s
+  distance: number;  // km
+  maxSpeed: number;  // km/h
+  maxExcess: number; // km/h over the limit at the worst step
+  limit: number;     // km/h at the worst step
+}
+
+export interface SpeedLimitReport {
+  checkedTime: number;     // s on roads with a known limit
+  checkedDistance: number; // km
+  overTime: number;        // s
+  overDistance: number;    // km
+  bands: Record<OverLimitBand, { time: number; distance: number }>;
+  stretches: OverLimitStretch[]; // longest first
+  stepBands: StepLimitBand[];    // per step (points[k] -> points[k + 1]), for colouring the map
+}
+
+// The limit applying to step k (points[k] -> points[k + 1]); null when either end is unmatched or unrestricted
+export function stepSpeedLimit(limits: (number | null)[], k: number): number | null {
+  const a = limits[k];
+  const b = limits[k + 1];
+  if (a == null || b == null) return null;
+  return Math.max(a, b);
+}
+
+// How far over the limit a speed is, or null when it isn't over
+export function overLimitBand(speed: number, limit: number): OverLimitBand | null {
+  if (speed <= limit) return null;
+  const excess = speed / limit - 1;
+  if (excess <= 0.1) return 'up to 10%';
+  if (excess <= 0.2) return '10-20%';
+  return 'over 20%';
+}
+
+// `limits` holds the posted limit (km/h) per point, null where none is known
+export function analyzeSpeedLimits(points: GPXPoint[], limits: (number | null)[], profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE): SpeedLimitReport {
+  const report: SpeedLimitReport = {
+    checkedTime: 0,
+    checkedDistance: 0,
+    overTime: 0,
+    overDistance: 0,
+    bands: Object.fromEntries(OVER_LIMIT_BANDS.map(band => [band, { time: 0, distance: 0 }])) as SpeedLimitReport['bands'],
+    stretches: [],
+    stepBands: [],
+  };
+  if (points.length < 2) return report;
+
+  // Smoothed per-step speeds, so a single jumpy fix doesn't count as speeding
+  const speeds = smoothedStepSpeeds(points, profile);
+  const isBreak = (k: number) => isSegmentStart(points, k + 1);
+
+  let stretch: OverLimitStretch | null = null;
+  const endStretch = () => {
+    if (stretch && stretch.duration >= MIN_STRETCH_DURATION) report.stretches.push(stretch);
+    stretch = null;
+  };
+
+  for (let k = 0; k < speeds.length; k++) {
+    const limit = stepSpeedLimit(limits, k);
+    if (isBreak(k) || limit === null) {
+      report.stepBands.push(null);
+      endStretch();
+      continue;
+    }
+
+    const p1 = points[k];
+    const p2 = points[k + 1];
+    const distance = haversineDistance(p1.lat, p1.lon, p2.lat, p2.lon);
+    const time = p1.time && p2.time ? Math.max(0, (p2.time.getTime() - p1.time.getTime()) / 1000) : 0;
+    report.checkedTime += time;
+    report.checkedDistance += distance;
+
+    const speed = speeds[k];
+    const band = overLimitBand(speed, limit);
+    report.stepBands.push(band ?? 'within');
+    if (!band) {
+      endStretch();
+      continue;
+    }
+    report.overTime += time;
+    report.overDistance += distance;
+    report.bands[band].time += time;
+    report.bands[band].distance += distance;
+
+    if (!stretch) stretch = { startIndex: k, endIndex: k + 1, duration: 0, distance: 0, maxSpeed: 0, maxExcess: 0, limit };
+    stretch.endIndex = k + 1;
+    stretch.duration += time;
+    stretch.distance += distance;
+    stretch.maxSpeed = Math.max(stretch.maxSpeed, speed);
+    if (speed - limit > stretch.maxExcess) {
+      stretch.maxExcess = speed - limit;
+      stretch.limit = limit;
+    }
+  }
+  endStretch();
+
+  report.stretches = report.stretches
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, MAX_STRETCHES);
+  return report;
+}
@@ -0,0 +1,49 @@
+import { GPXPoint } from "./gpxParser";
+import { XmlElement, parseXML } from "./xmlParser";
+
+// Returns the text of the first descendant with the given tag, or null
+function getChildText(parent: XmlElement, tagName: string): string | null {
+  const el = parent.getElementsByTagName(tagName)[0];
+  return el ? el.textContent : null;
+}
+
+/**
+ * Parses a Garmin Training Center (TCX) file into GPXPoints.
+ * Trackpoints without a <Position> (e.g. HR-only samples during signal loss) are skipped.
+ * Each <Track> (devices start a new one after a pause) becomes its own segment.
+ */
+export function parseTCX(tcxContent: string): GPXPoint[] {
+  const xmlDoc = parseXML(tcxContent);
+
+  const points: GPXPoint[] = [];
+  const tracks = Array.from(xmlDoc.getElementsByTagName("Track"));
+
+  tracks.forEach((track, segment) => {
+    const trackpoints = track.getElementsByTagName("Trackpoint");
+
+    for (let i = 0; i < trackpoints.length; i++) {
+      const trackpoint = trackpoints[i];
+      const position = trackpoint.getElementsByTagName("Position")[0];
+      if (!position) continue;
+
+      const lat = parseFloat(getChildText(position, "LatitudeDegrees") || "");
+      const lon = parseFloat(getChildText(position, "LongitudeDegrees") || "");
+      if (isNaN(lat) || isNaN(lon)) continue;
+
+      const altitude = getChildText(trackpoint, "AltitudeMeters");
+      const time = getChildText(trackpoint, "Time");
+      // Device speed lives in the ActivityExtension namespace (<ns3:TPX><ns3:Speed>)
+      const speed = trackpoint.getElementsByTagNameNS("*", "Speed")[0]?.textContent;
+
+      points.push({
+        lat,
+        lon,
+        ele: altitude !== null ? parseFloat(altitude) : undefined,
+        time: time ? new Date(time) : undefined,
+        speed: speed ? parseFloat(speed) : undefined,
+        segment,
+      });
+    }
+  });
+  return points;
+}
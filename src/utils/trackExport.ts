@@ -0,0 +1,193 @@
+import { GPXPoint, ProcessedTrack, haversineDistance, isSegmentStart } from "./gpxParser";
+import { createGPXContent } from "./gpxWriter";
+
+export interface PrivacyOptions {
+  hideRadius?: number; // km trimmed from the start and end
+  speedCap?: number | null; // km/h
+}
+
+/**
+ * First and last index kept once `hideRadius` km of track is trimmed from each end.
+ * `start >= end` means the track is shorter than the two trimmed ends together.
+ */
+export function getPrivacyTrimRange(points: GPXPoint[], hideRadius: number): { start: number; end: number } {
+  let start = 0;
+  let end = points.length - 1;
+  if (!hideRadius || hideRadius <= 0) return { start, end };
+
+  let cumulativeDist = 0;
+  for (let i = 1; i < points.length; i++) {
+    cumulativeDist += haversineDistance(points[i - 1].lat, points[i - 1].lon, points[i].lat, points[i].lon);
+    if (cumulativeDist >= hideRadius) {
+      start = i;
+      break;
+    }
+  }
+
+  cumulativeDist = 0;
+  for (let i = points.length - 2; i >= 0; i--) {
+    cumulativeDist += haversineDistance(points[i].lat, points[i].lon, points[i + 1].lat, points[i + 1].lon);
+    if (cumulativeDist >= hideRadius) {
+      end = i;
+      break;
+    }
+  }
+
+  return { start, end };
+}
+
+/**
+ * Re-times a track so no step is faster than `speedCap` km/h: a step that was driven faster is
+ * stretched to the time it takes at the cap and every later timestamp shifts by the same amount.
+ * Device speeds are clamped too. Gaps between segments are not driving and are left alone.
+ */
+export function capTrackSpeed(points: GPXPoint[], speedCap: number): GPXPoint[] {
+  const capMps = speedCap / 3.6;
+  let shiftMs = 0;
+
+  return points.map((p, i) => {
+    const prev = points[i - 1];
+    if (prev?.time && p.time && !isSegmentStart(points, i)) {
+      const dt = (p.time.getTime() - prev.time.getTime()) / 1000;
+      const minDt = (haversineDistance(prev.lat, prev.lon, p.lat, p.lon) * 1000) / capMps;
+      if (minDt > dt) shiftMs += (minDt - dt) * 1000;
+    }
+    return {
+      ...p,
+      time: p.time ? new Date(p.time.getTime() + shiftMs) : undefined,
+      speed: p.speed !== undefined ? Math.min(p.speed, capMps) : undefined,
+    };
+  });
+}
+
+/**
+ * The track as a public viewer sees it: start/end trimmed by the hide radius and speeds capped.
+ * Logged channels are dropped, an OBD speed channel would give the real speed away.
+ * Returns an empty array when the trim leaves nothing.
+ */
+export function applyPrivacy(points: GPXPoint[], { hideRadius = 0, speedCap }: PrivacyOptions): GPXPoint[] {
+  const { start, end } = getPrivacyTrimRange(points, hideRadius);
+  if (start >= end) return [];
+
+  const trimmed = points.slice(start, end + 1).map(({ channels: _channels, ...p }) => p);
+  return speedCap && speedCap > 0 ? capTrackSpeed(trimmed, speedCap) : trimmed;
+}
+
+export const createExportGPX = (points: GPXPoint[], title: string, description?: string | null, privacy?: PrivacyOptions) =>
+  createGPXContent(privacy ? applyPrivacy(points, privacy) : points, title, undefined, description || undefined);
+
+const csvValue = (value: number | string | undefined) => {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const round = (value: number | undefined, digits: number) =>
+  value === undefined ? undefined : Number(value.toFixed(digits));
+
+/**
+ * One row per processed point: raw and smoothed position, speed, longitudinal and lateral acceleration, cumulative
+ * distance and elapsed time, followed by any logged channels.
+ */
+export function createProcessedCSV(track: ProcessedTrack): string {
+  const channelKeys = [...new Set(track.points.flatMap(p => Object.keys(p.channels || {})))];
+  const header = [
+    "time", "elapsed_s", "distance_km", "segment",
+    "lat", "lon", "ele_m", "smoothed_lat", "smoothed_lon", "smoothed_ele_m",
+    "speed_kmh", "acceleration_ms2", "lateral_acceleration_ms2", "device_speed_kmh", "course_deg", "hdop", "satellites",
+    ...channelKeys,
+  ];
+
+  const rows = track.points.map(p => [
+    p.time,
+    round(p.elapsedTime, 1),
+    round(p.distance, 4),
+    p.segment ?? 0,
+    p.lat,
+    p.lon,
+    p.ele,
+    round(p.smoothedLat, 7),
+    round(p.smoothedLon, 7),
+    round(p.smoothedEle, 1),
+    round(p.speed, 2),
+    round(p.acceleration, 3),
+    round(p.lateralAcceleration, 3),
+    round(p.deviceSpeed !== undefined ? p.deviceSpeed * 3.6 : undefined, 2),
+    p.course,
+    p.hdop,
+    p.satellites,
+    ...channelKeys.map(key => p.channels?.[key]),
+  ].map(csvValue).join(","));
+
+  return [header.join(","), ...rows].join("\n");
+}
+
+/**
+ * GeoJSON FeatureCollection: the smoothed track as a LineString (MultiLineString when it has
+ * segment breaks) plus one Point feature per stop, tight turn, hairpin, hard accel/brake and harsh cornering event.
+ * Coordinates are [lon, lat] as GeoJSON requires.
+ */
+export function createProcessedGeoJSON(track: ProcessedTrack, title: string): string {
+  const lines: [number, number][][] = [];
+  track.points.forEach((p, i) => {
+    if (i === 0 || (p.segment ?? 0) !== (track.points[i - 1].segment ?? 0)) lines.push([]);
+    lines[lines.length - 1].push([p.smoothedLon, p.smoothedLat]);
+  });
+
+  const { stats } = track;
+  const event = (type: string, [lat, lon, value]: number[]) => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [lon, lat] },
+    properties: value !== undefined ? { type, acceleration_ms2: round(value, 2) } : { type },
+  });
+
+  const collection = {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: lines.length === 1
+          ? { type: "LineString", coordinates: lines[0] }
+          : { type: "MultiLineString", coordinates: lines },
+        properties: {
+          type: "track",
+          name: title,
+          startTime: track.points[0]?.time,
+          distance_km: round(stats.totalDistance, 3),
+          duration_s: Math.round(stats.totalTime),
+          max_speed_kmh: round(stats.maxSpeed, 1),
+        },
+      },
+      // Classified stops carry their type and duration; older tracks only have positions
+      ...(stats.stops
+        ? stats.stops.map(stop => ({
+          ...event("stop", [stop.lat, stop.lon]),
+          properties: { type: "stop", stop_type: stop.type, start_time: stop.startTime, duration_s: Math.round(stop.duration) },
+        }))
+        : (stats.stopPoints || []).map(p => event("stop", p))),
+      ...(stats.tightTurnPoints || []).map(p => event("tight_turn", p)),
+      ...(stats.hairpinPoints || []).map(p => event("hairpin", p)),
+      ...(stats.hardAccelPoints || []).map(p => event("hard_acceleration", p)),
+      ...(stats.hardBrakePoints || []).map(p => event("hard_braking", p)),
+      ...(stats.harshCorneringPoints || []).map(p => event("harsh_cornering", p)),
+    ],
+  };
+
+  return JSON.stringify(collection);
+}
+
+// "Sunday drive: Alps/Dolomites" -> "Sunday_drive_Alps_Dolomites.gpx"
+export const exportFileName = (title: string, extension: string) =>
+  `${title.replace(/[^\w\-. ]+/g, "_").trim().replace(/\s+/g, "_") || "track"}.${extension}`;
+
+export function downloadFile(content: string | Blob, fileName: string, mimeType = "application/octet-stream") {
+  const blob = typeof content === "string" ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
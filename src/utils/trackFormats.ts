@@ -0,0 +1,108 @@
+import { GPXPoint, parseGPX } from "./gpxParser";
+import { parseTCX } from "./tcxParser";
+import { parseFIT } from "./fitParser";
+import { parseKML, parseKMZ } from "./kmlParser";
+import { parseGeoJSON } from "./geojsonParser";
+import { parseNMEA } from "./nmeaParser";
+import { CSVColumnMapping, parseCSV } from "./csvParser";
+
+export type TrackFormat = 'gpx' | 'tcx' | 'fit' | 'kml' | 'kmz' | 'geojson' | 'nmea' | 'csv';
+
+interface TrackFormatInfo {
+  extensions: string[];
+  binary: boolean; // read as ArrayBuffer instead of text
+  mimeType: string;
+}
+
+export const TRACK_FORMATS: Record<TrackFormat, TrackFormatInfo> = {
+  gpx: { extensions: ['.gpx'], binary: false, mimeType: 'text/xml' },
+  tcx: { extensions: ['.tcx'], binary: false, mimeType: 'text/xml' },
+  fit: { extensions: ['.fit'], binary: true, mimeType: 'application/octet-stream' },
+  kml: { extensions: ['.kml'], binary: false, mimeType: 'application/vnd.google-earth.kml+xml' },
+  kmz: { extensions: ['.kmz'], binary: true, mimeType: 'application/vnd.google-earth.kmz' },
+  geojson: { extensions: ['.geojson', '.json'], binary: false, mimeType: 'application/geo+json' },
+  nmea: { extensions: ['.nmea', '.nma'], binary: false, mimeType: 'text/plain' },
+  csv: { extensions: ['.csv'], binary: false, mimeType: 'text/csv' },
+};
+
+export const SUPPORTED_TRACK_EXTENSIONS = Object.values(TRACK_FORMATS).flatMap(f => f.extensions);
+
+// A file as read by the uploader: text for XML/JSON formats, raw bytes for binary ones
+export interface TrackFile {
+  name: string;
+  content: string | ArrayBuffer;
+}
+
+export function getTrackFormat(fileName: string): TrackFormat | null {
+  const lower = fileName.toLowerCase();
+  for (const [format, info] of Object.entries(TRACK_FORMATS)) {
+    if (info.extensions.some(ext => lower.endsWith(ext))) return format as TrackFormat;
+  }
+  return null;
+}
+
+export function isBinaryTrackFile(fileName: string): boolean {
+  const format = getTrackFormat(fileName);
+  return format ? TRACK_FORMATS[format].binary : false;
+}
+
+// Strips a known track extension from a file name (used for activity titles)
+export function stripTrackExtension(fileName: string): string {
+  const lower = fileName.toLowerCase();
+  const ext = SUPPORTED_TRACK_EXTENSIONS.find(e => lower.endsWith(e));
+  return ext ? fileName.slice(0, -ext.length) : fileName;
+}
+
+export interface ParseTrackOptions {
+  csvMapping?: CSVColumnMapping; // column mapping chosen in the upload UI; guessed from headers if absent
+}
+
+/**
+ * Parses any supported track file into GPXPoints, based on its extension.
+ */
+export function parseTrackFile(content: string | ArrayBuffer, fileName: string, options: ParseTrackOptions = {}): GPXPoint[] {
+  const format = getTrackFormat(fileName);
+  if (!format) throw new Error(`Unsupported file type: ${fileName}`);
+
+  if (TRACK_FORMATS[format].binary) {
+    if (typeof content === 'string') throw new Error(`${fileName} must be read as binary`);
+  } else if (typeof content !== 'string') {
+    content = new TextDecoder().decode(content);
+  }
+
+  switch (format) {
+    case 'fit':
+      return parseFIT(content as ArrayBuffer);
+    case 'kmz':
+      return parseKMZ(content as ArrayBuffer);
+    case 'kml':
+      return parseKML(content as string);
+    case 'geojson':
+      return parseGeoJSON(content as string);
+    case 'nmea':
+      return parseNMEA(content as string);
+    case 'csv':
+      return parseCSV(content as string, options.csvMapping);
+    case 'tcx':
+      return parseTCX(content as string);
+    case 'gpx':
+      return parseGPX(content as string);
+  }
+}
+
+/**
+ * Storage paths belonging to one activity.
+ * Non-GPX uploads are stored as-is, with a generated GPX next to them at `<original>.gpx`;
+ * that GPX is the activity's `file_path`, so the original is the path without the trailing `.gpx`.
+ * A trimmed activity keeps its GPX from before the trim at `untrimmed`.
+ */
+export function getTrackStoragePaths(filePath: string): { gpx: string; processed: string; untrimmed: string; source: string | null } {
+  const withoutGpx = filePath.replace(/\.gpx$/i, '');
+  const sourceFormat = getTrackFormat(withoutGpx);
+  return {
+    gpx: filePath,
+    processed: withoutGpx + '.processed.json',
+    untrimmed: withoutGpx + '.untrimmed.gpx',
+    source: sourceFormat && sourceFormat !== 'gpx' ? withoutGpx : null,
+  };
+}
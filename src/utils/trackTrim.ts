@@ -0,0 +1,22 @@
+import { GPXPoint } from "./gpxParser";
+
+/**
+ * Trimming an activity's track: keep only a range (forgot to start or stop recording) or cut a
+ * section out of the middle (a detour). What is left is rewritten as the activity's GPX; the
+ * untouched upload is kept next to it so the trim can be reverted.
+ */
+
+export type TrimMode = 'keep' | 'cut';
+
+// The points left after keeping or cutting out points[start..end] (inclusive)
+export function trimTrack(points: GPXPoint[], [start, end]: [number, number], mode: TrimMode): GPXPoint[] {
+  if (mode === 'keep') return points.slice(start, end + 1);
+
+  const before = points.slice(0, start);
+  const after = points.slice(end + 1);
+  if (before.length === 0 || after.length === 0) return [...before, ...after];
+
+  // The two sides are not joined by a straight line: what follows the cut starts a new segment
+  const offset = (before[before.length - 1].segment ?? 0) + 1 - (after[0].segment ?? 0);
+  return [...before, ...after.map(point => ({ ...point, segment: (point.segment ?? 0) + offset }))];
+}
@@ -0,0 +1,137 @@
+import { GPXPoint, haversineDistance } from "./gpxParser";
+
+/**
+ * Trip splitting for always-on loggers that record a whole day into one file. A trip ends where
+ * the vehicle was parked: either the logger stopped recording for a while (a time jump between
+ * two points) or it kept recording but the position stayed put. The parked time itself belongs
+ * to no trip.
+ *
+ * The reverse, merging, joins several recordings of one drive (e.g. after the phone app restarted).
+ */
+
+export const MIN_PARKED_DURATION = 15 * 60; // s - shorter standstills (queues, drive-thrus) don't split
+const PARKED_RADIUS = 0.05;                  // km - GPS drift while parked stays within this
+export const MIN_TRIP_DISTANCE = 0.3;        // km - shorter trips are re-parking, not drives
+
+export interface TripSplit {
+  endIndex: number;   // last point of the trip before the parked period
+  startIndex: number; // first point of the next trip
+  lat: number;        // where the vehicle was parked
+  lon: number;
+  duration: number;   // s parked
+  reason: 'time-gap' | 'parked';
+}
+
+export interface Trip {
+  startIndex: number;
+  endIndex: number;  // inclusive
+  distance: number;  // km
+  duration: number;  // s
+}
+
+const timeOf = (point: GPXPoint) => point.time?.getTime();
+
+// Distance along points[start..end]
+function pathDistance(points: GPXPoint[], start: number, end: number): number {
+  let distance = 0;
+  for (let i = start + 1; i <= end; i++) {
+    distance += haversineDistance(points[i - 1].lat, points[i - 1].lon, points[i].lat, points[i].lon);
+  }
+  return distance;
+}
+
+/**
+ * Parked periods in a recording, in order. Tracks without timestamps are never split. A stretch
+ * of driving between two parked periods that is shorter than MIN_TRIP_DISTANCE (moving to another
+ * space) is treated as part of one longer parked period.
+ */
+export function detectTripSplits(points: GPXPoint[]): TripSplit[] {
+  if (points.length < 2 || points.some(p => !p.time)) return [];
+
+  const raw: TripSplit[] = [];
+  let i = 0;
+  while (i < points.length - 1) {
+    // Logger switched off: a jump in time
+    const gap = (timeOf(points[i + 1])! - timeOf(points[i])!) / 1000;
+    if (gap >= MIN_PARKED_DURATION) {
+      raw.push({ endIndex: i, startIndex: i + 1, lat: points[i].lat, lon: points[i].lon, duration: gap, reason: 'time-gap' });
+      i++;
+      continue;
+    }
+
+    // Logger left on: the position stays within PARKED_RADIUS of where it stopped
+    let j = i + 1;
+    while (j < points.length && haversineDistance(points[i].lat, points[i].lon, points[j].lat, points[j].lon) <= PARKED_RADIUS) j++;
+    const last = j - 1;
+    const parked = (timeOf(points[last])! - timeOf(points[i])!) / 1000;
+    if (last > i && parked >= MIN_PARKED_DURATION) {
+      raw.push({ endIndex: i, startIndex: last, lat: points[i].lat, lon: points[i].lon, duration: parked, reason: 'parked' });
+      i = last;
+      continue;
+    }
+    i++;
+  }
+
+  // Join parked periods separated by only a short shuffle
+  const splits: TripSplit[] = [];
+  for (const split of raw) {
+    const previous = splits[splits.length - 1];
+    if (previous && pathDistance(points, previous.startIndex, split.endIndex) < MIN_TRIP_DISTANCE) {
+      previous.startIndex = split.startIndex;
+      previous.duration = (timeOf(points[split.startIndex])! - timeOf(points[previous.endIndex])!) / 1000;
+      if (split.reason === 'time-gap') previous.reason = 'time-gap';
+    } else {
+      splits.push({ ...split });
+    }
+  }
+  return splits;
+}
+
+// The trips either side of the given parked periods
+export function planTrips(points: GPXPoint[], splits: TripSplit[]): Trip[] {
+  if (points.length === 0) return [];
+  const bounds: [number, number][] = [];
+  let start = 0;
+  for (const split of splits) {
+    bounds.push([start, split.endIndex]);
+    start = split.startIndex;
+  }
+  bounds.push([start, points.length - 1]);
+
+  return bounds.map(([startIndex, endIndex]) => {
+    const startTime = timeOf(points[startIndex]);
+    const endTime = timeOf(points[endIndex]);
+    return {
+      startIndex,
+      endIndex,
+      distance: pathDistance(points, startIndex, endIndex),
+      duration: startTime !== undefined && endTime !== undefined ? (endTime - startTime) / 1000 : 0,
+    };
+  });
+}
+
+/**
+ * Joins recordings of one drive in time order. Each recording's segments stay separate segments,
+ * so the gaps between files are recording breaks rather than a straight line. Points that overlap
+ * the previous recording in time are dropped.
+ */
+export function mergeTracks(tracks: GPXPoint[][]): GPXPoint[] {
+  const ordered = tracks
+    .filter(track => track.length > 0)
+    .sort((a, b) => (timeOf(a[0]) ?? 0) - (timeOf(b[0]) ?? 0));
+
+  const merged: GPXPoint[] = [];
+  let segmentOffset = 0;
+  for (const track of ordered) {
+    const lastTime = merged.length > 0 ? timeOf(merged[merged.length - 1]) : undefined;
+    let maxSegment = 0;
+    for (const point of track) {
+      const time = timeOf(point);
+      if (lastTime !== undefined && time !== undefined && time <= lastTime) continue;
+      maxSegment = Math.max(maxSegment, point.segment ?? 0);
+      merged.push({ ...point, segment: segmentOffset + (point.segment ?? 0) });
+    }
+    segmentOffset += maxSegment + 1;
+  }
+  return merged;
+}
@@ -0,0 +1,203 @@
+/**
+ * Vehicle physics for fuel and battery energy estimates. The vehicle is defined once on the
+ * user's profile (profiles.vehicle); each drive's estimate keeps a copy of the vehicle it was
+ * made with, so totals don't shift when the profile is edited later.
+ */
+
+export type FuelType = 'petrol' | 'diesel' | 'electric';
+type CombustionFuel = Exclude<FuelType, 'electric'>;
+
+export interface VehicleSpec {
+  fuelType: FuelType;
+  mass: number;               // kg, including driver and load
+  dragCoefficient: number;    // Cd
+  frontalArea: number;        // m²
+  rollingResistance: number;  // Crr
+  engineEfficiency: number;   // 0..1, fuel energy that reaches the wheels
+  idleFuelRate: number;       // L/h while stopped with the engine running
+  batteryCapacity: number;      // kWh usable
+  drivetrainEfficiency: number; // 0..1, battery energy that reaches the wheels
+  regenEfficiency: number;      // 0..1, braking energy at the wheels returned to the battery
+}
+
+export type VehicleSetting = Exclude<keyof VehicleSpec, 'fuelType'>;
+
+export function isElectric(vehicle: VehicleSpec): boolean {
+  return vehicle.fuelType === 'electric';
+}
+
+// A mid-size petrol hatchback; used until the user describes their own vehicle.
+// The battery fields only apply once the fuel type is switched to electric.
+export const DEFAULT_VEHICLE: VehicleSpec = {
+  fuelType: 'petrol',
+  mass: 1500,
+  dragCoefficient: 0.30,
+  frontalArea: 2.2,
+  rollingResistance: 0.012,
+  engineEfficiency: 0.25,
+  idleFuelRate: 0.8,
+  batteryCapacity: 60,
+  drivetrainEfficiency: 0.85,
+  regenEfficiency: 0.6,
+};
+
+// Editable fields, in display order; fields without a powertrain apply to both
+export const VEHICLE_SETTINGS: { key: VehicleSetting; label: string; unit: string; step: number; powertrain?: 'combustion' | 'electric' }[] = [
+  { key: 'mass', label: 'Mass', unit: 'kg', step: 50 },
+  { key: 'dragCoefficient', label: 'Drag coefficient', unit: 'Cd', step: 0.01 },
+  { key: 'frontalArea', label: 'Frontal area', unit: 'm²', step: 0.1 },
+  { key: 'rollingResistance', label: 'Rolling resistance', unit: 'Crr', step: 0.001 },
+  { key: 'engineEfficiency', label: 'Engine efficiency', unit: '0-1', step: 0.01, powertrain: 'combustion' },
+  { key: 'idleFuelRate', label: 'Idle consumption', unit: 'L/h', step: 0.1, powertrain: 'combustion' },
+  { key: 'batteryCapacity', label: 'Battery capacity', unit: 'kWh', step: 1, powertrain: 'electric' },
+  { key: 'drivetrainEfficiency', label: 'Drivetrain efficiency', unit: '0-1', step: 0.01, powertrain: 'electric' },
+  { key: 'regenEfficiency', label: 'Regen efficiency', unit: '0-1', step: 0.01, powertrain: 'electric' },
+];
+
+// Lower heating value, MJ per litre
+export const FUEL_ENERGY_DENSITY: Record<CombustionFuel, number> = {
+  petrol: 32.0,
+  diesel: 35.8,
+};
+
+const GRAVITY = 9.81;    // m/s²
+const AIR_DENSITY = 1.2; // kg/m³
+const JOULES_PER_KWH = 3.6e6;
+
+// Vehicle stored on a profile or estimate; missing fields (older snapshots) come from the default
+export function resolveVehicle(stored?: Partial<VehicleSpec> | null): VehicleSpec {
+  return stored ? { ...DEFAULT_VEHICLE, ...stored } : DEFAULT_VEHICLE;
+}
+
+// Vehicle to re-estimate a drive with: the copy kept with its estimate, else (drives analysed
+// before estimates existed) the profile's current vehicle
+export function driveVehicle(
+  stats: { fuel?: FuelEstimate; energy?: EnergyEstimate } | null | undefined,
+  profileVehicle?: Partial<VehicleSpec> | null
+): VehicleSpec {
+  return resolveVehicle(stats?.fuel?.vehicle ?? stats?.energy?.vehicle ?? profileVehicle);
+}
+
+// One step between consecutive track points
+export interface DriveStep {
+  distance: number;  // m
+  time: number;      // s
+  speed: number;     // m/s, smoothed
+  prevSpeed: number; // m/s, the previous step's speed (0 at the start of a segment)
+  climb: number;     // m, change in smoothed elevation
+  stopped: boolean;  // below the profile's stop speed
+}
+
+export interface FuelEstimate {
+  fuelUsed: number;       // L, driving + idle
+  idleFuel: number;       // L, while stopped
+  litresPer100km: number; // total fuel over the distance driven
+  wheelEnergy: number;    // MJ delivered to the wheels while driving
+  vehicle: VehicleSpec;   // the vehicle the estimate was made with
+}
+
+export interface EnergyEstimate {
+  energyUsed: number;     // kWh, net of regen
+  tractionEnergy: number; // kWh drawn from the battery to drive
+  regenEnergy: number;    // kWh returned to the battery by braking and descents
+  whPerKm: number;        // net energy over the distance driven
+  vehicle: VehicleSpec;   // the vehicle the estimate was made with
+}
+
+// Work needed at the wheels over one step (J); negative when the vehicle is slowing or descending
+// faster than rolling resistance and drag alone would allow
+function wheelWork(step: DriveStep, vehicle: VehicleSpec): number {
+  const { mass, dragCoefficient, frontalArea, rollingResistance } = vehicle;
+  const rolling = rollingResistance * mass * GRAVITY * step.distance;
+  const aero = 0.5 * AIR_DENSITY * dragCoefficient * frontalArea * step.speed * step.speed * step.distance;
+  const climbing = mass * GRAVITY * step.climb;
+  const acceleration = 0.5 * mass * (step.speed * step.speed - step.prevSpeed * step.prevSpeed);
+  return rolling + aero + climbing + acceleration;
+}
+
+/**
+ * Fuel from the work done at the wheels: rolling resistance, aerodynamic drag, climbing and
+ * speeding up. Steps that need no tractive work (coasting, braking, descending) burn nothing -
+ * modern engines cut fuel on overrun - and stopped time burns the idle rate.
+ */
+export function estimateFuel(steps: DriveStep[], vehicle: VehicleSpec = DEFAULT_VEHICLE): FuelEstimate {
+  const { engineEfficiency, idleFuelRate } = vehicle;
+  let wheelEnergy = 0; // J
+  let idleTime = 0;    // s
+  let distance = 0;    // m
+
+  for (const step of steps) {
+    distance += step.distance;
+    if (step.stopped) {
+      idleTime += step.time;
+      continue;
+    }
+    wheelEnergy += Math.max(0, wheelWork(step, vehicle));
+  }
+
+  // Only combustion vehicles get a fuel estimate; anything else is costed as petrol
+  const energyDensity = FUEL_ENERGY_DENSITY[vehicle.fuelType as CombustionFuel] ?? FUEL_ENERGY_DENSITY.petrol;
+  const drivingFuel = engineEfficiency > 0 ? wheelEnergy / 1e6 / engineEfficiency / energyDensity : 0;
+  const idleFuel = (idleTime / 3600) * idleFuelRate;
+  const fuelUsed = drivingFuel + idleFuel;
+
+  return {
+    fuelUsed,
+    idleFuel,
+    litresPer100km: distance > 0 ? fuelUsed / (distance / 100000) : 0,
+    wheelEnergy: wheelEnergy / 1e6,
+    vehicle,
+  };
+}
+
+// Battery energy over one step (kWh): drawn through the drivetrain when the wheels need work,
+// returned through regen when they give it back
+export function batteryEnergy(step: DriveStep, vehicle: VehicleSpec): number {
+  const work = wheelWork(step, vehicle);
+  if (work >= 0) return vehicle.drivetrainEfficiency > 0 ? work / vehicle.drivetrainEfficiency / JOULES_PER_KWH : 0;
+  return (work * vehicle.regenEfficiency) / JOULES_PER_KWH;
+}
+
+/**
+ * Battery energy for an electric vehicle. Unlike an engine there is nothing to idle, so stopped
+ * steps only count the (tiny) physics of creeping; braking and descending feed regen instead of
+ * being lost.
+ */
+export function estimateEnergy(steps: DriveStep[], vehicle: VehicleSpec = DEFAULT_VEHICLE): EnergyEstimate {
+  let tractionEnergy = 0;
+  let regenEnergy = 0;
+  let distance = 0; // m
+
+  for (const step of steps) {
+    distance += step.distance;
+    const energy = batteryEnergy(step, vehicle);
+    if (energy >= 0) tractionEnergy += energy;
+    else regenEnergy -= energy;
+  }
+
+  const energyUsed = tractionEnergy - regenEnergy;
+  return {
+    energyUsed,
+    tractionEnergy,
+    regenEnergy,
+    whPerKm: distance > 0 ? (energyUsed * 1000) / (distance / 1000) : 0,
+    vehicle,
+  };
+}
+
+/**
+ * State of charge (%) along a drive from the cumulative battery energy at each point (kWh).
+ * The battery can't go above full - regen is lost once it is - or below empty.
+ */
+export function stateOfCharge(batteryUse: number[], batteryCapacity: number, startPercent: number): number[] {
+  if (batteryCapacity <= 0) return batteryUse.map(() => startPercent);
+  const levels: number[] = [];
+  let charge = Math.min(100, Math.max(0, startPercent)) / 100 * batteryCapacity;
+  let previous = batteryUse[0] ?? 0;
+  for (const used of batteryUse) {
+    charge = Math.min(batteryCapacity, Math.max(0, charge - (used - previous)));
+    previous = used;
+    levels.push((charge / batteryCapacity) * 100);
+  }
+  return levels;
+}
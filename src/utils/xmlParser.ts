@@ -0,0 +1,159 @@
+/**
+ * Minimal XML parser for track files.
+ * `DOMParser` doesn't exist inside Web Workers, so the GPX/TCX/KML parsers use this instead.
+ * It mirrors the small part of the DOM API they need (getElementsByTagName[NS], getAttribute,
+ * textContent, children, localName) and is forgiving: unknown entities are kept verbatim and
+ * unclosed tags are closed at end of input.
+ */
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text;
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+export class XmlElement {
+  readonly tagName: string;
+  readonly localName: string;
+  readonly children: XmlElement[] = [];
+  private readonly attributes: Record<string, string>;
+  private readonly content: (XmlElement | string)[] = [];
+
+  constructor(tagName: string, attributes: Record<string, string> = {}) {
+    this.tagName = tagName;
+    this.localName = tagName.slice(tagName.indexOf(":") + 1);
+    this.attributes = attributes;
+  }
+
+  append(node: XmlElement | string) {
+    this.content.push(node);
+    if (typeof node !== "string") this.children.push(node);
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes[name] ?? null;
+  }
+
+  get textContent(): string {
+    return this.content.map(node => (typeof node === "string" ? node : node.textContent)).join("");
+  }
+
+  // Descendants in document order whose qualified name matches (like Element.getElementsByTagName)
+  getElementsByTagName(tagName: string): XmlElement[] {
+    return this.findAll(el => el.tagName === tagName);
+  }
+
+  // Namespace-agnostic lookup by local name; only the "*" wildcard namespace is supported
+  getElementsByTagNameNS(_namespace: "*", localName: string): XmlElement[] {
+    return this.findAll(el => el.localName === localName);
+  }
+
+  private findAll(match: (el: XmlElement) => boolean): XmlElement[] {
+    const found: XmlElement[] = [];
+    const stack = [...this.children].reverse();
+    while (stack.length > 0) {
+      const el = stack.pop()!;
+      if (match(el)) found.push(el);
+      for (let i = el.children.length - 1; i >= 0; i--) stack.push(el.children[i]);
+    }
+    return found;
+  }
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Parses an XML string into a document node (an unnamed XmlElement whose children are the root elements).
+ * Whitespace-only text between elements is dropped.
+ */
+export function parseXML(xml: string): XmlElement {
+  const document = new XmlElement("#document");
+  const stack: XmlElement[] = [document];
+  let pos = 0;
+
+  const appendText = (text: string) => {
+    if (text.trim() !== "") stack[stack.length - 1].append(decodeEntities(text));
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf("<", pos);
+    if (lt < 0) {
+      appendText(xml.slice(pos));
+      break;
+    }
+    if (lt > pos) appendText(xml.slice(pos, lt));
+
+    if (xml.startsWith("<!--", lt)) {
+      const end = xml.indexOf("-->", lt + 4);
+      pos = end < 0 ? xml.length : end + 3;
+    } else if (xml.startsWith("<![CDATA[", lt)) {
+      const end = xml.indexOf("]]>", lt + 9);
+      stack[stack.length - 1].append(xml.slice(lt + 9, end < 0 ? xml.length : end));
+      pos = end < 0 ? xml.length : end + 3;
+    } else if (xml.startsWith("<?", lt)) {
+      const end = xml.indexOf("?>", lt + 2);
+      pos = end < 0 ? xml.length : end + 2;
+    } else if (xml.startsWith("<!", lt)) {
+      // DOCTYPE: skip, including an internal subset in [...]
+      const bracket = xml.indexOf("[", lt);
+      const close = xml.indexOf(">", lt);
+      const end = bracket >= 0 && bracket < close ? xml.indexOf("]>", bracket) + 1 : close;
+      pos = end <= 0 ? xml.length : end + 1;
+    } else if (xml[lt + 1] === "/") {
+      const end = xml.indexOf(">", lt);
+      const name = xml.slice(lt + 2, end < 0 ? xml.length : end).trim();
+      // Pop up to the matching element; stray closing tags are ignored
+      const index = stack.map(el => el.tagName).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      pos = end < 0 ? xml.length : end + 1;
+    } else {
+      const end = findTagEnd(xml, lt);
+      const selfClosing = xml[end - 1] === "/";
+      const source = xml.slice(lt + 1, selfClosing ? end - 1 : end);
+      const nameEnd = source.search(/[\s/]|$/);
+      const element = new XmlElement(source.slice(0, nameEnd), parseAttributes(source.slice(nameEnd)));
+      stack[stack.length - 1].append(element);
+      if (!selfClosing) stack.push(element);
+      pos = end + 1;
+    }
+  }
+
+  return document;
+}
+
+// Index of the '>' closing the tag opened at `start`, skipping '>' inside quoted attribute values
+function findTagEnd(xml: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < xml.length; i++) {
+    const c = xml[i];
+    if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === ">") {
+      return i;
+    }
+  }
+  return xml.length;
+}
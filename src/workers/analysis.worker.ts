@@ -0,0 +1,17 @@
+import { AnalysisMessage, AnalysisRequest, runAnalysisTask } from "./analysisTasks";
+
+// Runs parsing and track analysis off the main thread. See src/lib/analysis.ts for the client.
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (event: MessageEvent<{ id: number; request: AnalysisRequest }>) => {
+  const { id, request } = event.data;
+  const post = (message: AnalysisMessage) => ctx.postMessage(message);
+
+  try {
+    const result = await runAnalysisTask(request, progress => post({ id, kind: 'progress', progress }));
+    post({ id, kind: 'progress', progress: { stage: 'done', fraction: 1 } });
+    post({ id, kind: 'result', result });
+  } catch (err) {
+    post({ id, kind: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
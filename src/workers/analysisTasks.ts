@@ -0,0 +1,103 @@
+import { BatterySeries, GForceSeries, GPXPoint, GPXStats, LimitedStatsResult, ProcessedTrack, TrackSegment, analyzeSegments, calculateBatteryUse, calculateGForces, calculateLimitedStats, calculateStats, generateProcessedTrack } from "@/utils/gpxParser";
+import { ParseTrackOptions, parseTrackFile } from "@/utils/trackFormats";
+import { AnalysisProfile } from "@/utils/analysisProfiles";
+import { VehicleSpec } from "@/utils/vehicleModel";
+import { LapAnalysis, TimingLine, analyzeLaps } from "@/utils/lapTiming";
+import { MatchedPoint, OSMElement, buildRoadGraph, matchTrack } from "@/utils/mapMatching";
+import { SpeedLimitReport, analyzeSpeedLimits } from "@/utils/speedLimits";
+import { DEMFile, correctElevation } from "@/utils/elevationModel";
+
+// --- Protocol shared by the analysis worker and its client (src/lib/analysis.ts) ---
+
+export type AnalysisRequest =
+  | { type: 'parseTrack'; content: string | ArrayBuffer; fileName: string; options?: ParseTrackOptions }
+  | { type: 'importTrack'; content: string | ArrayBuffer; fileName: string; options?: ParseTrackOptions; profile?: AnalysisProfile; vehicle?: VehicleSpec }
+  | { type: 'processTrack'; points: GPXPoint[]; profile?: AnalysisProfile; vehicle?: VehicleSpec }
+  | { type: 'calculateStats'; points: GPXPoint[]; profile?: AnalysisProfile; vehicle?: VehicleSpec }
+  | { type: 'analyzeSegments'; points: GPXPoint[]; profile?: AnalysisProfile }
+  | { type: 'calculateLimitedStats'; points: GPXPoint[]; speedLimit: number; profile?: AnalysisProfile }
+  | { type: 'analyzeLaps'; points: GPXPoint[]; profile?: AnalysisProfile; line?: TimingLine | null }
+  | { type: 'calculateGForces'; points: GPXPoint[]; profile?: AnalysisProfile }
+  | { type: 'calculateBatteryUse'; points: GPXPoint[]; profile?: AnalysisProfile; vehicle?: VehicleSpec }
+  | { type: 'matchRoads'; points: GPXPoint[]; elements: OSMElement[] }
+  | { type: 'analyzeSpeedLimits'; points: GPXPoint[]; limits: (number | null)[]; profile?: AnalysisProfile }
+  | { type: 'correctElevation'; points: GPXPoint[]; files: Record<string, DEMFile | null> };
+
+export interface AnalysisResults {
+  parseTrack: GPXPoint[];
+  importTrack: { points: GPXPoint[]; processedTrack: ProcessedTrack };
+  processTrack: ProcessedTrack;
+  calculateStats: GPXStats;
+  analyzeSegments: TrackSegment[];
+  calculateLimitedStats: LimitedStatsResult | null;
+  analyzeLaps: LapAnalysis | null;
+  calculateGForces: GForceSeries;
+  calculateBatteryUse: BatterySeries;
+  matchRoads: (MatchedPoint | null)[];
+  analyzeSpeedLimits: SpeedLimitReport;
+  correctElevation: GPXPoint[] | null;
+}
+
+export type AnalysisStage = 'parsing' | 'analysing' | 'done';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  fraction: number; // 0..1 across the whole task
+}
+
+export type AnalysisMessage =
+  | { id: number; kind: 'progress'; progress: AnalysisProgress }
+  | { id: number; kind: 'result'; result: AnalysisResults[keyof AnalysisResults] }
+  | { id: number; kind: 'error'; message: string };
+
+/**
+ * Runs one analysis request, synchronously apart from decoding DEM tiles (GeoTIFF inflation is
+ * async). Called inside the worker, or on the main thread when Web Workers aren't available.
+ */
+export function runAnalysisTask(
+  request: AnalysisRequest,
+  onProgress: (progress: AnalysisProgress) => void
+): AnalysisResults[keyof AnalysisResults] | Promise<AnalysisResults[keyof AnalysisResults]> {
+  switch (request.type) {
+    case 'parseTrack': {
+      onProgress({ stage: 'parsing', fraction: 0 });
+      return parseTrackFile(request.content, request.fileName, request.options);
+    }
+    case 'importTrack': {
+      onProgress({ stage: 'parsing', fraction: 0 });
+      const points = parseTrackFile(request.content, request.fileName, request.options);
+      onProgress({ stage: 'analysing', fraction: 0.4 });
+      return { points, processedTrack: generateProcessedTrack(points, request.profile, request.vehicle) };
+    }
+    case 'processTrack':
+      onProgress({ stage: 'analysing', fraction: 0 });
+      return generateProcessedTrack(request.points, request.profile, request.vehicle);
+    case 'calculateStats':
+      onProgress({ stage: 'analysing', fraction: 0 });
+      return calculateStats(request.points, request.profile, request.vehicle);
+    case 'analyzeSegments':
+      onProgress({ stage: 'analysing', fraction: 0 });
+      return analyzeSegments(request.points, request.profile);
+    case 'calculateLimitedStats':
+      onProgress({ stage: 'analysing', fraction: 0 });
+      return calculateLimitedStats(request.points, request.speedLimit, request.profile);
+    case 'analyzeLaps':
+      onProgress({ stage: 'analysing', fraction: 0 });
+      return analyzeLaps(request.points, request.profile, request.line);
+    case 'calculateGForces':
+      onProgress({ stage: 'analysing', fraction: 0 });
+      return calculateGForces(request.points, request.profile);
+    case 'calculateBatteryUse':
+      onProgress({ stage: 'analysing', fraction: 0 });
+      return calculateBatteryUse(request.points, request.profile, request.vehicle);
+    case 'matchRoads':
+      onProgress({ stage: 'analysing', fraction: 0 });
+      return matchTrack(request.points, buildRoadGraph(request.elements));
+    case 'analyzeSpeedLimits':
+      onProgress({ stage: 'analysing', fraction: 0 });
+      return analyzeSpeedLimits(request.points, request.limits, request.profile);
+    case 'correctElevation':
+      onProgress({ stage: 'analysing', fraction: 0 });
+      return correctElevation(request.points, request.files);
+  }
+}